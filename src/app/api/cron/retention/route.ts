@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/auth';
+import { getMemoryService, hasMemoryStorage } from '@/lib/memory';
+import { listAllMemoryInstances } from '@/lib/supabase';
+import { RETENTION_POLICIES } from '@/lib/types';
+import type { RetentionRunResponse, ApiError } from '@/lib/types';
+
+// Enforce retention policies across all instances (scheduled in vercel.json)
+export async function GET(request: NextRequest): Promise<NextResponse<RetentionRunResponse | ApiError>> {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Missing or invalid cron secret', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+  
+  const startTime = Date.now();
+  const instances = await listAllMemoryInstances();
+  let removed = 0;
+  let failed = 0;
+  
+  for (const instance of instances) {
+    // Instances that were never written to have nothing to expire
+    if (!hasMemoryStorage(instance)) {
+      continue;
+    }
+    
+    try {
+      removed += await getMemoryService(instance).enforceRetention(RETENTION_POLICIES[instance.tier]);
+    } catch (error) {
+      console.error(`Retention failed for instance ${instance.id}:`, error);
+      failed++;
+    }
+  }
+  
+  return NextResponse.json({
+    instances: instances.length,
+    removed,
+    failed,
+    took_ms: Date.now() - startTime
+  });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/auth';
+import { getMemoryService, hasMemoryStorage } from '@/lib/memory';
+import { listAllMemoryInstances } from '@/lib/supabase';
+import { RETENTION_POLICIES } from '@/lib/types';
+import type { SnapshotRunResponse, ApiError } from '@/lib/types';
+
+// Take each instance's daily snapshot and prune old ones (scheduled in vercel.json)
+export async function GET(request: NextRequest): Promise<NextResponse<SnapshotRunResponse | ApiError>> {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Missing or invalid cron secret', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+  
+  const startTime = Date.now();
+  const instances = await listAllMemoryInstances();
+  let created = 0;
+  let pruned = 0;
+  let failed = 0;
+  
+  for (const instance of instances) {
+    // Instances that were never written to have nothing to snapshot
+    if (!hasMemoryStorage(instance)) {
+      continue;
+    }
+    
+    try {
+      const memory = getMemoryService(instance);
+      pruned += await memory.pruneSnapshots(RETENTION_POLICIES[instance.tier]);
+      await memory.createSnapshot('scheduled', RETENTION_POLICIES[instance.tier]);
+      created++;
+    } catch (error) {
+      console.error(`Snapshot failed for instance ${instance.id}:`, error);
+      failed++;
+    }
+  }
+  
+  return NextResponse.json({
+    instances: instances.length,
+    created,
+    pruned,
+    failed,
+    took_ms: Date.now() - startTime
+  });
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/auth';
+import { getMemoryService, hasMemoryStorage } from '@/lib/memory';
+import { listAllMemoryInstances, recordStorageUsage } from '@/lib/supabase';
+import type { StorageRunResponse, StorageUsageRecord, ApiError } from '@/lib/types';
+
+// Record each instance's storage for the day (scheduled in vercel.json)
+export async function GET(request: NextRequest): Promise<NextResponse<StorageRunResponse | ApiError>> {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Missing or invalid cron secret', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+  
+  const startTime = Date.now();
+  const date = new Date().toISOString().slice(0, 10);
+  const instances = await listAllMemoryInstances();
+  const records: StorageUsageRecord[] = [];
+  let failed = 0;
+  
+  for (const instance of instances) {
+    // Instances that were never written to use no storage
+    if (!hasMemoryStorage(instance)) {
+      records.push({ user_id: instance.user_id, instance_id: instance.id, date, storage_bytes: 0, memories: 0 });
+      continue;
+    }
+    
+    try {
+      const { storage } = await getMemoryService(instance).stats();
+      records.push({
+        user_id: instance.user_id,
+        instance_id: instance.id,
+        date,
+        storage_bytes: storage.bytes + storage.snapshot_bytes,
+        memories: storage.rows.memories
+      });
+    } catch (error) {
+      console.error(`Storage metering failed for instance ${instance.id}:`, error);
+      failed++;
+    }
+  }
+  
+  await recordStorageUsage(records);
+  
+  return NextResponse.json({
+    instances: instances.length,
+    storage_bytes: records.reduce((sum, record) => sum + record.storage_bytes, 0),
+    failed,
+    took_ms: Date.now() - startTime
+  });
+}
@@ -1,9 +1,11 @@
 import { NextResponse } from 'next/server';
+import { getDbPoolStats } from '@/lib/memory';
 
 export async function GET() {
   return NextResponse.json({
     status: 'ok',
     version: '0.1.0',
-    timestamp: new Date().toISOString()
+    timestamp: new Date().toISOString(),
+    db_pool: getDbPoolStats()
   });
 }
@@ -23,10 +23,62 @@ const openApiSpec = {
   ],
   security: [{ bearerAuth: [] }],
   paths: {
+    '/api/v1/memory': {
+      parameters: [{ $ref: '#/components/parameters/MemoryInstance' }],
+      get: {
+        summary: 'List memories',
+        description: 'Page through all memories without a search query. Listing does not count as access: last_accessed and activation are not changed. Pages are keyset-based, so rows inserted while paging are neither skipped nor repeated.',
+        operationId: 'listMemories',
+        tags: ['Memory'],
+        parameters: [
+          {
+            name: 'limit',
+            in: 'query',
+            schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          },
+          {
+            name: 'sort',
+            in: 'query',
+            schema: { type: 'string', enum: ['created_at', 'activation', 'importance', 'last_accessed'], default: 'created_at' },
+          },
+          {
+            name: 'order',
+            in: 'query',
+            schema: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+          },
+          {
+            name: 'types',
+            in: 'query',
+            description: 'Comma-separated memory types, e.g. episodic,factual',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'cursor',
+            in: 'query',
+            description: 'Opaque next_cursor from the previous page. Must be used with the same sort and order.',
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'A page of memories',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ListMemoriesResponse' },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
     '/api/v1/memory/recall': {
+      parameters: [{ $ref: '#/components/parameters/MemoryInstance' }],
       post: {
         summary: 'Recall memories',
-        description: 'Search and retrieve relevant memories using semantic search.',
+        description: 'Search and retrieve relevant memories. Keyword (full-text) and embedding similarity matches are ranked by a weighted score of text relevance, semantic similarity, activation, importance and recency. Queries are plain text: any characters are accepted, "quoted phrases" match exactly and a trailing * matches a prefix (e.g. deploy*). On servers with encryption at rest, prefix terms match whole words only.',
         operationId: 'recallMemories',
         tags: ['Memory'],
         requestBody: {
@@ -38,6 +90,11 @@ const openApiSpec = {
                 query: 'user preferences',
                 limit: 5,
                 types: ['relational', 'factual'],
+                filters: {
+                  created_after: '2026-01-01T00:00:00Z',
+                  min_importance: 0.7,
+                  metadata: { channel: 'telegram', 'user.lang': { in: ['en', 'de'] } },
+                },
               },
             },
           },
@@ -58,9 +115,13 @@ const openApiSpec = {
       },
     },
     '/api/v1/memory/store': {
+      parameters: [
+        { $ref: '#/components/parameters/MemoryInstance' },
+        { $ref: '#/components/parameters/IdempotencyKey' },
+      ],
       post: {
         summary: 'Store a memory',
-        description: 'Store a new memory with optional type and importance.',
+        description: 'Store a new memory with optional type and importance. With dedupe, storing content that already exists (same type, ignoring case and punctuation) raises the existing memory\'s importance and returns its id instead of storing a copy.',
         operationId: 'storeMemory',
         tags: ['Memory'],
         requestBody: {
@@ -77,6 +138,14 @@ const openApiSpec = {
           },
         },
         responses: {
+          '200': {
+            description: 'Same content already stored (dedupe); id is the existing memory',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/StoreResponse' },
+              },
+            },
+          },
           '201': {
             description: 'Memory stored successfully',
             content: {
@@ -87,16 +156,117 @@ const openApiSpec = {
           },
           '400': { $ref: '#/components/responses/BadRequest' },
           '401': { $ref: '#/components/responses/Unauthorized' },
+          '403': { $ref: '#/components/responses/QuotaExceeded' },
+          '422': { $ref: '#/components/responses/IdempotencyKeyReused' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/store:batch': {
+      parameters: [
+        { $ref: '#/components/parameters/MemoryInstance' },
+        { $ref: '#/components/parameters/IdempotencyKey' },
+      ],
+      post: {
+        summary: 'Store memories in batch',
+        description: 'Store up to 100 memories in one request and one transaction. Each item is validated like a single store; invalid items get a per-item error and the valid ones are stored. Counts as a single request against the rate limit.',
+        operationId: 'storeMemoriesBatch',
+        tags: ['Memory'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/BatchStoreRequest' },
+              example: {
+                items: [
+                  { content: 'User prefers Python over JavaScript', type: 'relational', importance: 0.8 },
+                  { content: 'User lives in Berlin' },
+                ],
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'At least one memory stored; see per-item results',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/BatchStoreResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid batch, or no item was valid',
+            content: {
+              'application/json': {
+                schema: {
+                  oneOf: [
+                    { $ref: '#/components/schemas/ApiError' },
+                    { $ref: '#/components/schemas/BatchStoreResponse' },
+                  ],
+                },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '403': { $ref: '#/components/responses/QuotaExceeded' },
+          '422': { $ref: '#/components/responses/IdempotencyKeyReused' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/recall:batch': {
+      parameters: [{ $ref: '#/components/parameters/MemoryInstance' }],
+      post: {
+        summary: 'Recall memories in batch',
+        description: 'Run up to 100 recalls in one request and one transaction. Each query is validated like a single recall; invalid queries get a per-item error. Counts as a single request against the rate limit.',
+        operationId: 'recallMemoriesBatch',
+        tags: ['Memory'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/BatchRecallRequest' },
+              example: {
+                queries: [
+                  { query: 'user preferences', limit: 5 },
+                  { query: 'deadlines', types: ['episodic'] },
+                ],
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Per-query results, in request order',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/BatchRecallResponse' },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '401': { $ref: '#/components/responses/Unauthorized' },
           '429': { $ref: '#/components/responses/RateLimited' },
         },
       },
     },
     '/api/v1/memory/consolidate': {
+      parameters: [{ $ref: '#/components/parameters/MemoryInstance' }],
       post: {
         summary: 'Consolidate memories',
-        description: 'Apply memory consolidation (decay, forgetting, merging).',
+        description: 'Apply memory consolidation: remove memories past the retention policy, merge near-duplicate memories of the same type, then recompute activation from access history and forget memories unlikely to be retrieved any more. Pinned memories are exempt from retention, decay and forgetting. A snapshot is taken first, so a consolidation can be undone. With summarize, groups of related episodic memories are also summarized into a semantic memory linked to them (relation "summarizes"), and the episodes keep half their importance.',
         operationId: 'consolidateMemories',
         tags: ['Memory'],
+        requestBody: {
+          required: false,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ConsolidateRequest' },
+              example: { summarize: true },
+            },
+          },
+        },
         responses: {
           '200': {
             description: 'Consolidation complete',
@@ -106,125 +276,1425 @@ const openApiSpec = {
               },
             },
           },
-          '401': { $ref: '#/components/responses/Unauthorized' },
-          '429': { $ref: '#/components/responses/RateLimited' },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/encryption:rotate': {
+      parameters: [{ $ref: '#/components/parameters/MemoryInstance' }],
+      post: {
+        summary: 'Rotate the data key',
+        description: 'Re-encrypt the instance (memories and their history) under a fresh data key. Only available when the server encrypts memories at rest.',
+        operationId: 'rotateEncryptionKey',
+        tags: ['Memory'],
+        responses: {
+          '200': {
+            description: 'Data key rotated',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RotateKeyResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '409': {
+            description: 'Encryption at rest is not enabled',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ApiError' },
+              },
+            },
+          },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/stats': {
+      parameters: [{ $ref: '#/components/parameters/MemoryInstance' }],
+      get: {
+        summary: 'Get memory statistics',
+        description: 'Retrieve statistics about stored memories.',
+        operationId: 'getMemoryStats',
+        tags: ['Memory'],
+        responses: {
+          '200': {
+            description: 'Statistics retrieved',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/StatsResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/retention': {
+      parameters: [{ $ref: '#/components/parameters/MemoryInstance' }],
+      get: {
+        summary: 'Get retention policy',
+        description: 'Show the tier retention policy, the instance policy and the effective combination. Free tier keeps memories for 7 days; Pro and Enterprise keep them indefinitely. Policies are enforced during consolidation and by a daily job.',
+        operationId: 'getRetentionPolicy',
+        tags: ['Memory'],
+        responses: {
+          '200': {
+            description: 'Retention policies',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RetentionResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+      put: {
+        summary: 'Set instance retention policy',
+        description: 'Replace the retention policy of the instance. It can only tighten the tier policy: for each limit the stricter value applies.',
+        operationId: 'setRetentionPolicy',
+        tags: ['Memory'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/RetentionPolicy' },
+              example: {
+                max_count: 5000,
+                types: { episodic: { max_age_days: 30 } },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Policy saved',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RetentionResponse' },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+      delete: {
+        summary: 'Clear instance retention policy',
+        description: 'Remove the instance policy; only the tier policy applies afterwards.',
+        operationId: 'clearRetentionPolicy',
+        tags: ['Memory'],
+        responses: {
+          '200': {
+            description: 'Policy cleared',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RetentionResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/sync:pull': {
+      parameters: [
+        { $ref: '#/components/parameters/MemoryInstance' },
+        {
+          name: 'since',
+          in: 'query',
+          required: false,
+          schema: { type: 'integer', minimum: 0, default: 0 },
+          description: 'Cursor from the previous pull; 0 for everything',
+        },
+        {
+          name: 'limit',
+          in: 'query',
+          required: false,
+          schema: { type: 'integer', minimum: 1, maximum: 500, default: 100 },
+        },
+      ],
+      get: {
+        summary: 'Pull changes',
+        description: 'List memories and deletions (tombstones) changed after a cursor, oldest first. Replicas pull until has_more is false and keep the returned cursor for the next pull. A pulled change replaces the local copy unless the replica holds an unpushed write that wins over it.',
+        operationId: 'pullMemoryChanges',
+        tags: ['Sync'],
+        responses: {
+          '200': {
+            description: 'Changes listed',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SyncPullResponse' },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/sync:push': {
+      parameters: [{ $ref: '#/components/parameters/MemoryInstance' }],
+      post: {
+        summary: 'Push changes',
+        description: 'Apply a replica\'s local writes. Replicas bump the version of the write they build on. Competing writes of a memory resolve last-writer-wins: the greatest (version, updated_at, origin) wins, and deletions compete as tombstones. Writes that lose are reported stale with the winning version; the next pull delivers it.',
+        operationId: 'pushMemoryChanges',
+        tags: ['Sync'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/SyncPushRequest' },
+              example: {
+                origin: 'claude-desktop',
+                changes: [
+                  {
+                    id: '3f2b8c1e-1d7a-4c55-9a0e-2b6f1c9d4e21',
+                    version: 3,
+                    updated_at: '2026-01-01T12:00:00.000Z',
+                    memory: {
+                      content: 'User prefers Rust',
+                      type: 'relational',
+                      importance: 0.8,
+                      pinned: false,
+                      created_at: '2026-01-01T09:00:00.000Z',
+                    },
+                  },
+                  { id: '9d1e0c55-6a4b-4f0e-8c3a-7b2d5e9f1a33', version: 2, updated_at: '2026-01-01T12:01:00.000Z', deleted: true },
+                ],
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Changes applied or reported stale',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SyncPushResponse' },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '403': { $ref: '#/components/responses/QuotaExceeded' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/events': {
+      parameters: [
+        { $ref: '#/components/parameters/MemoryInstance' },
+        {
+          name: 'Last-Event-ID',
+          in: 'header',
+          required: false,
+          schema: { type: 'integer', minimum: 0 },
+          description: 'Resume after this event id (sent automatically by EventSource on reconnect)',
+        },
+        {
+          name: 'last_event_id',
+          in: 'query',
+          required: false,
+          schema: { type: 'integer', minimum: 0 },
+          description: 'Same as Last-Event-ID, for the first connection',
+        },
+      ],
+      get: {
+        summary: 'Stream memory events',
+        description: 'Server-Sent Events stream of changes to the instance: stored, updated, recalled, forgotten and merged. Each SSE event is named after its type and carries a MemoryEvent as data. Without a resume id the stream starts with the next change; with one it first replays the logged events after it (the last 10000 events are kept). Streams close after 5 minutes and clients reconnect. Connecting is refused over the rate limit, but streams are not logged as usage; at most 5 streams per user can be open at once.',
+        operationId: 'streamMemoryEvents',
+        tags: ['Memory'],
+        responses: {
+          '200': {
+            description: 'Event stream',
+            content: {
+              'text/event-stream': {
+                schema: { type: 'string' },
+                example: 'id: 42\nevent: stored\ndata: {"id":42,"type":"stored","memory_ids":["..."],"created_at":"2026-01-01T00:00:00.000Z"}\n\n',
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/export': {
+      parameters: [{ $ref: '#/components/parameters/MemoryInstance' }],
+      get: {
+        summary: 'Export memories',
+        description: 'Stream all memories of the instance as a BotCore memory archive: newline-delimited JSON with a manifest record first, then one record per memory, then one record per link between memories, then one record per memory revision.',
+        operationId: 'exportMemories',
+        tags: ['Portability'],
+        responses: {
+          '200': {
+            description: 'Archive stream',
+            content: {
+              'application/x-ndjson': {
+                schema: { type: 'string' },
+                example: '{"kind":"manifest","format":"botcore-memory","format_version":3,"schema_version":7,"exported_at":"2026-01-01T00:00:00.000Z","instance":"default","counts":{"memories":1,"links":0,"revisions":1}}\n{"kind":"memory","data":{"id":"...","content":"User prefers Python","type":"relational","importance":0.8,"activation":1,"created_at":"2026-01-01T00:00:00.000Z"}}\n',
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/import': {
+      parameters: [{ $ref: '#/components/parameters/MemoryInstance' }],
+      post: {
+        summary: 'Import memories',
+        description: 'Import a BotCore memory archive produced by export. The import is all-or-nothing: an archive with any invalid record is rejected unless dry_run is set, in which case the validation report is returned. A snapshot is taken before anything is written.',
+        operationId: 'importMemories',
+        tags: ['Portability'],
+        parameters: [
+          {
+            name: 'mode',
+            in: 'query',
+            schema: { type: 'string', enum: ['merge', 'replace'], default: 'merge' },
+            description: 'merge adds to existing memories; replace deletes them first',
+          },
+          {
+            name: 'on_conflict',
+            in: 'query',
+            schema: { type: 'string', enum: ['skip', 'overwrite', 'new_id'], default: 'skip' },
+            description: 'How to handle ids that already exist (merge mode)',
+          },
+          {
+            name: 'dry_run',
+            in: 'query',
+            schema: { type: 'boolean', default: false },
+            description: 'Validate and report what would happen without writing',
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/x-ndjson': {
+              schema: { type: 'string' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Dry run report',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ImportResponse' },
+              },
+            },
+          },
+          '201': {
+            description: 'Archive imported',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ImportResponse' },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '403': { $ref: '#/components/responses/QuotaExceeded' },
+          '413': {
+            description: 'Archive too large',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ApiError' },
+              },
+            },
+          },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/snapshots': {
+      parameters: [{ $ref: '#/components/parameters/MemoryInstance' }],
+      get: {
+        summary: 'List snapshots',
+        description: 'Snapshots of the instance, newest first. Besides manual ones, a snapshot is taken daily and before every consolidate, import and restore; those are kept for 7 days (the newest of each day for daily ones, at most 10 of the others). Snapshots of any kind older than the retention horizon (7 days on Free) are removed. Manual snapshots count toward the storage quota; automatic ones do not.',
+        operationId: 'listSnapshots',
+        tags: ['Snapshots'],
+        responses: {
+          '200': {
+            description: 'Snapshots',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SnapshotListResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+      post: {
+        summary: 'Take a snapshot',
+        description: 'Copy the instance as it is now. Manual snapshots are kept until deleted or past the retention horizon (7 days on Free), up to 10 per instance. A manual snapshot takes about as much storage quota as the instance itself.',
+        operationId: 'createSnapshot',
+        tags: ['Snapshots'],
+        responses: {
+          '201': {
+            description: 'Snapshot taken',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Snapshot' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '403': {
+            description: 'Manual snapshot limit reached (LIMIT_EXCEEDED) or storage quota exceeded (QUOTA_EXCEEDED)',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ApiError' },
+              },
+            },
+          },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/snapshots/{id}': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'string' },
+          description: 'Snapshot ID',
+        },
+        { $ref: '#/components/parameters/MemoryInstance' },
+      ],
+      delete: {
+        summary: 'Delete a snapshot',
+        operationId: 'deleteSnapshot',
+        tags: ['Snapshots'],
+        responses: {
+          '200': {
+            description: 'Snapshot deleted',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/DeleteResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/snapshots/{id}/restore': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'string' },
+          description: 'Snapshot ID',
+        },
+        { $ref: '#/components/parameters/MemoryInstance' },
+      ],
+      post: {
+        summary: 'Restore a snapshot',
+        description: 'Put the instance back into the state of the snapshot. The state it replaces is snapshotted first (returned as backup), so restoring that undoes the restore. Sync replicas pull every restored memory as a change and a tombstone for each memory the restore removed.',
+        operationId: 'restoreSnapshot',
+        tags: ['Snapshots'],
+        responses: {
+          '200': {
+            description: 'Snapshot restored',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RestoreSnapshotResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/{id}': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'string', format: 'uuid' },
+          description: 'Memory ID returned by store',
+        },
+        { $ref: '#/components/parameters/MemoryInstance' },
+      ],
+      get: {
+        summary: 'Get a memory',
+        description: 'Retrieve a single memory by ID. Does not count as a recall.',
+        operationId: 'getMemory',
+        tags: ['Memory'],
+        responses: {
+          '200': {
+            description: 'Memory found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Memory' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+      patch: {
+        summary: 'Update a memory',
+        description: 'Correct the content, type, importance or metadata of a memory. Metadata is replaced as a whole; send null to clear it.',
+        operationId: 'updateMemory',
+        tags: ['Memory'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/UpdateMemoryRequest' },
+              example: {
+                content: 'User prefers TypeScript with strict mode',
+                importance: 0.9,
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Memory updated',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Memory' },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '403': { $ref: '#/components/responses/QuotaExceeded' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+      delete: {
+        summary: 'Delete a memory',
+        description: 'Permanently remove a memory, along with its links.',
+        operationId: 'deleteMemory',
+        tags: ['Memory'],
+        responses: {
+          '200': {
+            description: 'Memory deleted',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/DeleteResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/{id}/links': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'string', format: 'uuid' },
+          description: 'Memory ID returned by store',
+        },
+        { $ref: '#/components/parameters/MemoryInstance' },
+      ],
+      get: {
+        summary: 'List links of a memory',
+        description: 'List the links from and to a memory.',
+        operationId: 'listMemoryLinks',
+        tags: ['Memory'],
+        responses: {
+          '200': {
+            description: 'Links listed',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/LinkListResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+      post: {
+        summary: 'Link memories',
+        description: 'Create a labelled, weighted link from this memory to another one. Recall with expand_hops follows links in both directions.',
+        operationId: 'createMemoryLink',
+        tags: ['Memory'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/CreateLinkRequest' },
+              example: {
+                target_id: '3f2b8c1e-1d7a-4c55-9a0e-2b6f1c9d4e21',
+                relation: 'works_with',
+                weight: 0.8,
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Link created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MemoryLink' },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '409': {
+            description: 'The same link already exists',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ApiError' },
+              },
+            },
+          },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/{id}/history': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'string', format: 'uuid' },
+          description: 'Memory ID returned by store',
+        },
+        { $ref: '#/components/parameters/MemoryInstance' },
+      ],
+      get: {
+        summary: 'Get memory history',
+        description: 'List the revisions of a memory, oldest first. Each change to content, type, importance or metadata (by an update, a consolidation merge or a restore) appends a revision recording the new state, the API key that made it and why.',
+        operationId: 'getMemoryHistory',
+        tags: ['Memory'],
+        responses: {
+          '200': {
+            description: 'History listed',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MemoryHistoryResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/{id}/restore': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'string', format: 'uuid' },
+          description: 'Memory ID returned by store',
+        },
+        { $ref: '#/components/parameters/MemoryInstance' },
+      ],
+      post: {
+        summary: 'Restore a revision',
+        description: 'Roll a memory back to the content, type, importance and metadata of an earlier revision. The rollback is recorded as a new revision; history is never rewritten.',
+        operationId: 'restoreMemoryRevision',
+        tags: ['Memory'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/RestoreRevisionRequest' },
+              example: { revision: 2, reason: 'Undo bad merge' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Memory restored',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Memory' },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '403': { $ref: '#/components/responses/QuotaExceeded' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/memory/{id}/links/{linkId}': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'string', format: 'uuid' },
+          description: 'Memory ID at either end of the link',
+        },
+        {
+          name: 'linkId',
+          in: 'path',
+          required: true,
+          schema: { type: 'string', format: 'uuid' },
+        },
+        { $ref: '#/components/parameters/MemoryInstance' },
+      ],
+      delete: {
+        summary: 'Remove a link',
+        description: 'Remove a link between two memories. The memories themselves are kept.',
+        operationId: 'deleteMemoryLink',
+        tags: ['Memory'],
+        responses: {
+          '200': {
+            description: 'Link removed',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/DeleteResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/instances': {
+      get: {
+        summary: 'List memory instances',
+        description: 'List the named memory instances of the account, plus the tier limit.',
+        operationId: 'listInstances',
+        tags: ['Instances'],
+        responses: {
+          '200': {
+            description: 'Instances listed',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/InstanceListResponse' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+      post: {
+        summary: 'Create a memory instance',
+        description: 'Create an isolated, named memory (e.g. one per bot). Select it with the X-Memory-Instance header.',
+        operationId: 'createInstance',
+        tags: ['Instances'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/CreateInstanceRequest' },
+              example: { name: 'support-bot' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Instance created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MemoryInstance' },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '403': {
+            description: 'Instance limit for the tier reached',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ApiError' },
+              },
+            },
+          },
+          '409': {
+            description: 'An instance with this name already exists',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ApiError' },
+              },
+            },
+          },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/v1/instances/{name}': {
+      parameters: [
+        {
+          name: 'name',
+          in: 'path',
+          required: true,
+          schema: { type: 'string', pattern: '^[a-z0-9][a-z0-9_-]{0,62}$' },
+        },
+      ],
+      get: {
+        summary: 'Get a memory instance',
+        operationId: 'getInstance',
+        tags: ['Instances'],
+        responses: {
+          '200': {
+            description: 'Instance found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MemoryInstance' },
+              },
+            },
+          },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+      delete: {
+        summary: 'Delete a memory instance',
+        description: 'Delete a named instance and all of its memories. The default instance cannot be deleted.',
+        operationId: 'deleteInstance',
+        tags: ['Instances'],
+        responses: {
+          '200': {
+            description: 'Instance deleted',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/DeleteResponse' },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/BadRequest' },
+          '401': { $ref: '#/components/responses/Unauthorized' },
+          '404': { $ref: '#/components/responses/NotFound' },
+          '429': { $ref: '#/components/responses/RateLimited' },
+        },
+      },
+    },
+    '/api/health': {
+      get: {
+        summary: 'Health check',
+        description: 'Check API health status.',
+        operationId: 'healthCheck',
+        tags: ['System'],
+        security: [],
+        responses: {
+          '200': {
+            description: 'Service is healthy',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    status: { type: 'string', example: 'ok' },
+                    version: { type: 'string', example: '0.1.0' },
+                    timestamp: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'API key in format: Bearer bcb_xxxxx',
+      },
+    },
+    parameters: {
+      MemoryInstance: {
+        name: 'X-Memory-Instance',
+        in: 'header',
+        required: false,
+        schema: { type: 'string', default: 'default' },
+        description: 'Name of the memory instance to operate on',
+      },
+      IdempotencyKey: {
+        name: 'Idempotency-Key',
+        in: 'header',
+        required: false,
+        schema: { type: 'string', minLength: 1, maxLength: 255 },
+        description: 'Unique key for this request (e.g. a UUID). Retrying with the same key and body within 24 hours returns the original results with an Idempotent-Replayed: true header instead of storing again.',
+      },
+    },
+    schemas: {
+      Memory: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          content: { type: 'string' },
+          type: { $ref: '#/components/schemas/MemoryType' },
+          importance: { type: 'number', minimum: 0, maximum: 1 },
+          activation: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1,
+            description: 'Chance of retrieval given how often and how recently the memory was stored or recalled (ACT-R base-level activation). Recall uses the value as of now; the stored value is refreshed on recall and consolidation.',
+          },
+          created_at: { type: 'string', format: 'date-time' },
+          last_accessed: { type: 'string', format: 'date-time', nullable: true },
+          metadata: { type: 'object', additionalProperties: true },
+          pinned: {
+            type: 'boolean',
+            description: 'Pinned memories never decay and are never forgotten, merged away or expired by retention',
+          },
+          version: { type: 'integer', minimum: 1, description: 'Bumped on every change to content, type, importance, metadata or pinned' },
+          origin: { type: 'string', description: 'API key id or sync origin that made the latest change, or "system"' },
+          updated_at: { type: 'string', format: 'date-time' },
+        },
+        required: ['id', 'content', 'type', 'importance', 'activation', 'created_at', 'pinned', 'version', 'origin', 'updated_at'],
+      },
+      MemoryType: {
+        type: 'string',
+        enum: ['factual', 'relational', 'procedural', 'episodic', 'semantic'],
+      },
+      RecallRequest: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Search query' },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+          types: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/MemoryType' },
+          },
+          weights: { $ref: '#/components/schemas/RecallWeights' },
+          expand_hops: {
+            type: 'integer',
+            minimum: 0,
+            maximum: 2,
+            default: 0,
+            description: 'Also return memories linked to the results, up to this many links away, in "related"',
+          },
+          filters: { $ref: '#/components/schemas/RecallFilters' },
+          explain: {
+            type: 'boolean',
+            default: false,
+            description: 'Attach a score breakdown to each result and describe how the query was parsed and searched, in "explain"',
+          },
+        },
+        required: ['query'],
+      },
+      RecallFilters: {
+        type: 'object',
+        description: 'Restrict recall to memories matching all given conditions. Applies to direct results, not to "related" memories.',
+        properties: {
+          created_after: { type: 'string', format: 'date-time', description: 'Inclusive lower bound on created_at' },
+          created_before: { type: 'string', format: 'date-time', description: 'Exclusive upper bound on created_at' },
+          min_importance: { type: 'number', minimum: 0, maximum: 1 },
+          metadata: {
+            type: 'object',
+            description: 'Keys are dot-separated metadata paths (e.g. "channel", "user.lang"). Values match by equality (null matches a missing or null value), or by membership with { "in": [...] } (up to 50 values).',
+            additionalProperties: {
+              oneOf: [
+                { type: 'string' },
+                { type: 'number' },
+                { type: 'boolean' },
+                { type: 'null' },
+                {
+                  type: 'object',
+                  properties: {
+                    in: {
+                      type: 'array',
+                      minItems: 1,
+                      maxItems: 50,
+                      items: { oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }] },
+                    },
+                  },
+                  required: ['in'],
+                  additionalProperties: false,
+                },
+              ],
+            },
+          },
+        },
+        additionalProperties: false,
+      },
+      RecallWeights: {
+        type: 'object',
+        description: 'Per-request ranking weights. Omitted weights use the server defaults (text 0.4, semantic 0.3, activation 0.1, importance 0.1, recency 0.1).',
+        properties: {
+          text: { type: 'number', minimum: 0 },
+          semantic: { type: 'number', minimum: 0 },
+          activation: { type: 'number', minimum: 0 },
+          importance: { type: 'number', minimum: 0 },
+          recency: { type: 'number', minimum: 0 },
+        },
+        additionalProperties: false,
+      },
+      RecallResponse: {
+        type: 'object',
+        properties: {
+          results: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/RecalledMemory' },
+          },
+          related: {
+            type: 'array',
+            description: 'Memories reached from the results via links, strongest first (only with expand_hops)',
+            items: { $ref: '#/components/schemas/RelatedMemory' },
+          },
+          explain: { $ref: '#/components/schemas/RecallExplanation' },
+          took_ms: { type: 'integer', description: 'Query time in milliseconds' },
+        },
+        required: ['results', 'took_ms'],
+      },
+      RecalledMemory: {
+        allOf: [
+          { $ref: '#/components/schemas/Memory' },
+          {
+            type: 'object',
+            properties: {
+              explanation: { $ref: '#/components/schemas/ScoreExplanation' },
+            },
+          },
+        ],
+      },
+      ScoreExplanation: {
+        type: 'object',
+        description: 'Why a memory ranked where it did (only with explain)',
+        properties: {
+          score: { type: 'number', description: 'Weighted sum of the components' },
+          components: {
+            type: 'object',
+            description: 'Normalized (0-1) components before weighting. Activation is the value ranked by, before this recall counted as an access.',
+            properties: {
+              text: { type: 'number' },
+              semantic: { type: 'number' },
+              activation: { type: 'number' },
+              importance: { type: 'number' },
+              recency: { type: 'number' },
+            },
+          },
+          matched_by: {
+            type: 'array',
+            items: { type: 'string', enum: ['keyword', 'vector'] },
+          },
+          bm25: { type: 'number', nullable: true, description: 'Raw bm25() of the full-text match (lower is better)' },
+          similarity: { type: 'number', nullable: true, description: 'Cosine similarity to the query embedding' },
+        },
+        required: ['score', 'components', 'matched_by', 'bm25', 'similarity'],
+      },
+      RecallExplanation: {
+        type: 'object',
+        description: 'How the query ran (only with explain)',
+        properties: {
+          parsed_query: {
+            type: 'object',
+            properties: {
+              terms: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    text: { type: 'string' },
+                    phrase: { type: 'boolean' },
+                    prefix: { type: 'boolean' },
+                  },
+                },
+              },
+              match: {
+                type: 'string',
+                nullable: true,
+                description: 'FTS5 MATCH expression built from the terms. With encryption at rest the index is searched with keyed hashes of these terms.',
+              },
+            },
+          },
+          keyword_search: {
+            type: 'string',
+            enum: ['fts', 'like', 'none'],
+            description: 'fts: full-text index; like: substring scan while the index is empty; none: no searchable words in the query',
+          },
+          vector_search: { type: 'string', nullable: true, description: 'Embedding model searched; null if vector search did not run' },
+          weights: { $ref: '#/components/schemas/RecallWeights' },
+          candidates: {
+            type: 'object',
+            properties: {
+              keyword: { type: 'integer' },
+              vector: { type: 'integer' },
+              total: { type: 'integer', description: 'Distinct memories ranked' },
+            },
+          },
+        },
+        required: ['parsed_query', 'keyword_search', 'vector_search', 'weights', 'candidates'],
+      },
+      RelatedMemory: {
+        allOf: [
+          { $ref: '#/components/schemas/Memory' },
+          {
+            type: 'object',
+            properties: {
+              spread: { type: 'number', description: 'Spreading activation that reached this memory (0-1)' },
+              hops: { type: 'integer' },
+              via: {
+                type: 'object',
+                properties: {
+                  link_id: { type: 'string', format: 'uuid' },
+                  from: { type: 'string', format: 'uuid', description: 'Memory the activation spread from' },
+                  relation: { type: 'string' },
+                },
+              },
+            },
+            required: ['spread', 'hops', 'via'],
+          },
+        ],
+      },
+      MemoryLink: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          source_id: { type: 'string', format: 'uuid' },
+          target_id: { type: 'string', format: 'uuid' },
+          relation: { type: 'string' },
+          weight: { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+          created_at: { type: 'string', format: 'date-time' },
+        },
+        required: ['id', 'source_id', 'target_id', 'relation', 'weight', 'created_at'],
+      },
+      CreateLinkRequest: {
+        type: 'object',
+        properties: {
+          target_id: { type: 'string', format: 'uuid' },
+          relation: { type: 'string', maxLength: 64, description: 'Label, e.g. "works_with" or "caused_by"' },
+          weight: { type: 'number', exclusiveMinimum: 0, maximum: 1, default: 1 },
+        },
+        required: ['target_id', 'relation'],
+      },
+      LinkListResponse: {
+        type: 'object',
+        properties: {
+          links: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/MemoryLink' },
+          },
+        },
+        required: ['links'],
+      },
+      ListMemoriesResponse: {
+        type: 'object',
+        properties: {
+          memories: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/Memory' },
+          },
+          next_cursor: {
+            type: 'string',
+            nullable: true,
+            description: 'Cursor for the next page; null on the last page',
+          },
+        },
+        required: ['memories', 'next_cursor'],
+      },
+      StoreRequest: {
+        type: 'object',
+        properties: {
+          content: { type: 'string', maxLength: 10000 },
+          type: { $ref: '#/components/schemas/MemoryType' },
+          importance: { type: 'number', minimum: 0, maximum: 1, default: 0.5 },
+          metadata: { type: 'object', additionalProperties: true },
+          pinned: { type: 'boolean', default: false },
+          dedupe: {
+            type: 'boolean',
+            default: false,
+            description: 'If a memory of the same type with the same content (ignoring case and punctuation) exists, raise its importance and return it instead of storing a copy',
+          },
+        },
+        required: ['content'],
+      },
+      StoreResponse: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          success: { type: 'boolean' },
+          deduplicated: { type: 'boolean', description: 'The content was already stored; id is the existing memory' },
+        },
+        required: ['id', 'success', 'deduplicated'],
+      },
+      BatchStoreRequest: {
+        type: 'object',
+        properties: {
+          items: {
+            type: 'array',
+            minItems: 1,
+            maxItems: 100,
+            items: { $ref: '#/components/schemas/StoreRequest' },
+          },
+        },
+        required: ['items'],
+      },
+      BatchStoreResponse: {
+        type: 'object',
+        properties: {
+          results: {
+            type: 'array',
+            description: 'One entry per item, in request order',
+            items: {
+              oneOf: [
+                { $ref: '#/components/schemas/StoreResponse' },
+                { $ref: '#/components/schemas/BatchItemError' },
+              ],
+            },
+          },
+          stored: { type: 'integer' },
+          failed: { type: 'integer' },
         },
+        required: ['results', 'stored', 'failed'],
       },
-    },
-    '/api/v1/memory/stats': {
-      get: {
-        summary: 'Get memory statistics',
-        description: 'Retrieve statistics about stored memories.',
-        operationId: 'getMemoryStats',
-        tags: ['Memory'],
-        responses: {
-          '200': {
-            description: 'Statistics retrieved',
-            content: {
-              'application/json': {
-                schema: { $ref: '#/components/schemas/StatsResponse' },
-              },
-            },
+      BatchRecallRequest: {
+        type: 'object',
+        properties: {
+          queries: {
+            type: 'array',
+            minItems: 1,
+            maxItems: 100,
+            items: { $ref: '#/components/schemas/RecallRequest' },
           },
-          '401': { $ref: '#/components/responses/Unauthorized' },
-          '429': { $ref: '#/components/responses/RateLimited' },
         },
+        required: ['queries'],
       },
-    },
-    '/api/health': {
-      get: {
-        summary: 'Health check',
-        description: 'Check API health status.',
-        operationId: 'healthCheck',
-        tags: ['System'],
-        security: [],
-        responses: {
-          '200': {
-            description: 'Service is healthy',
-            content: {
-              'application/json': {
-                schema: {
+      BatchRecallResponse: {
+        type: 'object',
+        properties: {
+          results: {
+            type: 'array',
+            description: 'One entry per query, in request order',
+            items: {
+              oneOf: [
+                {
                   type: 'object',
                   properties: {
-                    status: { type: 'string', example: 'ok' },
-                    version: { type: 'string', example: '0.1.0' },
-                    timestamp: { type: 'string', format: 'date-time' },
+                    success: { type: 'boolean', enum: [true] },
+                    results: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/RecalledMemory' },
+                    },
+                    related: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/RelatedMemory' },
+                    },
+                    explain: { $ref: '#/components/schemas/RecallExplanation' },
                   },
+                  required: ['success', 'results'],
                 },
-              },
+                { $ref: '#/components/schemas/BatchItemError' },
+              ],
             },
           },
+          took_ms: { type: 'integer', description: 'Query time in milliseconds' },
         },
+        required: ['results', 'took_ms'],
       },
-    },
-  },
-  components: {
-    securitySchemes: {
-      bearerAuth: {
-        type: 'http',
-        scheme: 'bearer',
-        description: 'API key in format: Bearer bcb_xxxxx',
+      BatchItemError: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean', enum: [false] },
+          error: { type: 'string' },
+          code: { type: 'string' },
+        },
+        required: ['success', 'error', 'code'],
       },
-    },
-    schemas: {
-      Memory: {
+      UpdateMemoryRequest: {
+        type: 'object',
+        properties: {
+          content: { type: 'string', maxLength: 10000 },
+          type: { $ref: '#/components/schemas/MemoryType' },
+          importance: { type: 'number', minimum: 0, maximum: 1 },
+          metadata: { type: 'object', additionalProperties: true, nullable: true },
+          pinned: { type: 'boolean' },
+          reason: {
+            type: 'string',
+            maxLength: 200,
+            default: 'updated',
+            description: 'Recorded on the revision this change creates',
+          },
+        },
+        minProperties: 1,
+      },
+      MemoryRevision: {
         type: 'object',
         properties: {
           id: { type: 'string', format: 'uuid' },
+          memory_id: { type: 'string', format: 'uuid' },
+          revision: { type: 'integer', minimum: 1 },
           content: { type: 'string' },
           type: { $ref: '#/components/schemas/MemoryType' },
           importance: { type: 'number', minimum: 0, maximum: 1 },
-          activation: { type: 'number', minimum: 0, maximum: 1 },
+          metadata: { type: 'object', additionalProperties: true },
+          actor: { type: 'string', description: 'ID of the API key that made the change, or "system"' },
+          reason: { type: 'string', example: 'updated' },
           created_at: { type: 'string', format: 'date-time' },
-          last_accessed: { type: 'string', format: 'date-time', nullable: true },
+        },
+        required: ['id', 'memory_id', 'revision', 'content', 'type', 'importance', 'actor', 'reason', 'created_at'],
+      },
+      MemoryHistoryResponse: {
+        type: 'object',
+        properties: {
+          memory_id: { type: 'string', format: 'uuid' },
+          revisions: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/MemoryRevision' },
+          },
+        },
+        required: ['memory_id', 'revisions'],
+      },
+      RestoreRevisionRequest: {
+        type: 'object',
+        properties: {
+          revision: { type: 'integer', minimum: 1 },
+          reason: { type: 'string', maxLength: 200, default: 'restored revision <n>' },
+        },
+        required: ['revision'],
+      },
+      SyncMemoryData: {
+        type: 'object',
+        properties: {
+          content: { type: 'string', maxLength: 10000 },
+          type: { $ref: '#/components/schemas/MemoryType' },
+          importance: { type: 'number', minimum: 0, maximum: 1 },
           metadata: { type: 'object', additionalProperties: true },
+          pinned: { type: 'boolean' },
+          created_at: { type: 'string', format: 'date-time' },
         },
-        required: ['id', 'content', 'type', 'importance', 'activation', 'created_at'],
+        required: ['content', 'type', 'importance', 'pinned', 'created_at'],
       },
-      MemoryType: {
-        type: 'string',
-        enum: ['factual', 'relational', 'procedural', 'episodic', 'semantic'],
+      SyncChange: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          seq: { type: 'integer', description: 'Server change sequence' },
+          version: { type: 'integer', minimum: 1 },
+          updated_at: { type: 'string', format: 'date-time' },
+          origin: { type: 'string' },
+          deleted: { type: 'boolean' },
+          memory: { $ref: '#/components/schemas/SyncMemoryData' },
+        },
+        required: ['id', 'seq', 'version', 'updated_at', 'origin', 'deleted'],
       },
-      RecallRequest: {
+      SyncPullResponse: {
         type: 'object',
         properties: {
-          query: { type: 'string', description: 'Search query' },
-          limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
-          types: {
+          changes: {
             type: 'array',
-            items: { $ref: '#/components/schemas/MemoryType' },
+            items: { $ref: '#/components/schemas/SyncChange' },
           },
+          cursor: { type: 'integer', description: 'Pass as ?since= on the next pull' },
+          has_more: { type: 'boolean' },
         },
-        required: ['query'],
+        required: ['changes', 'cursor', 'has_more'],
       },
-      RecallResponse: {
+      SyncPushRequest: {
+        type: 'object',
+        properties: {
+          origin: { type: 'string', pattern: '^[A-Za-z0-9._:-]{1,64}$', description: 'Replica the changes come from' },
+          changes: {
+            type: 'array',
+            minItems: 1,
+            maxItems: 100,
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                version: { type: 'integer', minimum: 1 },
+                updated_at: { type: 'string', format: 'date-time', description: 'At most 5 minutes ahead of the server clock' },
+                deleted: { type: 'boolean', default: false },
+                memory: { $ref: '#/components/schemas/SyncMemoryData' },
+              },
+              required: ['id', 'version', 'updated_at'],
+            },
+          },
+        },
+        required: ['origin', 'changes'],
+      },
+      SyncPushResponse: {
         type: 'object',
         properties: {
           results: {
             type: 'array',
-            items: { $ref: '#/components/schemas/Memory' },
+            description: 'One per change, in request order, with the version the server now holds',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                status: { type: 'string', enum: ['applied', 'stale'] },
+                version: { type: 'integer' },
+                updated_at: { type: 'string', format: 'date-time' },
+                origin: { type: 'string' },
+                deleted: { type: 'boolean' },
+              },
+              required: ['id', 'status', 'version', 'updated_at', 'origin', 'deleted'],
+            },
           },
-          took_ms: { type: 'integer', description: 'Query time in milliseconds' },
+          applied: { type: 'integer' },
+          stale: { type: 'integer' },
         },
-        required: ['results', 'took_ms'],
+        required: ['results', 'applied', 'stale'],
       },
-      StoreRequest: {
+      MemoryEvent: {
         type: 'object',
         properties: {
-          content: { type: 'string', maxLength: 10000 },
-          type: { $ref: '#/components/schemas/MemoryType' },
-          importance: { type: 'number', minimum: 0, maximum: 1, default: 0.5 },
-          metadata: { type: 'object', additionalProperties: true },
+          id: { type: 'integer', description: 'Increases with every event of the instance' },
+          type: { type: 'string', enum: ['stored', 'updated', 'recalled', 'forgotten', 'merged'] },
+          memory_ids: { type: 'array', items: { type: 'string', format: 'uuid' } },
+          data: {
+            type: 'object',
+            additionalProperties: true,
+            description: 'forgotten: { reason: deleted | decayed | expired }; merged: { merged_from } with the survivor in memory_ids; updated: { fields }',
+          },
+          created_at: { type: 'string', format: 'date-time' },
         },
-        required: ['content'],
+        required: ['id', 'type', 'memory_ids', 'created_at'],
       },
-      StoreResponse: {
+      DeleteResponse: {
         type: 'object',
         properties: {
           id: { type: 'string', format: 'uuid' },
-          success: { type: 'boolean' },
+          deleted: { type: 'boolean' },
+        },
+        required: ['id', 'deleted'],
+      },
+      ConsolidateRequest: {
+        type: 'object',
+        properties: {
+          summarize: {
+            type: 'boolean',
+            default: false,
+            description: 'Summarize related episodic memories into semantic ones. Rejected when the server has no summarizer configured.',
+          },
         },
-        required: ['id', 'success'],
       },
       ConsolidateResponse: {
         type: 'object',
@@ -235,8 +1705,15 @@ const openApiSpec = {
             properties: {
               memories_before: { type: 'integer' },
               memories_after: { type: 'integer' },
-              merged: { type: 'integer' },
+              merged: {
+                type: 'integer',
+                description: 'Near-duplicate memories folded into the newest of them (listed in its metadata.merged_from), which takes their highest importance',
+              },
               forgotten: { type: 'integer' },
+              expired: { type: 'integer', description: 'Memories removed by the retention policy' },
+              summaries: { type: 'integer', description: 'Semantic summaries written' },
+              summarized: { type: 'integer', description: 'Episodic memories covered by those summaries' },
+              summaries_failed: { type: 'integer', description: 'Groups of episodes the summarizer failed on; they are retried on the next run' },
             },
           },
         },
@@ -253,8 +1730,215 @@ const openApiSpec = {
           oldest_memory: { type: 'string', format: 'date-time', nullable: true },
           newest_memory: { type: 'string', format: 'date-time', nullable: true },
           avg_importance: { type: 'number' },
+          pinned: { type: 'integer', description: 'Memories exempt from decay, forgetting and retention' },
+          retention: {
+            type: 'object',
+            description: 'What the effective retention policy would remove if enforced now',
+            properties: {
+              pending_removal: { type: 'integer' },
+              by_reason: {
+                type: 'object',
+                properties: {
+                  max_age: { type: 'integer' },
+                  max_count: { type: 'integer' },
+                },
+              },
+              next_expiry: {
+                type: 'string',
+                format: 'date-time',
+                nullable: true,
+                description: 'When the next memory that is kept now will exceed its max age',
+              },
+            },
+          },
+          encryption: { $ref: '#/components/schemas/EncryptionStatus' },
+          storage: { $ref: '#/components/schemas/StorageUsage' },
+        },
+        required: ['total_memories', 'by_type', 'avg_importance', 'pinned', 'retention', 'encryption', 'storage'],
+      },
+      StorageUsage: {
+        type: 'object',
+        properties: {
+          bytes: { type: 'integer', description: 'Bytes in use by the instance. Deleting memories frees space here right away.' },
+          file_bytes: { type: 'integer', description: 'Size of the instance files on disk' },
+          snapshot_bytes: { type: 'integer', description: 'Size of the instance manual snapshots; counted toward the quota along with bytes. Automatic snapshots are not counted.' },
+          rows: {
+            type: 'object',
+            properties: {
+              memories: { type: 'integer' },
+              revisions: { type: 'integer' },
+              links: { type: 'integer' },
+              events: { type: 'integer' },
+              tombstones: { type: 'integer' },
+            },
+          },
+          quota: {
+            type: 'object',
+            nullable: true,
+            description: 'Storage quota shared by all instances of the account (Free 100 MB, Pro 1 GB)',
+            properties: {
+              limit_bytes: { type: 'integer', nullable: true, description: 'null = unlimited' },
+              used_bytes: { type: 'integer', description: 'Bytes in use across all instances, manual snapshots included' },
+            },
+          },
+        },
+        required: ['bytes', 'file_bytes', 'snapshot_bytes', 'rows', 'quota'],
+      },
+      EncryptionStatus: {
+        type: 'object',
+        properties: {
+          enabled: { type: 'boolean', description: 'Whether memories are encrypted at rest' },
+          key_id: { type: 'string', nullable: true, description: 'Active data key' },
+          key_created_at: { type: 'string', format: 'date-time', nullable: true },
+        },
+        required: ['enabled', 'key_id', 'key_created_at'],
+      },
+      RotateKeyResponse: {
+        type: 'object',
+        properties: {
+          key_id: { type: 'string', description: 'New data key' },
+          reencrypted: {
+            type: 'object',
+            properties: {
+              memories: { type: 'integer' },
+              revisions: { type: 'integer' },
+            },
+          },
+          took_ms: { type: 'integer' },
+        },
+        required: ['key_id', 'reencrypted', 'took_ms'],
+      },
+      RetentionRule: {
+        type: 'object',
+        properties: {
+          max_age_days: { type: 'integer', minimum: 1, nullable: true, description: 'null = no age limit' },
+          max_count: { type: 'integer', minimum: 1, nullable: true, description: 'Keep at most this many (newest first); null = no limit' },
+        },
+      },
+      RetentionPolicy: {
+        allOf: [
+          { $ref: '#/components/schemas/RetentionRule' },
+          {
+            type: 'object',
+            properties: {
+              types: {
+                type: 'object',
+                description: 'Per-type rules; each field overrides the base rule for that type',
+                additionalProperties: { $ref: '#/components/schemas/RetentionRule' },
+              },
+            },
+          },
+        ],
+      },
+      RetentionResponse: {
+        type: 'object',
+        properties: {
+          tier: { $ref: '#/components/schemas/RetentionPolicy' },
+          instance: {
+            allOf: [{ $ref: '#/components/schemas/RetentionPolicy' }],
+            nullable: true,
+          },
+          effective: { $ref: '#/components/schemas/RetentionPolicy' },
+        },
+        required: ['tier', 'instance', 'effective'],
+      },
+      ImportResponse: {
+        type: 'object',
+        properties: {
+          dry_run: { type: 'boolean' },
+          mode: { type: 'string', enum: ['merge', 'replace'] },
+          on_conflict: { type: 'string', enum: ['skip', 'overwrite', 'new_id'] },
+          stats: {
+            type: 'object',
+            properties: {
+              total: { type: 'integer' },
+              imported: { type: 'integer' },
+              skipped: { type: 'integer' },
+              overwritten: { type: 'integer' },
+              renamed: { type: 'integer' },
+              removed: { type: 'integer', description: 'Existing memories deleted by replace mode' },
+              links_imported: { type: 'integer' },
+              links_skipped: { type: 'integer', description: 'Links whose memories are in neither the archive nor the instance, or that already exist' },
+              revisions_imported: { type: 'integer', description: 'Revisions written for imported memories, including a starting revision for memories the archive has no history for' },
+            },
+          },
+          errors: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                line: { type: 'integer' },
+                error: { type: 'string' },
+              },
+            },
+          },
+        },
+        required: ['dry_run', 'mode', 'on_conflict', 'stats', 'errors'],
+      },
+      Snapshot: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', example: '20260101T020000000Z-3fa2c1' },
+          reason: {
+            type: 'string',
+            enum: ['manual', 'scheduled', 'consolidate', 'import', 'restore'],
+            description: 'manual: taken on request; the others are taken automatically',
+          },
+          created_at: { type: 'string', format: 'date-time' },
+          memories: { type: 'integer', description: 'Memories in the instance when the snapshot was taken' },
+          schema_version: { type: 'integer' },
+          bytes: { type: 'integer' },
+        },
+        required: ['id', 'reason', 'created_at', 'memories', 'schema_version', 'bytes'],
+      },
+      SnapshotListResponse: {
+        type: 'object',
+        properties: {
+          snapshots: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/Snapshot' },
+          },
+        },
+        required: ['snapshots'],
+      },
+      RestoreSnapshotResponse: {
+        type: 'object',
+        properties: {
+          restored: { $ref: '#/components/schemas/Snapshot' },
+          backup: {
+            allOf: [{ $ref: '#/components/schemas/Snapshot' }],
+            description: 'Snapshot of the state the restore replaced',
+          },
+          took_ms: { type: 'integer' },
+        },
+        required: ['restored', 'backup', 'took_ms'],
+      },
+      MemoryInstance: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          name: { type: 'string' },
+          created_at: { type: 'string', format: 'date-time' },
+        },
+        required: ['id', 'name', 'created_at'],
+      },
+      CreateInstanceRequest: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', pattern: '^[a-z0-9][a-z0-9_-]{0,62}$' },
+        },
+        required: ['name'],
+      },
+      InstanceListResponse: {
+        type: 'object',
+        properties: {
+          instances: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/MemoryInstance' },
+          },
+          limit: { type: 'integer', nullable: true, description: 'Maximum instances for the tier (null = unlimited)' },
         },
-        required: ['total_memories', 'by_type', 'avg_importance'],
+        required: ['instances', 'limit'],
       },
       ApiError: {
         type: 'object',
@@ -285,6 +1969,37 @@ const openApiSpec = {
           },
         },
       },
+      NotFound: {
+        description: 'Resource not found',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/ApiError' },
+            example: { error: 'Memory "..." not found', code: 'NOT_FOUND' },
+          },
+        },
+      },
+      IdempotencyKeyReused: {
+        description: 'The Idempotency-Key was already used with a different request body',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/ApiError' },
+            example: { error: 'Idempotency-Key was already used for a different request', code: 'IDEMPOTENCY_KEY_REUSED' },
+          },
+        },
+      },
+      QuotaExceeded: {
+        description: 'Storage quota of the account exceeded. Delete memories or snapshots, or upgrade to store more.',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/ApiError' },
+            example: {
+              error: 'Storage quota exceeded for free tier',
+              code: 'QUOTA_EXCEEDED',
+              details: { tier: 'free', limit_bytes: 104857600, used_bytes: 104853504, requested_bytes: 5120 },
+            },
+          },
+        },
+      },
       RateLimited: {
         description: 'Rate limit exceeded',
         headers: {
@@ -313,7 +2028,23 @@ const openApiSpec = {
   tags: [
     {
       name: 'Memory',
-      description: 'Memory operations (recall, store, consolidate)',
+      description: 'Memory operations (recall, store, get, update, delete, consolidate)',
+    },
+    {
+      name: 'Instances',
+      description: 'Named, isolated memory instances (e.g. one per bot)',
+    },
+    {
+      name: 'Portability',
+      description: 'Export and import BotCore memory archives',
+    },
+    {
+      name: 'Snapshots',
+      description: 'Point-in-time copies of a memory instance to restore from',
+    },
+    {
+      name: 'Sync',
+      description: 'Keep replicas of a memory instance (e.g. several bots) in sync',
     },
     {
       name: 'System',
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { isValidInstanceName } from '@/lib/instance';
+import { deleteMemoryStorage } from '@/lib/memory';
+import { getMemoryInstance, deleteMemoryInstance, DEFAULT_INSTANCE_NAME } from '@/lib/supabase';
+import type { MemoryInstanceSummary, DeleteResponse, ApiError } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ name: string }>;
+}
+
+function notFound(name: string): NextResponse<ApiError> {
+  return NextResponse.json(
+    { error: `Memory instance "${name}" not found`, code: 'NOT_FOUND' },
+    { status: 404 }
+  );
+}
+
+async function getHandler(
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext
+): Promise<NextResponse<MemoryInstanceSummary | ApiError>> {
+  const { name } = await context.params;
+  
+  if (!isValidInstanceName(name)) {
+    return notFound(name);
+  }
+  
+  const instance = await getMemoryInstance(auth.userId, name);
+  
+  if (!instance) {
+    return notFound(name);
+  }
+  
+  return NextResponse.json({
+    id: instance.id,
+    name: instance.name,
+    created_at: instance.created_at
+  });
+}
+
+async function deleteHandler(
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext
+): Promise<NextResponse<DeleteResponse | ApiError>> {
+  const { name } = await context.params;
+  
+  if (name === DEFAULT_INSTANCE_NAME) {
+    return NextResponse.json(
+      { error: 'The default memory instance cannot be deleted', code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  if (!isValidInstanceName(name)) {
+    return notFound(name);
+  }
+  
+  const instance = await getMemoryInstance(auth.userId, name);
+  
+  if (!instance) {
+    return notFound(name);
+  }
+  
+  await deleteMemoryInstance(auth.userId, name);
+  deleteMemoryStorage(instance);
+  
+  return NextResponse.json({ id: instance.id, deleted: true });
+}
+
+export const GET = withAuth(getHandler);
+export const DELETE = withAuth(deleteHandler);
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { isValidInstanceName } from '@/lib/instance';
+import { listMemoryInstances, createMemoryInstance, DEFAULT_INSTANCE_NAME } from '@/lib/supabase';
+import type {
+  CreateInstanceRequest,
+  InstanceListResponse,
+  MemoryInstance,
+  MemoryInstanceSummary,
+  ApiError
+} from '@/lib/types';
+import { INSTANCE_LIMITS } from '@/lib/types';
+
+function toSummary(instance: MemoryInstance): MemoryInstanceSummary {
+  return {
+    id: instance.id,
+    name: instance.name,
+    created_at: instance.created_at
+  };
+}
+
+async function getHandler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<InstanceListResponse | ApiError>> {
+  const instances = await listMemoryInstances(auth.userId);
+  
+  return NextResponse.json({
+    instances: instances.map(toSummary),
+    limit: INSTANCE_LIMITS[auth.tier]
+  });
+}
+
+async function postHandler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<MemoryInstanceSummary | ApiError>> {
+  // Parse request body
+  let body: CreateInstanceRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body', code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+  
+  // Validate required fields
+  if (!body.name || typeof body.name !== 'string' || !isValidInstanceName(body.name)) {
+    return NextResponse.json(
+      { error: '"name" must be 1-63 lowercase letters, digits, "-" or "_"', code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  const instances = await listMemoryInstances(auth.userId);
+  
+  if (body.name === DEFAULT_INSTANCE_NAME || instances.some(i => i.name === body.name)) {
+    return NextResponse.json(
+      { error: `Memory instance "${body.name}" already exists`, code: 'CONFLICT' },
+      { status: 409 }
+    );
+  }
+  
+  // The default instance always exists, whether or not it has been created yet
+  const limit = INSTANCE_LIMITS[auth.tier];
+  const used = instances.some(i => i.name === DEFAULT_INSTANCE_NAME) ? instances.length : instances.length + 1;
+  if (limit !== null && used >= limit) {
+    return NextResponse.json(
+      {
+        error: `Memory instance limit reached for ${auth.tier} tier`,
+        code: 'LIMIT_EXCEEDED',
+        details: { limit, tier: auth.tier }
+      },
+      { status: 403 }
+    );
+  }
+  
+  const instance = await createMemoryInstance(auth.userId, body.name);
+  
+  if (!instance) {
+    return NextResponse.json(
+      { error: 'Failed to create memory instance', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+  
+  return NextResponse.json(toSummary(instance), { status: 201 });
+}
+
+export const GET = withAuth(getHandler);
+export const POST = withAuth(postHandler);
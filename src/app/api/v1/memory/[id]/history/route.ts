@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { resolveMemoryService } from '@/lib/instance';
+import type { MemoryHistoryResponse, ApiError } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handler(
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext
+): Promise<NextResponse<MemoryHistoryResponse | ApiError>> {
+  const { id } = await context.params;
+  
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const revisions = await memory.history(id);
+  
+  if (!revisions) {
+    return NextResponse.json(
+      { error: `Memory "${id}" not found`, code: 'NOT_FOUND' },
+      { status: 404 }
+    );
+  }
+  
+  return NextResponse.json({ memory_id: id, revisions });
+}
+
+export const GET = withAuth(handler);
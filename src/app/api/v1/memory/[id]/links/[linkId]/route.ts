@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { resolveMemoryService } from '@/lib/instance';
+import type { DeleteResponse, ApiError } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string; linkId: string }>;
+}
+
+async function deleteHandler(
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext
+): Promise<NextResponse<DeleteResponse | ApiError>> {
+  const { id, linkId } = await context.params;
+  
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const deleted = await memory.deleteLink(id, linkId);
+  
+  if (!deleted) {
+    return NextResponse.json(
+      { error: `Link "${linkId}" not found on memory "${id}"`, code: 'NOT_FOUND' },
+      { status: 404 }
+    );
+  }
+  
+  return NextResponse.json({ id: linkId, deleted: true });
+}
+
+export const DELETE = withAuth(deleteHandler);
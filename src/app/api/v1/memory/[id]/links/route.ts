@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { resolveMemoryService } from '@/lib/instance';
+import { validateCreateLinkRequest } from '@/lib/validation';
+import type { CreateLinkRequest, LinkListResponse, MemoryLink, ApiError } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string): NextResponse<ApiError> {
+  return NextResponse.json(
+    { error: `Memory "${id}" not found`, code: 'NOT_FOUND' },
+    { status: 404 }
+  );
+}
+
+async function getHandler(
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext
+): Promise<NextResponse<LinkListResponse | ApiError>> {
+  const { id } = await context.params;
+  
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  if (!await memory.get(id)) {
+    return notFound(id);
+  }
+  
+  const links = await memory.listLinks(id);
+  
+  return NextResponse.json({ links });
+}
+
+async function postHandler(
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext
+): Promise<NextResponse<MemoryLink | ApiError>> {
+  const { id } = await context.params;
+  
+  // Parse request body
+  let body: CreateLinkRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body', code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+  
+  const validationError = validateCreateLinkRequest(body);
+  if (validationError) {
+    return NextResponse.json(
+      { error: validationError, code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  if (body.target_id === id) {
+    return NextResponse.json(
+      { error: 'A memory cannot link to itself', code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  // Execute link
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  for (const memoryId of [id, body.target_id]) {
+    if (!await memory.get(memoryId)) {
+      return notFound(memoryId);
+    }
+  }
+  
+  const link = await memory.createLink(id, body.target_id, body.relation, body.weight);
+  
+  if (!link) {
+    return NextResponse.json(
+      { error: `Memory "${id}" is already linked to "${body.target_id}" as "${body.relation}"`, code: 'CONFLICT' },
+      { status: 409 }
+    );
+  }
+  
+  return NextResponse.json(link, { status: 201 });
+}
+
+export const GET = withAuth(getHandler);
+export const POST = withAuth(postHandler);
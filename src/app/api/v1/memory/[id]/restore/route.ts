@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { checkStorageQuota, resolveMemoryService } from '@/lib/instance';
+import { validateRestoreRequest } from '@/lib/validation';
+import type { Memory, RestoreRevisionRequest, ApiError } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string, revision: number): NextResponse<ApiError> {
+  return NextResponse.json(
+    { error: `Revision ${revision} of memory "${id}" not found`, code: 'NOT_FOUND' },
+    { status: 404 }
+  );
+}
+
+async function handler(
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext
+): Promise<NextResponse<Memory | ApiError>> {
+  const { id } = await context.params;
+  
+  // Parse request body
+  let body: RestoreRevisionRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body', code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+  
+  const validationError = validateRestoreRequest(body);
+  if (validationError) {
+    return NextResponse.json(
+      { error: validationError, code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  // Execute restore
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const target = await memory.getRevision(id, body.revision);
+  if (!target) {
+    return notFound(id, body.revision);
+  }
+  
+  // The revision's content comes back as a new version
+  const quotaError = await checkStorageQuota(auth, { content: target.content, metadata: target.metadata });
+  if (quotaError) {
+    return quotaError;
+  }
+  
+  const result = await memory.restore(id, body.revision, auth.keyId, body.reason);
+  if (!result) {
+    return notFound(id, body.revision);
+  }
+  
+  return NextResponse.json(result);
+}
+
+export const POST = withAuth(handler);
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { checkStorageQuota, resolveMemoryService } from '@/lib/instance';
+import { validateUpdateRequest } from '@/lib/validation';
+import type { Memory, UpdateMemoryRequest, DeleteResponse, ApiError } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string): NextResponse<ApiError> {
+  return NextResponse.json(
+    { error: `Memory "${id}" not found`, code: 'NOT_FOUND' },
+    { status: 404 }
+  );
+}
+
+async function getHandler(
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext
+): Promise<NextResponse<Memory | ApiError>> {
+  const { id } = await context.params;
+  
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const result = await memory.get(id);
+  
+  if (!result) {
+    return notFound(id);
+  }
+  
+  return NextResponse.json(result);
+}
+
+async function patchHandler(
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext
+): Promise<NextResponse<Memory | ApiError>> {
+  const { id } = await context.params;
+  
+  // Parse request body
+  let body: UpdateMemoryRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body', code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+  
+  const validationError = validateUpdateRequest(body);
+  if (validationError) {
+    return NextResponse.json(
+      { error: validationError, code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  // Execute update
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  // Updates can grow content and add a revision
+  const quotaError = await checkStorageQuota(auth, body);
+  if (quotaError) {
+    return quotaError;
+  }
+  
+  const { memory } = resolved;
+  const result = await memory.update(id, {
+    content: body.content,
+    type: body.type,
+    importance: body.importance,
+    metadata: body.metadata,
+    pinned: body.pinned,
+    reason: body.reason
+  }, auth.keyId);
+  
+  if (!result) {
+    return notFound(id);
+  }
+  
+  return NextResponse.json(result);
+}
+
+async function deleteHandler(
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext
+): Promise<NextResponse<DeleteResponse | ApiError>> {
+  const { id } = await context.params;
+  
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const deleted = await memory.delete(id, auth.keyId);
+  
+  if (!deleted) {
+    return notFound(id);
+  }
+  
+  return NextResponse.json({ id, deleted: true });
+}
+
+export const GET = withAuth(getHandler);
+export const PATCH = withAuth(patchHandler);
+export const DELETE = withAuth(deleteHandler);
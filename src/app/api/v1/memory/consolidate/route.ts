@@ -1,14 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, AuthContext } from '@/lib/auth';
-import { getMemoryService } from '@/lib/memory';
-import type { ConsolidateResponse, ApiError } from '@/lib/types';
+import { resolveMemoryService } from '@/lib/instance';
+import { getSummarizer } from '@/lib/summarizer';
+import { validateConsolidateRequest } from '@/lib/validation';
+import { RETENTION_POLICIES } from '@/lib/types';
+import type { ConsolidateRequest, ConsolidateResponse, ApiError } from '@/lib/types';
 
 async function handler(
   request: NextRequest,
   auth: AuthContext
 ): Promise<NextResponse<ConsolidateResponse | ApiError>> {
-  const memory = getMemoryService(auth.userId);
-  const result = await memory.consolidate();
+  // The body is optional
+  let body: ConsolidateRequest = {};
+  const text = await request.text();
+  if (text.trim()) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body', code: 'BAD_REQUEST' },
+        { status: 400 }
+      );
+    }
+  }
+  
+  const validationError = validateConsolidateRequest(body);
+  if (validationError) {
+    return NextResponse.json(
+      { error: validationError, code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  const summarizer = body.summarize ? getSummarizer() : null;
+  if (body.summarize && !summarizer) {
+    return NextResponse.json(
+      { error: 'Summarization is not enabled on this server', code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const result = await memory.consolidate(RETENTION_POLICIES[auth.tier], { summarizer });
   
   return NextResponse.json(result);
 }
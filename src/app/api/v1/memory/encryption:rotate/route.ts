@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { resolveMemoryService } from '@/lib/instance';
+import type { RotateKeyResponse, ApiError } from '@/lib/types';
+
+// Re-encrypt the instance under a fresh data key
+async function handler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<RotateKeyResponse | ApiError>> {
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const startTime = Date.now();
+  const result = await memory.rotateEncryptionKey();
+  
+  if (!result) {
+    return NextResponse.json(
+      { error: 'Encryption at rest is not enabled on this server', code: 'CONFLICT' },
+      { status: 409 }
+    );
+  }
+  
+  return NextResponse.json({
+    ...result,
+    took_ms: Date.now() - startTime
+  });
+}
+
+export const POST = withAuth(handler);
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { resolveMemoryService } from '@/lib/instance';
+import { formatSseEvent } from '@/lib/memory-events';
+
+// Streams end after this long; EventSource reconnects with Last-Event-ID
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+// How often the log is checked for events written by other processes
+const POLL_INTERVAL_MS = 2000;
+
+// Comment line sent when idle, so proxies keep the connection open
+const HEARTBEAT_MS = 15000;
+
+// Reconnect delay suggested to clients
+const RETRY_MS = 3000;
+
+// Open streams allowed per user on one server process; each polls the DB
+const MAX_STREAMS_PER_USER = 5;
+
+const openStreams = new Map<string, number>();
+
+export const maxDuration = 300;
+
+// Event id to resume after: Last-Event-ID header (set by EventSource on
+// reconnect) or ?last_event_id= (for the first connection)
+function resumeId(request: NextRequest): string | null {
+  return request.headers.get('Last-Event-ID') ?? new URL(request.url).searchParams.get('last_event_id');
+}
+
+async function handler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse> {
+  const rawResumeId = resumeId(request);
+  if (rawResumeId !== null && !/^\d+$/.test(rawResumeId)) {
+    return NextResponse.json(
+      { error: 'Last-Event-ID must be a non-negative integer', code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  
+  const streams = openStreams.get(auth.userId) ?? 0;
+  if (streams >= MAX_STREAMS_PER_USER) {
+    return NextResponse.json(
+      {
+        error: `At most ${MAX_STREAMS_PER_USER} event streams can be open at once`,
+        code: 'RATE_LIMITED',
+        details: { max_streams: MAX_STREAMS_PER_USER }
+      },
+      { status: 429, headers: { 'Retry-After': String(RETRY_MS / 1000) } }
+    );
+  }
+  
+  // Without a resume id the stream starts with the next change
+  let cursor = rawResumeId !== null ? parseInt(rawResumeId) : await memory.lastEventId();
+  openStreams.set(auth.userId, (openStreams.get(auth.userId) ?? 0) + 1);
+  
+  const encoder = new TextEncoder();
+  let closed = false;
+  let draining = false;
+  let drainAgain = false;
+  let lastWrite = Date.now();
+  let poll: ReturnType<typeof setInterval> | undefined;
+  let expire: ReturnType<typeof setTimeout> | undefined;
+  let unsubscribe = () => {};
+  
+  const cleanup = () => {
+    if (!closed) {
+      const remaining = (openStreams.get(auth.userId) ?? 1) - 1;
+      if (remaining > 0) {
+        openStreams.set(auth.userId, remaining);
+      } else {
+        openStreams.delete(auth.userId);
+      }
+    }
+    closed = true;
+    unsubscribe();
+    clearInterval(poll);
+    clearTimeout(expire);
+  };
+  
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (closed) return;
+        cleanup();
+        request.signal.removeEventListener('abort', close);
+        controller.close();
+      };
+      
+      const send = (text: string) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(text));
+        lastWrite = Date.now();
+      };
+      
+      // Send everything after the cursor; wake-ups during a drain re-run it
+      const drain = async () => {
+        if (draining) {
+          drainAgain = true;
+          return;
+        }
+        draining = true;
+        
+        try {
+          do {
+            drainAgain = false;
+            let events = await memory.listEvents(cursor);
+            while (!closed && events.length > 0) {
+              for (const event of events) {
+                send(formatSseEvent(event));
+                cursor = event.id;
+              }
+              events = await memory.listEvents(cursor);
+            }
+          } while (drainAgain && !closed);
+        } catch (error) {
+          console.error('Memory event stream error:', error);
+          close();
+        } finally {
+          draining = false;
+        }
+      };
+      
+      unsubscribe = memory.subscribe(() => void drain());
+      poll = setInterval(() => {
+        if (Date.now() - lastWrite >= HEARTBEAT_MS) {
+          send(': heartbeat\n\n');
+        }
+        void drain();
+      }, POLL_INTERVAL_MS);
+      expire = setTimeout(close, MAX_STREAM_MS);
+      request.signal.addEventListener('abort', close);
+      
+      send(`retry: ${RETRY_MS}\n\n`);
+      void drain();
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+  
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Stop proxies such as nginx from buffering the stream
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
+
+// Streams are long-lived: they are refused over the rate limit but not
+// logged as usage, so an open stream does not hold quota
+export const GET = withAuth(handler, { metered: false });
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { resolveMemoryService } from '@/lib/instance';
+import { ARCHIVE_CONTENT_TYPE } from '@/lib/portability';
+
+async function handler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse> {
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory, instance } = resolved;
+  const name = instance.name || 'default';
+  const lines = memory.exportArchive(name);
+  const encoder = new TextEncoder();
+  
+  // Stream archive lines as the client reads them
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      try {
+        const next = lines.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(next.value));
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    cancel() {
+      lines.return(undefined);
+    }
+  });
+  
+  const date = new Date().toISOString().slice(0, 10);
+  
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': ARCHIVE_CONTENT_TYPE,
+      'Content-Disposition': `attachment; filename="memory-${name}-${date}.jsonl"`
+    }
+  });
+}
+
+export const GET = withAuth(handler);
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { checkStorageQuota, resolveMemoryService } from '@/lib/instance';
+import { parseArchive } from '@/lib/portability';
+import type { ImportResponse, ImportMode, ImportConflictStrategy, ApiError } from '@/lib/types';
+
+// Largest archive accepted in one request (bytes)
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+async function handler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<ImportResponse | ApiError>> {
+  const params = new URL(request.url).searchParams;
+  
+  // Validate options
+  const mode = (params.get('mode') || 'merge') as ImportMode;
+  if (mode !== 'merge' && mode !== 'replace') {
+    return NextResponse.json(
+      { error: '"mode" must be "merge" or "replace"', code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  const onConflict = (params.get('on_conflict') || 'skip') as ImportConflictStrategy;
+  if (!['skip', 'overwrite', 'new_id'].includes(onConflict)) {
+    return NextResponse.json(
+      { error: '"on_conflict" must be "skip", "overwrite" or "new_id"', code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  const dryRun = params.get('dry_run') === 'true';
+  
+  // Parse archive body
+  const declaredLength = parseInt(request.headers.get('Content-Length') || '0');
+  const text = declaredLength > MAX_IMPORT_BYTES ? '' : await request.text();
+  if (declaredLength > MAX_IMPORT_BYTES || Buffer.byteLength(text) > MAX_IMPORT_BYTES) {
+    return NextResponse.json(
+      { error: `Archive must be smaller than ${MAX_IMPORT_BYTES} bytes`, code: 'PAYLOAD_TOO_LARGE' },
+      { status: 413 }
+    );
+  }
+  
+  const archive = parseArchive(text);
+  
+  if (archive.errors.length > 0 && !dryRun) {
+    return NextResponse.json(
+      { error: 'Archive failed validation', code: 'VALIDATION_ERROR', details: { errors: archive.errors } },
+      { status: 400 }
+    );
+  }
+  
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  if (!dryRun) {
+    const quotaError = await checkStorageQuota(auth, [archive.memories, archive.links, archive.revisions]);
+    if (quotaError) {
+      return quotaError;
+    }
+  }
+  
+  const { memory } = resolved;
+  const stats = await memory.importArchive(archive.memories, archive.links, archive.revisions, {
+    mode,
+    onConflict,
+    dryRun,
+    actor: auth.keyId
+  });
+  
+  return NextResponse.json(
+    {
+      dry_run: dryRun,
+      mode,
+      on_conflict: onConflict,
+      stats,
+      errors: archive.errors
+    },
+    { status: dryRun ? 200 : 201 }
+  );
+}
+
+export const POST = withAuth(handler);
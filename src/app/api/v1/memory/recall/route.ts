@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, AuthContext } from '@/lib/auth';
-import { getMemoryService } from '@/lib/memory';
-import type { RecallRequest, RecallResponse, ApiError, MemoryType } from '@/lib/types';
+import { resolveMemoryService } from '@/lib/instance';
+import { validateRecallRequest } from '@/lib/validation';
+import type { RecallRequest, RecallResponse, ApiError } from '@/lib/types';
 
 async function handler(
   request: NextRequest,
@@ -18,44 +19,27 @@ async function handler(
     );
   }
   
-  // Validate required fields
-  if (!body.query || typeof body.query !== 'string') {
+  const validationError = validateRecallRequest(body);
+  if (validationError) {
     return NextResponse.json(
-      { error: 'Missing or invalid "query" field', code: 'VALIDATION_ERROR' },
+      { error: validationError, code: 'VALIDATION_ERROR' },
       { status: 400 }
     );
   }
   
-  // Validate optional fields
-  const limit = body.limit ?? 10;
-  if (typeof limit !== 'number' || limit < 1 || limit > 100) {
-    return NextResponse.json(
-      { error: '"limit" must be a number between 1 and 100', code: 'VALIDATION_ERROR' },
-      { status: 400 }
-    );
-  }
-  
-  const validTypes: MemoryType[] = ['factual', 'relational', 'procedural', 'episodic', 'semantic'];
-  if (body.types) {
-    if (!Array.isArray(body.types)) {
-      return NextResponse.json(
-        { error: '"types" must be an array', code: 'VALIDATION_ERROR' },
-        { status: 400 }
-      );
-    }
-    for (const t of body.types) {
-      if (!validTypes.includes(t)) {
-        return NextResponse.json(
-          { error: `Invalid type "${t}". Valid types: ${validTypes.join(', ')}`, code: 'VALIDATION_ERROR' },
-          { status: 400 }
-        );
-      }
-    }
+  // Execute recall
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
   }
   
-  // Execute recall
-  const memory = getMemoryService(auth.userId);
-  const result = await memory.recall(body.query, limit, body.types);
+  const { memory } = resolved;
+  const result = await memory.recall(body.query, body.limit ?? 10, body.types, {
+    weights: body.weights,
+    expandHops: body.expand_hops,
+    filters: body.filters,
+    explain: body.explain
+  });
   
   return NextResponse.json(result);
 }
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { resolveMemoryService } from '@/lib/instance';
+import { validateRecallRequest } from '@/lib/validation';
+import { MAX_BATCH_SIZE } from '@/lib/types';
+import type { BatchRecallRequest, BatchRecallResponse, BatchRecallResult, BatchItemError, RecallRequest, ApiError } from '@/lib/types';
+
+async function handler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<BatchRecallResponse | ApiError>> {
+  const startTime = Date.now();
+  
+  // Parse request body
+  let body: BatchRecallRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body', code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+  
+  if (!body || !Array.isArray(body.queries) || body.queries.length === 0) {
+    return NextResponse.json(
+      { error: 'Missing or invalid "queries" field', code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  if (body.queries.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `"queries" must contain at most ${MAX_BATCH_SIZE} entries`, code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  // Invalid queries are reported in place; the rest run together
+  const results: (BatchRecallResult | BatchItemError | null)[] = body.queries.map(query => {
+    const error = validateRecallRequest(query);
+    return error ? { success: false, error, code: 'VALIDATION_ERROR' } : null;
+  });
+  const valid = body.queries.filter((_, i) => results[i] === null) as RecallRequest[];
+  
+  const { memory } = resolved;
+  const recalled = valid.length > 0
+    ? await memory.recallBatch(valid.map(q => ({
+      query: q.query,
+      limit: q.limit,
+      types: q.types,
+      weights: q.weights,
+      expandHops: q.expand_hops,
+      filters: q.filters,
+      explain: q.explain
+    })))
+    : [];
+  
+  let next = 0;
+  return NextResponse.json({
+    results: results.map(result => result ?? { success: true, ...recalled[next++] }),
+    took_ms: Date.now() - startTime
+  });
+}
+
+export const POST = withAuth(handler);
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { resolveMemoryService } from '@/lib/instance';
+import { effectivePolicy } from '@/lib/retention';
+import { validateRetentionPolicy } from '@/lib/validation';
+import { RETENTION_POLICIES } from '@/lib/types';
+import type { RetentionPolicy, RetentionResponse, ApiError } from '@/lib/types';
+
+function toResponse(auth: AuthContext, instance: RetentionPolicy | null): RetentionResponse {
+  const tier = RETENTION_POLICIES[auth.tier];
+  return {
+    tier,
+    instance,
+    effective: effectivePolicy(tier, instance)
+  };
+}
+
+async function getHandler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<RetentionResponse | ApiError>> {
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const policy = await memory.getRetentionPolicy();
+  
+  return NextResponse.json(toResponse(auth, policy));
+}
+
+async function putHandler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<RetentionResponse | ApiError>> {
+  // Parse request body
+  let body: RetentionPolicy;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body', code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+  
+  const validationError = validateRetentionPolicy(body);
+  if (validationError) {
+    return NextResponse.json(
+      { error: validationError, code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  // Store only known fields
+  const policy: RetentionPolicy = {
+    max_age_days: body.max_age_days,
+    max_count: body.max_count,
+    types: body.types
+  };
+  
+  const { memory } = resolved;
+  await memory.setRetentionPolicy(policy);
+  
+  return NextResponse.json(toResponse(auth, policy));
+}
+
+async function deleteHandler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<RetentionResponse | ApiError>> {
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  await memory.setRetentionPolicy(null);
+  
+  return NextResponse.json(toResponse(auth, null));
+}
+
+export const GET = withAuth(getHandler);
+export const PUT = withAuth(putHandler);
+export const DELETE = withAuth(deleteHandler);
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { resolveMemoryService } from '@/lib/instance';
+import { decodeCursor, MEMORY_SORT_FIELDS, type ListCursor } from '@/lib/pagination';
+import { VALID_MEMORY_TYPES } from '@/lib/validation';
+import type { ListMemoriesResponse, MemorySortField, MemoryType, SortOrder, ApiError } from '@/lib/types';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+function validationError(error: string): NextResponse<ApiError> {
+  return NextResponse.json(
+    { error, code: 'VALIDATION_ERROR' },
+    { status: 400 }
+  );
+}
+
+async function handler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<ListMemoriesResponse | ApiError>> {
+  const params = new URL(request.url).searchParams;
+  
+  // Validate options
+  const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return validationError(`"limit" must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  
+  const sort = (params.get('sort') || 'created_at') as MemorySortField;
+  if (!MEMORY_SORT_FIELDS.includes(sort)) {
+    return validationError(`Invalid sort "${sort}". Valid sorts: ${MEMORY_SORT_FIELDS.join(', ')}`);
+  }
+  
+  const order = (params.get('order') || 'desc') as SortOrder;
+  if (order !== 'asc' && order !== 'desc') {
+    return validationError('"order" must be "asc" or "desc"');
+  }
+  
+  // Comma-separated, e.g. ?types=episodic,factual
+  const types = (params.get('types') || '').split(',').filter(Boolean) as MemoryType[];
+  for (const t of types) {
+    if (!VALID_MEMORY_TYPES.includes(t)) {
+      return validationError(`Invalid type "${t}". Valid types: ${VALID_MEMORY_TYPES.join(', ')}`);
+    }
+  }
+  
+  let cursor: ListCursor | undefined;
+  const rawCursor = params.get('cursor');
+  if (rawCursor) {
+    const decoded = decodeCursor(rawCursor);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid cursor', code: 'INVALID_CURSOR' },
+        { status: 400 }
+      );
+    }
+    if (decoded.sort !== sort || decoded.order !== order) {
+      return NextResponse.json(
+        { error: `Cursor was issued for sort=${decoded.sort}&order=${decoded.order}`, code: 'INVALID_CURSOR' },
+        { status: 400 }
+      );
+    }
+    cursor = decoded;
+  }
+  
+  // Execute list
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const result = await memory.list({ limit, sort, order, types, cursor });
+  
+  return NextResponse.json(result);
+}
+
+export const GET = withAuth(handler);
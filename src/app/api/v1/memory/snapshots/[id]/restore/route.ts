@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { resolveMemoryService } from '@/lib/instance';
+import type { RestoreSnapshotResponse, ApiError } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handler(
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext
+): Promise<NextResponse<RestoreSnapshotResponse | ApiError>> {
+  const { id } = await context.params;
+  const startTime = Date.now();
+  
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const result = await memory.restoreSnapshot(id, auth.keyId);
+  
+  if (!result) {
+    return NextResponse.json(
+      { error: `Snapshot "${id}" not found`, code: 'NOT_FOUND' },
+      { status: 404 }
+    );
+  }
+  
+  return NextResponse.json({ ...result, took_ms: Date.now() - startTime });
+}
+
+export const POST = withAuth(handler);
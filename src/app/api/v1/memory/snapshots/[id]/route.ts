@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { resolveMemoryService } from '@/lib/instance';
+import type { DeleteResponse, ApiError } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function deleteHandler(
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext
+): Promise<NextResponse<DeleteResponse | ApiError>> {
+  const { id } = await context.params;
+  
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const deleted = await memory.deleteSnapshot(id);
+  
+  if (!deleted) {
+    return NextResponse.json(
+      { error: `Snapshot "${id}" not found`, code: 'NOT_FOUND' },
+      { status: 404 }
+    );
+  }
+  
+  return NextResponse.json({ id, deleted: true });
+}
+
+export const DELETE = withAuth(deleteHandler);
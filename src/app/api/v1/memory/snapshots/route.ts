@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { checkStorageBytes, resolveMemoryService } from '@/lib/instance';
+import { RETENTION_POLICIES, SNAPSHOT_POLICY } from '@/lib/types';
+import type { Snapshot, SnapshotListResponse, ApiError } from '@/lib/types';
+
+async function getHandler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<SnapshotListResponse | ApiError>> {
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const snapshots = await memory.listSnapshots();
+  
+  return NextResponse.json({ snapshots });
+}
+
+async function postHandler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<Snapshot | ApiError>> {
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  
+  // A snapshot copies the pages in use, so it takes about as much again
+  const { storage } = await memory.stats();
+  const quotaError = await checkStorageBytes(auth, storage.bytes);
+  if (quotaError) {
+    return quotaError;
+  }
+  
+  const snapshot = await memory.createSnapshot('manual', RETENTION_POLICIES[auth.tier]);
+  
+  if (!snapshot) {
+    return NextResponse.json(
+      {
+        error: 'Manual snapshot limit reached; delete a snapshot first',
+        code: 'LIMIT_EXCEEDED',
+        details: { limit: SNAPSHOT_POLICY.max_manual }
+      },
+      { status: 403 }
+    );
+  }
+  
+  return NextResponse.json(snapshot, { status: 201 });
+}
+
+export const GET = withAuth(getHandler);
+export const POST = withAuth(postHandler);
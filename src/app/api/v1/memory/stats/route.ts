@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, AuthContext } from '@/lib/auth';
-import { getMemoryService } from '@/lib/memory';
+import { getStorageQuota, resolveMemoryService } from '@/lib/instance';
+import { RETENTION_POLICIES } from '@/lib/types';
 import type { StatsResponse, ApiError } from '@/lib/types';
 
 async function handler(
   request: NextRequest,
   auth: AuthContext
 ): Promise<NextResponse<StatsResponse | ApiError>> {
-  const memory = getMemoryService(auth.userId);
-  const result = await memory.stats();
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const result = await memory.stats(RETENTION_POLICIES[auth.tier], await getStorageQuota(auth));
   
   return NextResponse.json(result);
 }
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, AuthContext } from '@/lib/auth';
-import { getMemoryService } from '@/lib/memory';
-import type { StoreRequest, StoreResponse, ApiError, MemoryType } from '@/lib/types';
+import { checkStorageQuota, resolveMemoryService } from '@/lib/instance';
+import { validateStoreRequest, validateIdempotencyKey, IDEMPOTENCY_HEADER } from '@/lib/validation';
+import type { StoreRequest, StoreResponse, ApiError } from '@/lib/types';
 
 async function handler(
   request: NextRequest,
@@ -18,49 +19,60 @@ async function handler(
     );
   }
   
-  // Validate required fields
-  if (!body.content || typeof body.content !== 'string') {
+  const idempotencyKey = request.headers.get(IDEMPOTENCY_HEADER);
+  const validationError = validateStoreRequest(body) ||
+    (idempotencyKey !== null ? validateIdempotencyKey(idempotencyKey) : null);
+  if (validationError) {
     return NextResponse.json(
-      { error: 'Missing or invalid "content" field', code: 'VALIDATION_ERROR' },
+      { error: validationError, code: 'VALIDATION_ERROR' },
       { status: 400 }
     );
   }
   
-  if (body.content.length > 10000) {
-    return NextResponse.json(
-      { error: '"content" must be less than 10000 characters', code: 'VALIDATION_ERROR' },
-      { status: 400 }
-    );
+  // Execute store
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
   }
   
-  // Validate optional fields
-  const validTypes: MemoryType[] = ['factual', 'relational', 'procedural', 'episodic', 'semantic'];
-  if (body.type && !validTypes.includes(body.type)) {
-    return NextResponse.json(
-      { error: `Invalid type "${body.type}". Valid types: ${validTypes.join(', ')}`, code: 'VALIDATION_ERROR' },
-      { status: 400 }
-    );
+  const { memory } = resolved;
+  const item: StoreRequest = {
+    content: body.content,
+    type: body.type,
+    importance: body.importance,
+    metadata: body.metadata,
+    pinned: body.pinned,
+    dedupe: body.dedupe
+  };
+  
+  // A retry gets its first result back even once the account is over quota
+  const earlier = idempotencyKey !== null ? await memory.findIdempotentReplay(idempotencyKey, [item]) : undefined;
+  const quotaError = earlier === undefined ? await checkStorageQuota(auth, body) : null;
+  if (quotaError) {
+    return quotaError;
   }
   
-  if (body.importance !== undefined) {
-    if (typeof body.importance !== 'number' || body.importance < 0 || body.importance > 1) {
+  // Retries with the same Idempotency-Key get the first result back
+  let result: StoreResponse;
+  let replayed = false;
+  if (idempotencyKey !== null) {
+    const outcome = await memory.storeIdempotent(idempotencyKey, [item], auth.keyId);
+    if (!outcome) {
       return NextResponse.json(
-        { error: '"importance" must be a number between 0 and 1', code: 'VALIDATION_ERROR' },
-        { status: 400 }
+        { error: `${IDEMPOTENCY_HEADER} was already used for a different request`, code: 'IDEMPOTENCY_KEY_REUSED' },
+        { status: 422 }
       );
     }
+    [result] = outcome.results;
+    replayed = outcome.replayed;
+  } else {
+    [result] = await memory.storeBatch([item], auth.keyId);
   }
   
-  // Execute store
-  const memory = getMemoryService(auth.userId);
-  const result = await memory.store(
-    body.content,
-    body.type,
-    body.importance,
-    body.metadata
-  );
-  
-  return NextResponse.json(result, { status: 201 });
+  return NextResponse.json(result, {
+    status: result.deduplicated ? 200 : 201,
+    headers: replayed ? { 'Idempotent-Replayed': 'true' } : undefined
+  });
 }
 
 export const POST = withAuth(handler);
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { checkStorageQuota, resolveMemoryService } from '@/lib/instance';
+import { validateStoreRequest, validateIdempotencyKey, IDEMPOTENCY_HEADER } from '@/lib/validation';
+import { MAX_BATCH_SIZE } from '@/lib/types';
+import type { BatchStoreRequest, BatchStoreResponse, BatchItemError, StoreRequest, StoreResponse, ApiError } from '@/lib/types';
+
+async function handler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<BatchStoreResponse | ApiError>> {
+  // Parse request body
+  let body: BatchStoreRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body', code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+  
+  if (!body || !Array.isArray(body.items) || body.items.length === 0) {
+    return NextResponse.json(
+      { error: 'Missing or invalid "items" field', code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  if (body.items.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `"items" must contain at most ${MAX_BATCH_SIZE} entries`, code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  const idempotencyKey = request.headers.get(IDEMPOTENCY_HEADER);
+  const keyError = idempotencyKey !== null ? validateIdempotencyKey(idempotencyKey) : null;
+  if (keyError) {
+    return NextResponse.json(
+      { error: keyError, code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  // Invalid items are reported in place; the rest are stored together
+  const results: (StoreResponse | BatchItemError | null)[] = body.items.map(item => {
+    const error = validateStoreRequest(item);
+    return error ? { success: false, error, code: 'VALIDATION_ERROR' } : null;
+  });
+  const valid = body.items.filter((_, i) => results[i] === null);
+  
+  const { memory } = resolved;
+  
+  // A retry gets its first results back even once the account is over quota
+  const earlier = valid.length > 0 && idempotencyKey !== null
+    ? await memory.findIdempotentReplay(idempotencyKey, valid as StoreRequest[])
+    : undefined;
+  const quotaError = valid.length > 0 && earlier === undefined ? await checkStorageQuota(auth, valid) : null;
+  if (quotaError) {
+    return quotaError;
+  }
+  
+  let stored: StoreResponse[] = [];
+  let replayed = false;
+  
+  // Retries with the same Idempotency-Key get the first results back
+  if (valid.length > 0 && idempotencyKey !== null) {
+    const outcome = await memory.storeIdempotent(idempotencyKey, valid as StoreRequest[], auth.keyId);
+    if (!outcome) {
+      return NextResponse.json(
+        { error: `${IDEMPOTENCY_HEADER} was already used for a different request`, code: 'IDEMPOTENCY_KEY_REUSED' },
+        { status: 422 }
+      );
+    }
+    stored = outcome.results;
+    replayed = outcome.replayed;
+  } else if (valid.length > 0) {
+    stored = await memory.storeBatch(valid as StoreRequest[], auth.keyId);
+  }
+  
+  let next = 0;
+  const response: BatchStoreResponse = {
+    results: results.map(result => result ?? stored[next++]),
+    stored: stored.length,
+    failed: body.items.length - stored.length
+  };
+  
+  return NextResponse.json(response, {
+    status: stored.length > 0 ? 201 : 400,
+    headers: replayed ? { 'Idempotent-Replayed': 'true' } : undefined
+  });
+}
+
+export const POST = withAuth(handler);
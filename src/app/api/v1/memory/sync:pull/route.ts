@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { resolveMemoryService } from '@/lib/instance';
+import type { SyncPullResponse, ApiError } from '@/lib/types';
+
+const DEFAULT_PULL_SIZE = 100;
+const MAX_PULL_SIZE = 500;
+
+function validationError(error: string): NextResponse<ApiError> {
+  return NextResponse.json(
+    { error, code: 'VALIDATION_ERROR' },
+    { status: 400 }
+  );
+}
+
+async function handler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<SyncPullResponse | ApiError>> {
+  const params = new URL(request.url).searchParams;
+  
+  // Validate options
+  const since = params.has('since') ? Number(params.get('since')) : 0;
+  if (!Number.isInteger(since) || since < 0) {
+    return validationError('"since" must be a non-negative integer cursor');
+  }
+  
+  const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_PULL_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PULL_SIZE) {
+    return validationError(`"limit" must be an integer between 1 and ${MAX_PULL_SIZE}`);
+  }
+  
+  // Execute pull
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const { memory } = resolved;
+  const result = await memory.pullChanges(since, limit);
+  
+  return NextResponse.json(result);
+}
+
+export const GET = withAuth(handler);
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth';
+import { checkStorageQuota, resolveMemoryService } from '@/lib/instance';
+import { validateSyncPushRequest } from '@/lib/validation';
+import type { SyncPushRequest, SyncPushResponse, ApiError } from '@/lib/types';
+
+async function handler(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<NextResponse<SyncPushResponse | ApiError>> {
+  // Parse request body
+  let body: SyncPushRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body', code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+  
+  const validationError = validateSyncPushRequest(body);
+  if (validationError) {
+    return NextResponse.json(
+      { error: validationError, code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  
+  // Execute push
+  const resolved = await resolveMemoryService(request, auth);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+  
+  const quotaError = await checkStorageQuota(auth, body.changes);
+  if (quotaError) {
+    return quotaError;
+  }
+  
+  const { memory } = resolved;
+  const result = await memory.pushChanges(body.origin, body.changes);
+  
+  return NextResponse.json(result);
+}
+
+export const POST = withAuth(handler);
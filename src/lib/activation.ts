@@ -0,0 +1,108 @@
+/**
+ * Activation - ACT-R base-level activation from access history
+ *
+ * Every access strengthens a memory and every access fades with time:
+ *   B = ln( sum over accesses j of t_j^-d )
+ * where t_j is the time since access j in seconds and d the decay rate.
+ * Creation counts as the first access. Only the most recent accesses are
+ * logged; older ones are assumed spread evenly between creation and the
+ * oldest logged access (Petrov's hybrid approximation).
+ *
+ * B is mapped to 0..1 as the ACT-R retrieval probability
+ *   1 / (1 + e^((threshold - B) / noise))
+ * which recall ranks by and consolidation forgets against.
+ *
+ * Parameters can be tuned per deployment via ACTIVATION_* env vars.
+ */
+
+export interface ActivationParams {
+  // Power-law decay of each access, between 0 and 1 (ACT-R default 0.5)
+  decay: number;
+  // Base level with an even chance of retrieval
+  threshold: number;
+  // Spread of the retrieval curve around the threshold
+  noise: number;
+  // Memories whose retrieval probability falls below this are forgotten
+  forgetBelow: number;
+}
+
+export interface AccessHistory {
+  created_at: string;
+  // Accesses after creation, including ones no longer logged
+  access_count: number;
+  // The most recent accesses, in any order
+  accesses: string[];
+}
+
+// Milliseconds since the epoch; injectable so tests can move time
+export type Clock = () => number;
+
+// With these defaults a memory stored once and never recalled stays above
+// even odds for about two weeks and is forgotten after about a year and a half
+export const DEFAULT_ACTIVATION_PARAMS: ActivationParams = {
+  decay: 0.5,
+  threshold: -7,
+  noise: 0.4,
+  forgetBelow: 0.01
+};
+
+// Accesses kept in the log per memory
+export const MAX_LOGGED_ACCESSES = 10;
+
+// Floor on the age of an access, so one just now does not count infinitely
+const MIN_AGE_SECONDS = 1;
+
+function envParam(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) ? fallback : value;
+}
+
+// Deployment defaults, with optional overrides
+export function getActivationParams(overrides: Partial<ActivationParams> = {}): ActivationParams {
+  return {
+    decay: overrides.decay ?? envParam('ACTIVATION_DECAY', DEFAULT_ACTIVATION_PARAMS.decay),
+    threshold: overrides.threshold ?? envParam('ACTIVATION_THRESHOLD', DEFAULT_ACTIVATION_PARAMS.threshold),
+    noise: overrides.noise ?? envParam('ACTIVATION_NOISE', DEFAULT_ACTIVATION_PARAMS.noise),
+    forgetBelow: overrides.forgetBelow ?? envParam('ACTIVATION_FORGET_BELOW', DEFAULT_ACTIVATION_PARAMS.forgetBelow)
+  };
+}
+
+function ageSeconds(timestamp: string, now: number): number {
+  return Math.max(MIN_AGE_SECONDS, (now - Date.parse(timestamp)) / 1000);
+}
+
+// ACT-R base-level activation B
+export function baseLevel(history: AccessHistory, now: number, params: ActivationParams): number {
+  const d = params.decay;
+  const lifetime = ageSeconds(history.created_at, now);
+  const logged = history.accesses.map(at => Math.min(ageSeconds(at, now), lifetime));
+  
+  let sum = Math.pow(lifetime, -d);
+  for (const age of logged) {
+    sum += Math.pow(age, -d);
+  }
+  
+  // Accesses that fell out of the log happened between creation and the oldest logged one
+  const unlogged = history.access_count - logged.length;
+  if (unlogged > 0) {
+    const oldest = Math.max(0, ...logged);
+    sum += lifetime > oldest
+      ? unlogged * (Math.pow(lifetime, 1 - d) - Math.pow(oldest, 1 - d)) / ((1 - d) * (lifetime - oldest))
+      : unlogged * Math.pow(lifetime, -d);
+  }
+  
+  return Math.log(sum);
+}
+
+// Map a base level to 0..1
+export function retrievalProbability(base: number, params: ActivationParams): number {
+  return 1 / (1 + Math.exp((params.threshold - base) / params.noise));
+}
+
+export function computeActivation(
+  history: AccessHistory,
+  now: number,
+  params: ActivationParams = getActivationParams()
+): number {
+  return retrievalProbability(baseLevel(history, now, params), params);
+}
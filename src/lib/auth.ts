@@ -5,6 +5,8 @@ import type { ApiKey, ApiError } from './types';
 export interface AuthContext {
   userId: string;
   tier: ApiKey['tier'];
+  // Id of the API key used; recorded as the actor on memory revisions
+  keyId: string;
 }
 
 // Extract bearer token from Authorization header
@@ -20,6 +22,18 @@ function extractBearerToken(request: NextRequest): string | null {
   return token;
 }
 
+// Scheduled jobs authenticate with CRON_SECRET instead of an API key
+export function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && extractBearerToken(request) === secret;
+}
+
+export interface AuthOptions {
+  // Log the request as usage (default true). Off for long-lived streams,
+  // which are still refused when the caller is over the rate limit.
+  metered?: boolean;
+}
+
 // Authenticate request and check rate limits
 export async function authenticateRequest(
   request: NextRequest
@@ -54,6 +68,12 @@ export async function authenticateRequest(
     };
   }
   
+  const auth: AuthContext = {
+    userId: validation.user.id,
+    tier: validation.user.tier,
+    keyId: validation.user.keyId
+  };
+  
   // Check rate limit
   const quota = await checkQuota(validation.user.id, validation.user.tier);
   
@@ -80,22 +100,22 @@ export async function authenticateRequest(
     };
   }
   
-  return {
-    auth: {
-      userId: validation.user.id,
-      tier: validation.user.tier
-    }
-  };
+  return { auth };
 }
 
 // Wrapper for authenticated API handlers
-export function withAuth(
+// The route context (e.g. dynamic segment params) is passed through untouched
+export function withAuth<C = unknown>(
   handler: (
     request: NextRequest,
-    auth: AuthContext
-  ) => Promise<NextResponse>
+    auth: AuthContext,
+    context: C
+  ) => Promise<NextResponse>,
+  options: AuthOptions = {}
 ) {
-  return async (request: NextRequest): Promise<NextResponse> => {
+  const metered = options.metered !== false;
+  
+  return async (request: NextRequest, context: C): Promise<NextResponse> => {
     const result = await authenticateRequest(request);
     
     if ('error' in result) {
@@ -103,16 +123,20 @@ export function withAuth(
     }
     
     // Log usage (endpoint will be extracted from URL)
-    const endpoint = new URL(request.url).pathname;
-    await logUsage(result.auth.userId, endpoint);
+    if (metered) {
+      const endpoint = new URL(request.url).pathname;
+      await logUsage(result.auth.userId, endpoint);
+    }
     
     // Call the actual handler
     try {
-      const response = await handler(request, result.auth);
+      const response = await handler(request, result.auth, context);
       
       // Add rate limit headers to response
-      const quota = await checkQuota(result.auth.userId, result.auth.tier);
-      response.headers.set('X-RateLimit-Remaining', quota.remaining.toString());
+      if (metered) {
+        const quota = await checkQuota(result.auth.userId, result.auth.tier);
+        response.headers.set('X-RateLimit-Remaining', quota.remaining.toString());
+      }
       
       return response;
     } catch (error) {
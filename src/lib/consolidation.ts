@@ -0,0 +1,170 @@
+/**
+ * Consolidation - Near-duplicate and related-memory grouping
+ *
+ * Bots tend to store the same fact over and over across sessions. These
+ * helpers group memories that say the same thing so consolidation can
+ * fuse each group into a single survivor, and, more loosely, episodes
+ * about the same subject so they can be summarized together.
+ */
+
+import { cosineSimilarity } from './embeddings';
+
+export interface MergeCandidate {
+  id: string;
+  content: string;
+  embedding: Float32Array | null;
+}
+
+// Two memories are duplicates if their content is verbatim the same, or if
+// both their embedding cosine and token Jaccard reach these thresholds
+// (Jaccard alone without comparable embeddings). Embeddings barely tell
+// "every Monday" from "every Friday"; the token overlap does.
+export const DUPLICATE_COSINE_THRESHOLD = 0.92;
+export const DUPLICATE_JACCARD_THRESHOLD = 0.85;
+// Looser thresholds at which episodes count as being about the same subject
+export const RELATED_COSINE_THRESHOLD = 0.5;
+export const RELATED_JACCARD_THRESHOLD = 0.3;
+
+// Lowercased, punctuation-insensitive form used to spot verbatim repeats
+export function normalizeContent(content: string): string {
+  return (content.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).join(' ');
+}
+
+function tokenSet(content: string): Set<string> {
+  return new Set(normalizeContent(content).split(' ').filter(Boolean));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  
+  let intersection = 0;
+  for (const token of a) {
+    if (b.has(token)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+// Group candidates whose similarity reaches either threshold, transitively
+// (singletons are omitted). Pairwise comparison is quadratic, which is fine
+// for per-type memory sets.
+function clusterBySimilarity(
+  candidates: MergeCandidate[],
+  cosineThreshold: number,
+  jaccardThreshold: number
+): string[][] {
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    parent[find(b)] = find(a);
+  };
+  
+  // Verbatim repeats are linked without a pairwise comparison
+  const byNormalized = new Map<string, number>();
+  candidates.forEach((candidate, i) => {
+    const key = normalizeContent(candidate.content);
+    const first = byNormalized.get(key);
+    if (first === undefined) {
+      byNormalized.set(key, i);
+    } else {
+      union(first, i);
+    }
+  });
+  
+  const tokens = candidates.map(candidate => tokenSet(candidate.content));
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      if (find(i) === find(j)) continue;
+      
+      const a = candidates[i].embedding;
+      const b = candidates[j].embedding;
+      const similar = a && b && a.length === b.length
+        ? cosineSimilarity(a, b) >= cosineThreshold
+        : jaccard(tokens[i], tokens[j]) >= jaccardThreshold;
+      
+      if (similar) {
+        union(i, j);
+      }
+    }
+  }
+  
+  const clusters = new Map<number, string[]>();
+  candidates.forEach((candidate, i) => {
+    const root = find(i);
+    const cluster = clusters.get(root) || [];
+    cluster.push(candidate.id);
+    clusters.set(root, cluster);
+  });
+  
+  return [...clusters.values()].filter(cluster => cluster.length > 1);
+}
+
+// Clusters of memories that say the same thing. Every member must be a
+// duplicate of every other (complete linkage), so small differences cannot
+// chain into a cluster of different facts. Candidates join the first
+// cluster they fit, in the order given.
+export function findDuplicateClusters(candidates: MergeCandidate[]): string[][] {
+  const entries = candidates.map(candidate => ({
+    candidate,
+    normalized: normalizeContent(candidate.content),
+    tokens: tokenSet(candidate.content)
+  }));
+  type Entry = typeof entries[number];
+  
+  const isDuplicate = (a: Entry, b: Entry): boolean => {
+    if (a.normalized === b.normalized) return true;
+    if (jaccard(a.tokens, b.tokens) < DUPLICATE_JACCARD_THRESHOLD) return false;
+    
+    const x = a.candidate.embedding;
+    const y = b.candidate.embedding;
+    return !(x && y && x.length === y.length) || cosineSimilarity(x, y) >= DUPLICATE_COSINE_THRESHOLD;
+  };
+  
+  const clusters: Entry[][] = [];
+  for (const entry of entries) {
+    const cluster = clusters.find(members => members.every(member => isDuplicate(member, entry)));
+    if (cluster) {
+      cluster.push(entry);
+    } else {
+      clusters.push([entry]);
+    }
+  }
+  
+  return clusters
+    .filter(cluster => cluster.length > 1)
+    .map(cluster => cluster.map(entry => entry.candidate.id));
+}
+
+// Clusters of memories about the same subject
+export function findRelatedClusters(candidates: MergeCandidate[]): string[][] {
+  return clusterBySimilarity(candidates, RELATED_COSINE_THRESHOLD, RELATED_JACCARD_THRESHOLD);
+}
+
+// Combine metadata from a cluster; earlier entries (the survivor first) win on conflicts
+export function mergeMetadata(
+  entries: (Record<string, unknown> | undefined)[],
+  mergedIds: string[]
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  const provenance: string[] = [];
+  
+  for (const entry of entries) {
+    if (!entry) continue;
+    
+    for (const [key, value] of Object.entries(entry)) {
+      if (key === 'merged_from') {
+        if (Array.isArray(value)) provenance.push(...value.map(String));
+      } else if (!(key in merged)) {
+        merged[key] = value;
+      }
+    }
+  }
+  
+  merged.merged_from = [...new Set([...provenance, ...mergedIds])];
+  return merged;
+}
@@ -0,0 +1,182 @@
+/**
+ * DB Pool - Long-lived SQLite handles shared across requests
+ *
+ * Opening a per-user DB and running its schema setup costs more than most
+ * queries against it, so handles are cached per file. Handles are leased:
+ * acquire() must be paired with release(), and a handle is only closed
+ * (LRU eviction, idle timeout, explicit evict) once nobody holds it.
+ */
+
+import type Database from 'better-sqlite3';
+
+export interface PoolOptions {
+  // Open handles kept around; the least recently used idle one is closed beyond this
+  maxSize: number;
+  // Idle handles are closed after this long without use
+  idleTimeoutMs: number;
+  // Called after a handle is closed, to drop state cached for its file
+  onClose?: (filePath: string) => void;
+}
+
+export interface PoolStats {
+  size: number;
+  in_use: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+}
+
+interface PoolEntry {
+  db: Database.Database;
+  refs: number;
+  lastUsed: number;
+  // Close as soon as the last lease is released
+  closeOnRelease: boolean;
+}
+
+export class ConnectionPool {
+  private open: (filePath: string) => Database.Database;
+  private options: PoolOptions;
+  // Map iteration order doubles as LRU order: entries are re-inserted on use
+  private entries = new Map<string, PoolEntry>();
+  // Every open handle, including ones replaced in entries that still have leases
+  private byHandle = new Map<Database.Database, { filePath: string; entry: PoolEntry }>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+  
+  constructor(open: (filePath: string) => Database.Database, options: PoolOptions) {
+    this.open = open;
+    this.options = options;
+  }
+  
+  acquire(filePath: string): Database.Database {
+    let entry = this.entries.get(filePath);
+    
+    if (entry && !entry.closeOnRelease) {
+      this.counters.hits++;
+      this.entries.delete(filePath);
+    } else {
+      this.counters.misses++;
+      if (entry) {
+        // A handle marked for closing stays with its current holders only
+        this.entries.delete(filePath);
+      }
+      entry = { db: this.open(filePath), refs: 0, lastUsed: 0, closeOnRelease: false };
+      this.byHandle.set(entry.db, { filePath, entry });
+    }
+    
+    entry.refs++;
+    entry.lastUsed = Date.now();
+    this.entries.set(filePath, entry);
+    
+    this.evictOverflow();
+    this.startSweeper();
+    
+    return entry.db;
+  }
+  
+  release(db: Database.Database): void {
+    const lease = this.byHandle.get(db);
+    if (!lease) {
+      return;
+    }
+    
+    // A replaced entry is still marked for closing, so it closes with its last lease
+    const { filePath, entry } = lease;
+    entry.refs = Math.max(0, entry.refs - 1);
+    entry.lastUsed = Date.now();
+    
+    if (entry.refs === 0 && entry.closeOnRelease) {
+      this.close(filePath, entry);
+    }
+  }
+  
+  // Close the handle for a file (now, or when its last lease is released)
+  evict(filePath: string): void {
+    const entry = this.entries.get(filePath);
+    if (!entry) {
+      return;
+    }
+    
+    if (entry.refs === 0) {
+      this.close(filePath, entry);
+    } else {
+      entry.closeOnRelease = true;
+    }
+  }
+  
+  stats(): PoolStats {
+    let inUse = 0;
+    for (const entry of this.entries.values()) {
+      if (entry.refs > 0) inUse++;
+    }
+    
+    return {
+      size: this.entries.size,
+      in_use: inUse,
+      ...this.counters
+    };
+  }
+  
+  closeAll(): void {
+    for (const [filePath, entry] of this.entries) {
+      this.close(filePath, entry);
+    }
+  }
+  
+  private close(filePath: string, entry: PoolEntry): void {
+    if (this.entries.get(filePath) === entry) {
+      this.entries.delete(filePath);
+    }
+    this.byHandle.delete(entry.db);
+    entry.db.close();
+    this.options.onClose?.(filePath);
+    
+    if (this.entries.size === 0) {
+      this.stopSweeper();
+    }
+  }
+  
+  // Close least recently used idle handles until within maxSize.
+  // Handles in use are skipped, so the pool may briefly exceed its size.
+  private evictOverflow(): void {
+    for (const [filePath, entry] of this.entries) {
+      if (this.entries.size <= this.options.maxSize) {
+        return;
+      }
+      if (entry.refs === 0) {
+        this.counters.evictions++;
+        this.close(filePath, entry);
+      }
+    }
+  }
+  
+  private sweep(): void {
+    const cutoff = Date.now() - this.options.idleTimeoutMs;
+    
+    for (const [filePath, entry] of this.entries) {
+      if (entry.refs === 0 && entry.lastUsed < cutoff) {
+        this.counters.expirations++;
+        this.close(filePath, entry);
+      }
+    }
+  }
+  
+  private startSweeper(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+    
+    this.sweepTimer = setInterval(() => this.sweep(), Math.max(1000, this.options.idleTimeoutMs / 2));
+    // Never keep the process alive just to close idle handles
+    this.sweepTimer.unref?.();
+  }
+  
+  private stopSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
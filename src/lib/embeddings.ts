@@ -0,0 +1,183 @@
+/**
+ * Embeddings - Pluggable text embedders for semantic recall
+ *
+ * The default HashEmbedder is deterministic and needs no network, which
+ * keeps tests and local dev reproducible. It only captures lexical overlap
+ * (words and character trigrams); configure a model-backed embedder via
+ * EMBEDDING_PROVIDER for real semantic matching.
+ */
+
+export interface Embedder {
+  // Identifies the vector space; embeddings from different models are never compared
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from',
+  'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'what', 'with'
+]);
+
+// FNV-1a 32-bit hash
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+  
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return vector;
+}
+
+// Deterministic offline embedder using signed feature hashing
+export class HashEmbedder implements Embedder {
+  readonly model: string;
+  readonly dimensions: number;
+  
+  constructor(dimensions = 256) {
+    this.dimensions = dimensions;
+    this.model = `hash-${dimensions}`;
+  }
+  
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.embedOne(text));
+  }
+  
+  private embedOne(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * weight;
+    };
+    
+    for (const token of tokens) {
+      if (STOPWORDS.has(token)) continue;
+      
+      addFeature(`w:${token}`, 1);
+      
+      // Character trigrams make plurals and typos land close together
+      const padded = `#${token}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`c:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+    
+    return normalize(vector);
+  }
+}
+
+// OpenAI-compatible embeddings endpoint
+export class OpenAIEmbedder implements Embedder {
+  readonly model: string;
+  readonly dimensions: number;
+  private apiKey: string;
+  private baseUrl: string;
+  
+  constructor(apiKey: string, model = 'text-embedding-3-small', dimensions = 1536, baseUrl = 'https://api.openai.com/v1') {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.dimensions = dimensions;
+    this.baseUrl = baseUrl;
+  }
+  
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+    
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: texts,
+        dimensions: this.dimensions
+      }),
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: ${response.status} ${await response.text()}`);
+    }
+    
+    const data = await response.json() as { data: { index: number; embedding: number[] }[] };
+    return data.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalize(Float32Array.from(item.embedding)));
+  }
+}
+
+let defaultEmbedder: Embedder | null | undefined;
+
+// Embedder configured via environment (null when embeddings are disabled)
+export function getEmbedder(): Embedder | null {
+  if (defaultEmbedder !== undefined) {
+    return defaultEmbedder;
+  }
+  
+  const provider = process.env.EMBEDDING_PROVIDER || 'hash';
+  
+  switch (provider) {
+    case 'none':
+      defaultEmbedder = null;
+      break;
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('EMBEDDING_PROVIDER=openai requires OPENAI_API_KEY');
+      }
+      defaultEmbedder = new OpenAIEmbedder(
+        apiKey,
+        process.env.EMBEDDING_MODEL || undefined,
+        process.env.EMBEDDING_DIMENSIONS ? parseInt(process.env.EMBEDDING_DIMENSIONS) : undefined,
+        process.env.OPENAI_BASE_URL || undefined
+      );
+      break;
+    }
+    case 'hash':
+      defaultEmbedder = new HashEmbedder();
+      break;
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}"`);
+  }
+  
+  return defaultEmbedder;
+}
+
+// Vectors are normalized on creation, so the dot product is the cosine
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+export function serializeEmbedding(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function deserializeEmbedding(buffer: Buffer): Float32Array {
+  // Copy so the vector does not alias SQLite's buffer
+  const copy = new Uint8Array(buffer);
+  return new Float32Array(copy.buffer, 0, copy.byteLength / 4);
+}
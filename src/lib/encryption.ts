@@ -0,0 +1,431 @@
+/**
+ * Encryption - Envelope encryption of memory DBs at rest
+ *
+ * Each memory DB holds its own data key, stored in the DB wrapped
+ * (AES-256-GCM) by a master key from MEMORY_MASTER_KEYS. Memory content,
+ * metadata and embeddings, revision history included, are stored encrypted
+ * under the data key. Writers encode values with getEncoder(); reads decrypt
+ * in SQL through decrypt_text() and decrypt_blob(), which are registered on
+ * every handle and pass plaintext DBs through unchanged.
+ *
+ * Full-text search runs over blind tokens: each word is replaced by a keyed
+ * hash before it is indexed or queried, so the FTS index matches words and
+ * phrases without holding them. A keyed hash does not preserve prefixes, so
+ * on encrypted DBs prefix queries match whole words only.
+ *
+ * Once MEMORY_MASTER_KEYS is set, plaintext DBs are encrypted as they are
+ * next opened. Rotation:
+ *   master key - prepend the new key to MEMORY_MASTER_KEYS and keep the old
+ *                ones until every DB has been opened; data keys are rewrapped
+ *                under the first key on open
+ *   data key   - rotateDataKey() re-encrypts a DB under a fresh data key
+ */
+
+import * as crypto from 'crypto';
+import type Database from 'better-sqlite3';
+import { serializeEmbedding } from './embeddings';
+import { mapQuery, tokenize, type ParsedQuery } from './fts-query';
+import type { EncryptionStatus, RotateKeyResponse } from './types';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// Hex characters kept of each blind token's HMAC (80 bits)
+const BLIND_TOKEN_LENGTH = 20;
+
+const MASTER_KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+export interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+// MEMORY_MASTER_KEYS: comma-separated "<id>:<base64 of 32 bytes>", newest
+// first. The first key wraps data keys; the others are only read during a
+// rotation. Returns null when encryption at rest is off.
+export function parseMasterKeys(value: string | undefined = process.env.MEMORY_MASTER_KEYS): MasterKey[] | null {
+  if (!value?.trim()) {
+    return null;
+  }
+  
+  return value.split(',').map(entry => {
+    const [id, encoded = ''] = entry.trim().split(':');
+    const key = Buffer.from(encoded, 'base64');
+    if (!MASTER_KEY_ID_PATTERN.test(id) || key.length !== KEY_BYTES) {
+      throw new Error('MEMORY_MASTER_KEYS entries must be "<id>:<base64 of 32 bytes>"');
+    }
+    return { id, key };
+  });
+}
+
+// iv | auth tag | ciphertext. The AAD binds the result to what it belongs
+// to (a key id), so it cannot be moved under another one.
+function seal(key: Buffer, plaintext: Buffer, aad: string): Buffer {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function unseal(key: Buffer, sealed: Buffer, aad: string): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, sealed.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+interface DataKey {
+  id: string;
+  // Derived from the data key, so encryption and blind tokens never share a key
+  content: Buffer;
+  search: Buffer;
+}
+
+function toDataKey(id: string, material: Buffer): DataKey {
+  const derive = (purpose: string) => Buffer.from(crypto.hkdfSync('sha256', material, Buffer.alloc(0), purpose, KEY_BYTES));
+  return { id, content: derive('content'), search: derive('search') };
+}
+
+// Encrypts with the DB's active data key; decrypts with any key the DB holds.
+// Stored values look like "enc:<data key id>:<base64 of the sealed bytes>".
+export class DataCipher {
+  private keys: Map<string, DataKey>;
+  private active: DataKey;
+  
+  constructor(keys: DataKey[], activeId: string) {
+    this.keys = new Map(keys.map(key => [key.id, key]));
+    this.active = this.keys.get(activeId)!;
+  }
+  
+  get keyId(): string {
+    return this.active.id;
+  }
+  
+  // Prefix of every value encrypted under the active key
+  get prefix(): string {
+    return `enc:${this.active.id}:`;
+  }
+  
+  encrypt(plaintext: Buffer): string {
+    return this.prefix + seal(this.active.content, plaintext, this.active.id).toString('base64');
+  }
+  
+  decrypt(value: string): Buffer {
+    const match = /^enc:([^:]+):(.*)$/s.exec(value);
+    const key = match ? this.keys.get(match[1]) : undefined;
+    if (!match || !key) {
+      throw new Error('Value is not encrypted with a data key of this DB');
+    }
+    return unseal(key.content, Buffer.from(match[2], 'base64'), key.id);
+  }
+  
+  // Keyed hash of a word, folded like FTS5's unicode61 tokenizer folds it
+  blindToken(word: string): string {
+    const folded = word.normalize('NFKD').replace(/\p{M}/gu, '');
+    return crypto.createHmac('sha256', this.active.search).update(folded).digest('hex').slice(0, BLIND_TOKEN_LENGTH);
+  }
+  
+  // Keyed hash of a whole value, for equality lookups
+  fingerprint(value: string): string {
+    return crypto.createHmac('sha256', this.active.search).update(`fingerprint:${value}`).digest('hex');
+  }
+  
+  // Keyed hash of a request under the given data key (the active one if the
+  // DB does not hold it), prefixed with that key's id
+  requestFingerprint(value: string, keyId: string = this.active.id): string {
+    const key = this.keys.get(keyId) ?? this.active;
+    return `${key.id}:${crypto.createHmac('sha256', key.search).update(`request:${value}`).digest('hex')}`;
+  }
+}
+
+// Column values as a memory DB stores them: encrypted if the DB is, as-is otherwise
+export interface FieldEncoder {
+  text(value: string): string;
+  json(value: Record<string, unknown> | null | undefined): string | null;
+  embedding(value: Float32Array | null): Buffer | string | null;
+  // What the FTS index holds for content (search_tokens); null indexes the content itself
+  searchTokens(content: string): string | null;
+  // FTS MATCH expression for a query against this DB's index
+  match(parsed: ParsedQuery): string | null;
+  // Hash for equality lookups (content_hash), keyed if the DB is encrypted
+  fingerprint(value: string): string;
+  // Hash of a request (idempotency keys), keyed if the DB is encrypted. It
+  // names the key it was made with, so passing an earlier one as `recorded`
+  // recomputes it the same way after a rotation or once the DB is encrypted.
+  requestFingerprint(value: string, recorded?: string): string;
+}
+
+const SHA256_PREFIX = 'sha256:';
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+const PLAINTEXT_ENCODER: FieldEncoder = {
+  text: value => value,
+  json: value => value ? JSON.stringify(value) : null,
+  embedding: value => value ? serializeEmbedding(value) : null,
+  searchTokens: () => null,
+  match: parsed => parsed.match,
+  fingerprint: sha256,
+  requestFingerprint: value => SHA256_PREFIX + sha256(value)
+};
+
+function encryptingEncoder(cipher: DataCipher): FieldEncoder {
+  const encrypt = (value: string) => cipher.encrypt(Buffer.from(value, 'utf8'));
+  const blind = (word: string) => cipher.blindToken(word);
+  
+  return {
+    text: encrypt,
+    json: value => value ? encrypt(JSON.stringify(value)) : null,
+    embedding: value => value ? cipher.encrypt(serializeEmbedding(value)) : null,
+    searchTokens: content => tokenize(content).map(blind).join(' '),
+    match: parsed => mapQuery(parsed, blind),
+    fingerprint: value => cipher.fingerprint(value),
+    requestFingerprint: (value, recorded) => recorded?.startsWith(SHA256_PREFIX)
+      ? SHA256_PREFIX + sha256(value)
+      : cipher.requestFingerprint(value, recorded?.split(':')[0])
+  };
+}
+
+interface KeyRow {
+  id: string;
+  wrapped_key: string;
+  master_key_id: string;
+  created_at: string;
+  retired_at: string | null;
+}
+
+interface HandleState {
+  masterKeys: MasterKey[] | null;
+  cipher: DataCipher | null;
+  encoder: FieldEncoder;
+  // PRAGMA data_version when the keys were last read, to notice rotations
+  // committed by other connections
+  dataVersion: number;
+}
+
+const handles = new WeakMap<Database.Database, HandleState>();
+
+function readKeys(db: Database.Database): KeyRow[] {
+  return db.prepare(`
+    SELECT id, wrapped_key, master_key_id, created_at, retired_at FROM encryption_keys
+    ORDER BY created_at, id
+  `).all() as KeyRow[];
+}
+
+function unwrapKey(row: KeyRow, masterKeys: MasterKey[]): Buffer {
+  const master = masterKeys.find(key => key.id === row.master_key_id);
+  if (!master) {
+    throw new Error(`Data key ${row.id} is wrapped by master key "${row.master_key_id}", which is not in MEMORY_MASTER_KEYS`);
+  }
+  return unseal(master.key, Buffer.from(row.wrapped_key, 'base64'), row.id);
+}
+
+// Cipher over all of a DB's data keys; null if it has none (a plaintext DB)
+function loadCipher(db: Database.Database, masterKeys: MasterKey[]): DataCipher | null {
+  const rows = readKeys(db);
+  if (rows.length === 0) {
+    return null;
+  }
+  
+  const active = rows.find(row => !row.retired_at) ?? rows[rows.length - 1];
+  return new DataCipher(rows.map(row => toDataKey(row.id, unwrapKey(row, masterKeys))), active.id);
+}
+
+// Add a data key wrapped by the newest master key and retire the others
+function createDataKey(db: Database.Database, master: MasterKey): void {
+  const id = crypto.randomBytes(6).toString('hex');
+  const now = new Date().toISOString();
+  
+  db.prepare('UPDATE encryption_keys SET retired_at = ? WHERE retired_at IS NULL').run(now);
+  db.prepare(`
+    INSERT INTO encryption_keys (id, wrapped_key, master_key_id, created_at)
+    VALUES (?, ?, ?, ?)
+  `).run(id, seal(master.key, crypto.randomBytes(KEY_BYTES), id).toString('base64'), master.id, now);
+}
+
+// Rewrite every memory and revision not yet under the active data key:
+// plaintext rows when a DB is first encrypted, rows under retired keys after
+// a rotation. Run inside a write transaction.
+function reencrypt(
+  db: Database.Database,
+  cipher: DataCipher,
+  fromPlaintext: boolean
+): RotateKeyResponse['reencrypted'] {
+  const encoder = encryptingEncoder(cipher);
+  const read = (value: string | Buffer): Buffer => fromPlaintext ? Buffer.from(value) : cipher.decrypt(value as string);
+  const prefix = cipher.prefix;
+  
+  const memories = db.prepare(`
+    SELECT id, content, metadata, embedding, change_seq FROM memories
+    WHERE substr(content, 1, ?) != ?
+  `).all(prefix.length, prefix) as {
+    id: string;
+    content: string;
+    metadata: string | null;
+    embedding: Buffer | string | null;
+    change_seq: number;
+  }[];
+  const updateMemory = db.prepare('UPDATE memories SET content = ?, search_tokens = ?, metadata = ?, embedding = ? WHERE id = ?');
+  // Re-encrypting is not a change: keep the row's place in the sync feed
+  const restoreSeq = db.prepare('UPDATE memories SET change_seq = ? WHERE id = ?');
+  
+  for (const row of memories) {
+    const content = read(row.content).toString('utf8');
+    updateMemory.run(
+      encoder.text(content),
+      encoder.searchTokens(content),
+      row.metadata === null ? null : cipher.encrypt(read(row.metadata)),
+      row.embedding === null ? null : cipher.encrypt(read(row.embedding)),
+      row.id
+    );
+    restoreSeq.run(row.change_seq, row.id);
+  }
+  
+  // FTS5 only marks replaced entries deleted; merging the index drops them
+  db.exec(`INSERT INTO memories_fts(memories_fts) VALUES('optimize')`);
+  
+  const revisions = db.prepare(`
+    SELECT id, content, metadata FROM memory_revisions
+    WHERE substr(content, 1, ?) != ?
+  `).all(prefix.length, prefix) as { id: string; content: string; metadata: string | null }[];
+  const updateRevision = db.prepare('UPDATE memory_revisions SET content = ?, metadata = ? WHERE id = ?');
+  
+  for (const row of revisions) {
+    updateRevision.run(
+      cipher.encrypt(read(row.content)),
+      row.metadata === null ? null : cipher.encrypt(read(row.metadata)),
+      row.id
+    );
+  }
+  
+  return { memories: memories.length, revisions: revisions.length };
+}
+
+function setCipher(db: Database.Database, state: HandleState, cipher: DataCipher | null): void {
+  state.cipher = cipher;
+  state.encoder = cipher ? encryptingEncoder(cipher) : PLAINTEXT_ENCODER;
+  state.dataVersion = db.pragma('data_version', { simple: true }) as number;
+}
+
+// Set up a newly opened handle: register the SQL functions reads decrypt
+// through and load the DB's data keys. With master keys configured, a
+// plaintext DB is encrypted and data keys wrapped by an older master key are
+// rewrapped. Throws if the DB is encrypted and its keys cannot be unwrapped.
+export function attachEncryption(db: Database.Database, masterKeys: MasterKey[] | null = parseMasterKeys()): void {
+  const state: HandleState = { masterKeys, cipher: null, encoder: PLAINTEXT_ENCODER, dataVersion: 0 };
+  handles.set(db, state);
+  
+  db.function('decrypt_text', (value: unknown) =>
+    state.cipher && typeof value === 'string' ? state.cipher.decrypt(value).toString('utf8') : value
+  );
+  db.function('decrypt_blob', (value: unknown) =>
+    state.cipher && typeof value === 'string' ? state.cipher.decrypt(value) : value
+  );
+  
+  const rows = readKeys(db);
+  if (!masterKeys) {
+    if (rows.length > 0) {
+      throw new Error('Memory DB is encrypted but MEMORY_MASTER_KEYS is not set');
+    }
+    return;
+  }
+  
+  // Deleted content is zeroed rather than left readable in free pages
+  db.pragma('secure_delete = ON');
+  
+  const [current] = masterKeys;
+  if (rows.length > 0 && rows.every(row => row.master_key_id === current.id)) {
+    setCipher(db, state, loadCipher(db, masterKeys));
+    return;
+  }
+  
+  const encryptedExisting = db.transaction(() => {
+    // Another connection may have done this while we waited for the lock
+    const existing = readKeys(db);
+    for (const row of existing) {
+      if (row.master_key_id !== current.id) {
+        db.prepare('UPDATE encryption_keys SET wrapped_key = ?, master_key_id = ? WHERE id = ?')
+          .run(seal(current.key, unwrapKey(row, masterKeys), row.id).toString('base64'), current.id, row.id);
+      }
+    }
+    if (existing.length > 0) {
+      return false;
+    }
+    
+    createDataKey(db, current);
+    reencrypt(db, loadCipher(db, masterKeys)!, true);
+    return true;
+  }).immediate();
+  
+  setCipher(db, state, loadCipher(db, masterKeys));
+  
+  if (encryptedExisting) {
+    // Drop the plaintext still sitting in free pages and the WAL
+    try {
+      db.exec('VACUUM');
+      db.pragma('wal_checkpoint(TRUNCATE)');
+    } catch (error) {
+      console.error('Compacting newly encrypted memory DB failed:', error);
+    }
+  }
+}
+
+// Pick up a data key rotation committed by another connection since this
+// handle last read its keys. Call when leasing a long-lived handle.
+export function refreshEncryption(db: Database.Database): void {
+  const state = handles.get(db);
+  if (!state?.cipher || !state.masterKeys) {
+    return;
+  }
+  
+  const dataVersion = db.pragma('data_version', { simple: true }) as number;
+  if (dataVersion === state.dataVersion) {
+    return;
+  }
+  state.dataVersion = dataVersion;
+  
+  const active = db.prepare('SELECT id FROM encryption_keys WHERE retired_at IS NULL').get() as { id: string } | undefined;
+  if (active && active.id !== state.cipher.keyId) {
+    setCipher(db, state, loadCipher(db, state.masterKeys));
+  }
+}
+
+export function getEncoder(db: Database.Database): FieldEncoder {
+  return handles.get(db)?.encoder ?? PLAINTEXT_ENCODER;
+}
+
+export function encryptionStatus(db: Database.Database): EncryptionStatus {
+  const cipher = handles.get(db)?.cipher;
+  if (!cipher) {
+    return { enabled: false, key_id: null, key_created_at: null };
+  }
+  
+  const row = db.prepare('SELECT created_at FROM encryption_keys WHERE id = ?').get(cipher.keyId) as { created_at: string };
+  return { enabled: true, key_id: cipher.keyId, key_created_at: row.created_at };
+}
+
+// Re-encrypt a DB under a fresh data key. Retired keys stay in the DB, so
+// rows another process wrote with one before noticing the rotation remain
+// readable (and move to the new key on the next rotation). Returns null if
+// the DB is not encrypted.
+export function rotateDataKey(db: Database.Database): Omit<RotateKeyResponse, 'took_ms'> | null {
+  const state = handles.get(db);
+  if (!state?.cipher || !state.masterKeys) {
+    return null;
+  }
+  
+  const masterKeys = state.masterKeys;
+  const { cipher, reencrypted } = db.transaction(() => {
+    createDataKey(db, masterKeys[0]);
+    const cipher = loadCipher(db, masterKeys)!;
+    return { cipher, reencrypted: reencrypt(db, cipher, false) };
+  }).immediate();
+  
+  setCipher(db, state, cipher);
+  return { key_id: cipher.keyId, reencrypted };
+}
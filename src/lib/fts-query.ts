@@ -0,0 +1,100 @@
+/**
+ * FTS Query - Turn free-form recall queries into safe FTS5 MATCH expressions
+ *
+ * User queries are never passed to MATCH verbatim: FTS5 treats quotes,
+ * operators (AND/OR/NOT/NEAR), parentheses, "*", "^" and column filters as
+ * syntax, so inputs like `don't`, `C++` or `foo AND` are syntax errors.
+ *
+ * Supported syntax:
+ *   "exact phrase"   words must appear next to each other
+ *   deploy*          prefix match
+ * Everything else is split into words the same way the unicode61 tokenizer
+ * does, and terms are OR-ed so bm25() ranks memories matching more of them
+ * higher.
+ */
+
+export interface QueryTerm {
+  text: string;
+  phrase: boolean;
+  prefix: boolean;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  // MATCH expression, or null when the query has nothing searchable
+  match: string | null;
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Split text into lowercase word tokens (mirrors FTS5's unicode61 tokenizer)
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) || [];
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function termToMatch(term: QueryTerm): string {
+  return quote(term.text) + (term.prefix ? '*' : '');
+}
+
+// MATCH expression for an index that stores each word transformed by
+// mapWord (blind tokens, see encryption.ts). The transform does not preserve
+// prefixes, so prefix terms only match whole words.
+export function mapQuery(parsed: ParsedQuery, mapWord: (word: string) => string): string | null {
+  if (parsed.terms.length === 0) {
+    return null;
+  }
+  
+  const matches = new Set(parsed.terms.map(term => quote(term.text.split(' ').map(mapWord).join(' '))));
+  return [...matches].join(' OR ');
+}
+
+export function parseQuery(input: string): ParsedQuery {
+  const terms: QueryTerm[] = [];
+  const seen = new Set<string>();
+  
+  const addTerm = (term: QueryTerm) => {
+    const key = termToMatch(term);
+    if (!seen.has(key)) {
+      seen.add(key);
+      terms.push(term);
+    }
+  };
+  
+  // Quoted phrases first; an unbalanced quote is treated as plain text
+  const phrasePattern = /"([^"]*)"/g;
+  let rest = '';
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  
+  while ((match = phrasePattern.exec(input)) !== null) {
+    rest += input.slice(lastIndex, match.index) + ' ';
+    lastIndex = phrasePattern.lastIndex;
+    
+    const words = tokenize(match[1]);
+    if (words.length > 1) {
+      addTerm({ text: words.join(' '), phrase: true, prefix: false });
+    } else if (words.length === 1) {
+      addTerm({ text: words[0], phrase: false, prefix: false });
+    }
+  }
+  rest += input.slice(lastIndex);
+  
+  // Remaining words; a trailing "*" right after a word makes it a prefix term
+  for (const chunk of rest.split(/\s+/)) {
+    const words = tokenize(chunk);
+    const prefix = /[\p{L}\p{N}]\*+$/u.test(chunk);
+    
+    words.forEach((word, i) => {
+      addTerm({ text: word, phrase: false, prefix: prefix && i === words.length - 1 });
+    });
+  }
+  
+  return {
+    terms,
+    match: terms.length > 0 ? terms.map(termToMatch).join(' OR ') : null
+  };
+}
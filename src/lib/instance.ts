@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { AuthContext } from './auth';
+import { getMemoryService, hasMemoryStorage, MemoryService } from './memory';
+import { getMemoryInstance, listMemoryInstances, DEFAULT_INSTANCE_NAME } from './supabase';
+import { STORAGE_QUOTAS } from './types';
+import type { ApiError, MemoryInstance, StorageQuotaStatus } from './types';
+
+// Header used to pick a named memory instance on /api/v1/memory/* routes
+export const INSTANCE_HEADER = 'X-Memory-Instance';
+
+const INSTANCE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+
+export function isValidInstanceName(name: string): boolean {
+  return INSTANCE_NAME_PATTERN.test(name);
+}
+
+// Resolve the memory instance selected by the request (default if none)
+export async function resolveMemoryService(
+  request: NextRequest,
+  auth: AuthContext
+): Promise<{ memory: MemoryService; instance: MemoryInstance } | { error: NextResponse<ApiError> }> {
+  const name = request.headers.get(INSTANCE_HEADER)?.trim() || DEFAULT_INSTANCE_NAME;
+  
+  if (!isValidInstanceName(name)) {
+    return {
+      error: NextResponse.json(
+        {
+          error: `Invalid ${INSTANCE_HEADER} header. Use 1-63 lowercase letters, digits, "-" or "_"`,
+          code: 'VALIDATION_ERROR'
+        },
+        { status: 400 }
+      )
+    };
+  }
+  
+  const instance = await getMemoryInstance(auth.userId, name);
+  
+  if (!instance) {
+    return {
+      error: NextResponse.json(
+        { error: `Memory instance "${name}" not found`, code: 'NOT_FOUND' },
+        { status: 404 }
+      )
+    };
+  }
+  
+  return { memory: getMemoryService(instance), instance };
+}
+
+// Storage used by all of the account's instances against its tier's quota
+export async function getStorageQuota(auth: AuthContext): Promise<StorageQuotaStatus> {
+  let used = 0;
+  for (const instance of await listMemoryInstances(auth.userId)) {
+    if (hasMemoryStorage(instance)) {
+      used += await getMemoryService(instance).storageBytes();
+    }
+  }
+  
+  return { limit_bytes: STORAGE_QUOTAS[auth.tier], used_bytes: used };
+}
+
+// Reject a write of about the size of `incoming` (its JSON) that would take
+// the account over its storage quota. Stored rows also carry indexes, so the
+// estimate is low, and concurrent writes can each pass the check: the quota
+// is a soft limit that stops growth soon after it is reached.
+export async function checkStorageQuota(
+  auth: AuthContext,
+  incoming: unknown
+): Promise<NextResponse<ApiError> | null> {
+  return checkStorageBytes(auth, Buffer.byteLength(JSON.stringify(incoming)));
+}
+
+// Reject adding `requested` bytes that would take the account over its quota
+export async function checkStorageBytes(
+  auth: AuthContext,
+  requested: number
+): Promise<NextResponse<ApiError> | null> {
+  if (STORAGE_QUOTAS[auth.tier] === null) {
+    return null;
+  }
+  
+  const { limit_bytes, used_bytes } = await getStorageQuota(auth);
+  if (used_bytes + requested <= limit_bytes!) {
+    return null;
+  }
+  
+  return NextResponse.json(
+    {
+      error: `Storage quota exceeded for ${auth.tier} tier`,
+      code: 'QUOTA_EXCEEDED',
+      details: { tier: auth.tier, limit_bytes, used_bytes, requested_bytes: requested }
+    },
+    { status: 403 }
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * Memory Events - Change feed of a memory instance
+ *
+ * MemoryService appends events to the instance's memory_events table in the
+ * same transaction as the change, so the log is the source of truth and a
+ * stream can resume from any event id still in it. Subscribers in the same
+ * process are woken as soon as a change is written; changes made by other
+ * processes are picked up by polling the log.
+ */
+
+import { EventEmitter } from 'events';
+import type { MemoryEvent, MemoryEventType } from './types';
+
+// Events kept per instance; older ones are pruned as new ones are written
+export const MAX_EVENT_LOG = 10000;
+
+export interface PendingEvent {
+  type: MemoryEventType;
+  memory_ids: string[];
+  data?: Record<string, unknown>;
+}
+
+// Keep the emitter across dev-server module reloads, like the DB pool
+const globalForEvents = globalThis as unknown as { memoryEvents?: EventEmitter };
+const emitter = globalForEvents.memoryEvents ??= new EventEmitter().setMaxListeners(0);
+
+// Call listener whenever events are written to the instance DB. Returns an
+// unsubscribe function.
+export function subscribeToEvents(dbPath: string, listener: () => void): () => void {
+  emitter.on(dbPath, listener);
+  return () => {
+    emitter.off(dbPath, listener);
+  };
+}
+
+// Wake subscribers. Deferred so they read the log after the writing
+// transaction has committed.
+export function notifyEvents(dbPath: string): void {
+  setImmediate(() => emitter.emit(dbPath));
+}
+
+// Server-Sent Events frame; the event id lets clients resume via Last-Event-ID
+export function formatSseEvent(event: MemoryEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
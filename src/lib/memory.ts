@@ -8,15 +8,91 @@
 import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
+import { findDuplicateClusters, findRelatedClusters, mergeMetadata, normalizeContent } from './consolidation';
+import { getEmbedder, deserializeEmbedding, type Embedder } from './embeddings';
+import type { Summarizer } from './summarizer';
+import { getVectorIndex, invalidateVectorIndex } from './vector-index';
+import { ConnectionPool, type PoolStats } from './db-pool';
+import { migrate, SCHEMA_VERSION } from './migrations';
+import { parseQuery, type ParsedQuery } from './fts-query';
+import { scoreCandidates, getScoringWeights, type ScoringWeights } from './scoring';
+import { serializeRecord, ARCHIVE_FORMAT, ARCHIVE_FORMAT_VERSION } from './portability';
+import { compileFilters, hasFilters, type SqlCondition } from './recall-filters';
+import { encodeCursor, type ListCursor } from './pagination';
+import { effectivePolicy, planRetention, retentionHorizonDays, type RetentionCandidate, type RetentionPlan } from './retention';
+import { MAX_EVENT_LOG, notifyEvents, subscribeToEvents, type PendingEvent } from './memory-events';
+import { compareSyncVersions } from './sync';
+import { computeActivation, getActivationParams, MAX_LOGGED_ACCESSES, type ActivationParams, type Clock } from './activation';
+import { MAX_CONTENT_LENGTH } from './validation';
+import { attachEncryption, encryptionStatus, getEncoder, refreshEncryption, rotateDataKey } from './encryption';
+import { claimTenant, resolveDbPath, verifyTenant } from './storage';
+import { manualSnapshotBytes, newSnapshotId, planSnapshotPruning, readSnapshot, readSnapshots, removeSnapshot, snapshotFile, writeSnapshotDescriptor } from './snapshots';
+import { MAX_EXPAND_HOPS, SNAPSHOT_POLICY, SYSTEM_ACTOR } from './types';
 import type {
   Memory,
   MemoryType,
+  MemoryInstance,
   RecallResponse,
+  StoreRequest,
   StoreResponse,
+  RelatedMemory,
+  RecallFilters,
+  MemoryLink,
+  MemoryRevision,
+  MemoryEvent,
+  SyncVersion,
+  SyncChange,
+  SyncPullResponse,
+  SyncPushChange,
+  SyncPushResult,
+  SyncPushResponse,
+  MemorySortField,
+  SortOrder,
+  ListMemoriesResponse,
+  RetentionPolicy,
   ConsolidateResponse,
-  StatsResponse
+  StatsResponse,
+  UpdateMemoryRequest,
+  ImportMode,
+  ImportConflictStrategy,
+  ImportStats,
+  RotateKeyResponse,
+  StorageQuotaStatus,
+  RecalledMemory,
+  RecallExplanation,
+  KeywordSearchPath,
+  Snapshot,
+  SnapshotReason,
+  RestoreSnapshotResponse
 } from './types';
 
+export interface RecallOptions {
+  // Per-request overrides of the relevance weights
+  weights?: Partial<ScoringWeights>;
+  // Follow links from the hits this many hops (0 = off)
+  expandHops?: number;
+  filters?: RecallFilters;
+  // Explain the ranking (see RecallExplanation)
+  explain?: boolean;
+}
+
+export interface ConsolidateOptions {
+  // Summarize related episodic memories with this summarizer (off when absent)
+  summarizer?: Summarizer | null;
+}
+
+export interface RecallQuery extends RecallOptions {
+  query: string;
+  limit?: number;
+  types?: MemoryType[];
+}
+
+export interface RecallResult {
+  results: RecalledMemory[];
+  related?: RelatedMemory[];
+  explain?: RecallExplanation;
+}
+
 interface MemoryRow {
   id: string;
   content: string;
@@ -26,12 +102,182 @@ interface MemoryRow {
   created_at: string;
   last_accessed: string | null;
   metadata: string | null;
+  pinned: number;
+  version: number;
+  origin: string;
+  updated_at: string;
+  access_count: number;
+}
+
+// Columns that make up a Memory (excludes embedding blobs), decrypted if
+// the DB is encrypted (see encryption.ts)
+const MEMORY_COLUMNS = 'm.id, decrypt_text(m.content) as content, m.type, m.importance, m.activation, m.created_at, m.last_accessed, decrypt_text(m.metadata) as metadata, m.pinned, m.version, m.origin, m.updated_at, m.access_count';
+
+// Importance a memory gains each time the same content is stored again (dedupe)
+export const DEDUPE_IMPORTANCE_BOOST = 0.1;
+
+// How long the results of a store made with an Idempotency-Key are replayed
+export const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Link relation from a summary to each episodic memory it covers
+export const SUMMARY_RELATION = 'summarizes';
+// Related episodes needed for a summary, and the most passed in one
+export const MIN_SUMMARY_EPISODES = 3;
+export const MAX_SUMMARY_EPISODES = 20;
+// Summarized episodes keep this share of their importance
+export const SUMMARIZED_IMPORTANCE_FACTOR = 0.5;
+
+// Hybrid recall tuning
+const CANDIDATE_MULTIPLIER = 3;
+const MIN_VECTOR_SIMILARITY = 0.2;
+const EMBEDDING_BACKFILL_BATCH = 64;
+
+// Rows read per query while exporting
+const EXPORT_CHUNK_SIZE = 500;
+
+const RETENTION_SETTING = 'retention_policy';
+
+function readRetentionPolicy(db: Database.Database): RetentionPolicy | null {
+  const row = db.prepare('SELECT value FROM settings WHERE key = ?').get(RETENTION_SETTING) as { value: string } | undefined;
+  return row ? JSON.parse(row.value) : null;
+}
+
+// Keyset columns for listing; never-accessed memories sort as '' (first when ascending)
+const SORT_KEYS: Record<MemorySortField, string> = {
+  created_at: 'm.created_at',
+  activation: 'm.activation',
+  importance: 'm.importance',
+  last_accessed: "COALESCE(m.last_accessed, '')"
+};
+
+// Fields of an update, as reported on "updated" events
+const UPDATABLE_FIELDS = ['content', 'type', 'importance', 'metadata', 'pinned'] as const;
+
+// Spreading activation over memory links: each hop passes on
+// parent spread * link weight * SPREAD_DECAY; weaker spread is dropped
+const SPREAD_DECAY = 0.5;
+const MIN_SPREAD = 0.05;
+
+function rowToMemory(row: MemoryRow): Memory {
+  return {
+    id: row.id,
+    content: row.content,
+    type: row.type as MemoryType,
+    importance: row.importance,
+    activation: row.activation,
+    created_at: row.created_at,
+    last_accessed: row.last_accessed || undefined,
+    metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+    pinned: row.pinned === 1,
+    version: row.version,
+    origin: row.origin,
+    updated_at: row.updated_at
+  };
+}
+
+interface RevisionRow {
+  id: string;
+  memory_id: string;
+  revision: number;
+  content: string;
+  type: string;
+  importance: number;
+  metadata: string | null;
+  actor: string;
+  reason: string;
+  created_at: string;
+}
+
+const REVISION_COLUMNS = 'id, memory_id, revision, content, type, importance, metadata, actor, reason, created_at';
+
+// REVISION_COLUMNS for reading, decrypted
+const REVISION_SELECT = 'id, memory_id, revision, decrypt_text(content) as content, type, importance, decrypt_text(metadata) as metadata, actor, reason, created_at';
+
+function rowToRevision(row: RevisionRow): MemoryRevision {
+  return {
+    ...row,
+    type: row.type as MemoryType,
+    metadata: row.metadata ? JSON.parse(row.metadata) : undefined
+  };
+}
+
+// Snapshot a memory's current state (as stored, so still encrypted) as its
+// next revision. Run with (revision id, actor, reason, created_at, memory id).
+function prepareRevisionInsert(db: Database.Database): Database.Statement {
+  return db.prepare(`
+    INSERT INTO memory_revisions (${REVISION_COLUMNS})
+    SELECT ?, m.id,
+      (SELECT COALESCE(MAX(r.revision), 0) + 1 FROM memory_revisions r WHERE r.memory_id = m.id),
+      m.content, m.type, m.importance, m.metadata, ?, ?, ?
+    FROM memories m WHERE m.id = ?
+  `);
+}
+
+// Logged accesses per memory (see activation.ts), of the given memories or all
+function loggedAccesses(db: Database.Database, ids?: string[]): Map<string, string[]> {
+  const rows = (ids
+    ? db.prepare(`
+        SELECT memory_id, accessed_at FROM memory_accesses
+        WHERE memory_id IN (${ids.map(() => '?').join(',')})
+      `).all(...ids)
+    : db.prepare('SELECT memory_id, accessed_at FROM memory_accesses').all()
+  ) as { memory_id: string; accessed_at: string }[];
+  
+  const byMemory = new Map<string, string[]>();
+  for (const row of rows) {
+    const accesses = byMemory.get(row.memory_id) || [];
+    accesses.push(row.accessed_at);
+    byMemory.set(row.memory_id, accesses);
+  }
+  return byMemory;
+}
+
+// Record an access to a memory, keeping only the most recent ones in the log.
+// Run with (memory id, accessed_at).
+function prepareAccessLog(db: Database.Database): (id: string, accessedAt: string) => void {
+  const insertStmt = db.prepare('INSERT INTO memory_accesses (memory_id, accessed_at) VALUES (?, ?)');
+  const countStmt = db.prepare('UPDATE memories SET access_count = access_count + 1 WHERE id = ?');
+  const trimStmt = db.prepare(`
+    DELETE FROM memory_accesses WHERE memory_id = ? AND rowid NOT IN (
+      SELECT rowid FROM memory_accesses WHERE memory_id = ? ORDER BY accessed_at DESC LIMIT ${MAX_LOGGED_ACCESSES}
+    )
+  `);
+  
+  return (id, accessedAt) => {
+    insertStmt.run(id, accessedAt);
+    countStmt.run(id);
+    trimStmt.run(id, id);
+  };
+}
+
+// The fields history tracks; pinning and activation changes are not revisions
+function trackedState(row: MemoryRow): string {
+  return JSON.stringify([row.content, row.type, row.importance, row.metadata]);
+}
+
+// The fields sync replicates (see sync.ts); activation and access times stay local
+function syncedState(row: MemoryRow): string {
+  return JSON.stringify([row.content, row.type, row.importance, row.metadata, row.pinned]);
 }
 
-// Get storage path for user's memory DB
-function getDbPath(userId: string): string {
-  const basePath = process.env.MEMORY_STORAGE_PATH || '/tmp/botcorebot-memory';
-  return path.join(basePath, userId, 'engram.db');
+// Rows of a query ordered by a unique key, read a chunk at a time. The query
+// takes the key of the last row read (then the chunk size) and returns the
+// rows after it, so no statement stays open between chunks and the handle
+// remains free for other requests.
+function* readInChunks<T>(
+  stmt: Database.Statement,
+  keyOf: (row: T) => (string | number)[],
+  start: (string | number)[]
+): Generator<T> {
+  let key = start;
+  for (;;) {
+    const rows = stmt.all(...key, EXPORT_CHUNK_SIZE) as T[];
+    yield* rows;
+    if (rows.length < EXPORT_CHUNK_SIZE) {
+      return;
+    }
+    key = keyOf(rows[rows.length - 1]);
+  }
 }
 
 // Ensure directory exists
@@ -40,212 +286,1492 @@ function ensureDir(filePath: string): void {
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
-}
-
-function getDb(userId: string): Database.Database {
-  const dbPath = getDbPath(userId);
-  ensureDir(dbPath);
+}
+
+// Open a DB file and prepare it for use. Runs once per pooled handle.
+function openDb(dbPath: string): Database.Database {
+  ensureDir(dbPath);
+  
+  const db = new Database(dbPath);
+  
+  // WAL lets recalls read while another request writes
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = NORMAL');
+  db.pragma('busy_timeout = 5000');
+  
+  try {
+    // Bring the schema up to date (see migrations.ts)
+    migrate(db);
+    attachEncryption(db);
+  } catch (error) {
+    db.close();
+    throw error;
+  }
+  
+  return db;
+}
+
+// Keyword candidates: FTS5 match ranked by bm25(), or a LIKE scan while the
+// FTS index is empty. bm25 is null for LIKE matches.
+function keywordSearch(
+  db: Database.Database,
+  query: string,
+  parsed: ParsedQuery,
+  limit: number,
+  where: SqlCondition
+): { path: KeywordSearchPath; rows: (MemoryRow & { bm25: number | null })[] } {
+  // Check if FTS table has content
+  const ftsCount = db.prepare('SELECT COUNT(*) as c FROM memories_fts').get() as { c: number };
+  
+  if (ftsCount.c > 0) {
+    // Encrypted DBs index blind tokens, so the query is blinded too
+    const match = getEncoder(db).match(parsed);
+    if (!match) {
+      return { path: 'none', rows: [] };
+    }
+    
+    // Full-text search with type and recall filters
+    const sql = `
+      SELECT ${MEMORY_COLUMNS}, bm25(memories_fts) as bm25
+      FROM memories m
+      JOIN memories_fts ON m.rowid = memories_fts.rowid
+      WHERE memories_fts MATCH ?${where.sql}
+      ORDER BY bm25 LIMIT ?
+    `;
+    
+    return { path: 'fts', rows: db.prepare(sql).all(match, ...where.params, limit) as (MemoryRow & { bm25: number })[] };
+  }
+  
+  // Fallback: LIKE search if FTS is empty
+  const sql = `
+    SELECT ${MEMORY_COLUMNS}, NULL as bm25
+    FROM memories m
+    WHERE decrypt_text(m.content) LIKE ? ESCAPE '\\'${where.sql}
+    ORDER BY m.activation DESC LIMIT ?
+  `;
+  const pattern = `%${query.replace(/[\\%_]/g, '\\$&')}%`;
+  
+  return { path: 'like', rows: db.prepare(sql).all(pattern, ...where.params, limit) as (MemoryRow & { bm25: null })[] };
+}
+
+// Memories reachable from the seeds within `hops` links (in either direction),
+// strongest spread first. Seeds themselves are never returned.
+function spreadActivation(
+  db: Database.Database,
+  seeds: Map<string, number>,
+  hops: number,
+  limit: number
+): RelatedMemory[] {
+  const reached = new Map<string, { spread: number; hops: number; via: RelatedMemory['via'] }>();
+  let frontier = new Map(seeds);
+  
+  for (let hop = 1; hop <= hops && frontier.size > 0; hop++) {
+    const ids = [...frontier.keys()];
+    const placeholders = ids.map(() => '?').join(',');
+    const links = db.prepare(`
+      SELECT id, source_id, target_id, relation, weight FROM memory_links
+      WHERE source_id IN (${placeholders}) OR target_id IN (${placeholders})
+    `).all(...ids, ...ids) as Omit<MemoryLink, 'created_at'>[];
+    
+    const next = new Map<string, number>();
+    for (const link of links) {
+      for (const [from, to] of [[link.source_id, link.target_id], [link.target_id, link.source_id]]) {
+        const parent = frontier.get(from);
+        if (parent === undefined || seeds.has(to)) continue;
+        
+        const spread = parent * link.weight * SPREAD_DECAY;
+        if (spread < MIN_SPREAD || spread <= (reached.get(to)?.spread ?? 0)) continue;
+        
+        reached.set(to, { spread, hops: hop, via: { link_id: link.id, from, relation: link.relation } });
+        next.set(to, spread);
+      }
+    }
+    frontier = next;
+  }
+  
+  const best = [...reached.entries()]
+    .sort((a, b) => b[1].spread - a[1].spread)
+    .slice(0, limit);
+  if (best.length === 0) {
+    return [];
+  }
+  
+  const rows = db.prepare(`
+    SELECT ${MEMORY_COLUMNS} FROM memories m
+    WHERE m.id IN (${best.map(() => '?').join(',')})
+  `).all(...best.map(([id]) => id)) as MemoryRow[];
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+  
+  return best
+    .filter(([id]) => rowsById.has(id))
+    .map(([id, entry]) => ({
+      ...rowToMemory(rowsById.get(id)!),
+      spread: entry.spread,
+      hops: entry.hops,
+      via: entry.via
+    }));
+}
+
+// Shared across hot reloads in dev so handles are not leaked per module instance
+const globalForPool = globalThis as unknown as { memoryDbPool?: ConnectionPool };
+
+const pool = globalForPool.memoryDbPool ??= new ConnectionPool(openDb, {
+  maxSize: parseInt(process.env.DB_POOL_MAX_SIZE || '64'),
+  idleTimeoutMs: parseInt(process.env.DB_POOL_IDLE_TIMEOUT_MS || '300000'),
+  // Vector indexes live only as long as their DB's handle
+  onClose: invalidateVectorIndex
+});
+
+// Lease a pooled handle for a tenant's DB file; pair with releaseDb()
+function getDb(filePath: string, userId: string): Database.Database {
+  const db = pool.acquire(filePath);
+  
+  try {
+    claimTenant(db, userId);
+    // Another process may have rotated the data key since the last lease
+    refreshEncryption(db);
+  } catch (error) {
+    releaseDb(db);
+    throw error;
+  }
+  return db;
+}
+
+function releaseDb(db: Database.Database): void {
+  pool.release(db);
+}
+
+// Cache counters for tuning the pool size and idle timeout
+export function getDbPoolStats(): PoolStats {
+  return pool.stats();
+}
+
+// Bytes in use by a DB: its pages minus the free list, so deleting memories
+// frees quota right away although the file only shrinks on VACUUM
+function usedBytes(db: Database.Database): number {
+  const pageSize = db.pragma('page_size', { simple: true }) as number;
+  const pages = db.pragma('page_count', { simple: true }) as number;
+  const free = db.pragma('freelist_count', { simple: true }) as number;
+  return (pages - free) * pageSize;
+}
+
+// Size of a DB and its WAL on disk
+function fileBytes(dbPath: string): number {
+  return [dbPath, `${dbPath}-wal`]
+    .filter(file => fs.existsSync(file))
+    .reduce((sum, file) => sum + fs.statSync(file).size, 0);
+}
+
+// Where the sync and event counters stood before a restore replaced the DB
+interface ReplacedState {
+  seq: number;
+  eventId: number;
+  memoryIds: string[];
+  // Of memories and tombstones
+  versions: Map<string, number>;
+}
+
+function readReplacedState(db: Database.Database): ReplacedState {
+  const memories = db.prepare('SELECT id, version FROM memories').all() as { id: string; version: number }[];
+  const tombstones = db.prepare('SELECT id, version FROM memory_tombstones').all() as { id: string; version: number }[];
+  
+  return {
+    seq: db.prepare('SELECT seq FROM sync_state').pluck().get() as number,
+    eventId: (db.prepare("SELECT seq FROM sqlite_sequence WHERE name = 'memory_events'").pluck().get() as number | undefined) ?? 0,
+    memoryIds: memories.map(row => row.id),
+    versions: new Map([...tombstones, ...memories].map(row => [row.id, row.version]))
+  };
+}
+
+// Memory Service class
+export class MemoryService {
+  private dbPath: string;
+  private userId: string;
+  private embedder: Embedder | null;
+  private clock: Clock;
+  
+  // dbPath is relative to the storage root and must lie in userId's directory
+  constructor(
+    dbPath: string,
+    userId: string,
+    embedder: Embedder | null = getEmbedder(),
+    clock: Clock = Date.now
+  ) {
+    this.dbPath = resolveDbPath(userId, dbPath);
+    this.userId = userId;
+    this.embedder = embedder;
+    this.clock = clock;
+  }
+  
+  private isoNow(): string {
+    return new Date(this.clock()).toISOString();
+  }
+  
+  async recall(
+    query: string,
+    limit: number = 10,
+    types?: MemoryType[],
+    options: RecallOptions = {}
+  ): Promise<RecallResponse> {
+    const startTime = Date.now();
+    const [result] = await this.recallBatch([{ query, limit, types, ...options }]);
+    
+    return {
+      ...result,
+      took_ms: Date.now() - startTime
+    };
+  }
+  
+  // Several recalls in one SQLite transaction. Query embeddings are computed
+  // up front, since the transaction itself has to be synchronous.
+  async recallBatch(queries: RecallQuery[]): Promise<RecallResult[]> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      if (this.embedder) {
+        await this.backfillEmbeddings(db);
+      }
+      const embeddings = await this.embedMany(queries.map(q => q.query));
+      
+      const now = this.isoNow();
+      return db.transaction(() =>
+        queries.map((q, i) => this.rankAndTouch(db, q, embeddings[i], now))
+      )();
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  // Rank keyword and vector hits for one query and bump the returned memories
+  private rankAndTouch(
+    db: Database.Database,
+    { query, limit = 10, types, weights, expandHops = 0, filters, explain = false }: RecallQuery,
+    queryEmbedding: Float32Array | null,
+    now: string
+  ): RecallResult {
+    const candidateLimit = limit * CANDIDATE_MULTIPLIER;
+    const parsed = parseQuery(query);
+    const where = compileFilters(types, filters);
+    const keyword = keywordSearch(db, query, parsed, candidateLimit, where);
+    const keywordRows = keyword.rows;
+    
+    // The vector index only knows types; other filters narrow it to matching ids
+    const allowedIds = hasFilters(filters)
+      ? new Set((db.prepare(`SELECT m.id FROM memories m WHERE 1 = 1${where.sql}`).all(...where.params) as { id: string }[]).map(row => row.id))
+      : undefined;
+    const indexMatches = this.vectorSearch(db, queryEmbedding, candidateLimit, types, allowedIds);
+    
+    // Vector hits are loaded through the same filters as keyword hits, so a
+    // stale index entry cannot bring back a memory that no longer matches
+    const rowsById = new Map<string, MemoryRow>(keywordRows.map(row => [row.id, row]));
+    const missingIds = indexMatches.map(match => match.id).filter(id => !rowsById.has(id));
+    if (missingIds.length > 0) {
+      const vectorRows = db.prepare(`
+        SELECT ${MEMORY_COLUMNS} FROM memories m
+        WHERE m.id IN (${missingIds.map(() => '?').join(',')})${where.sql}
+      `).all(...missingIds, ...where.params) as MemoryRow[];
+      for (const row of vectorRows) {
+        rowsById.set(row.id, row);
+      }
+    }
+    const vectorMatches = indexMatches.filter(match => rowsById.has(match.id));
+    
+    // Activation as of now, from each memory's access history (pinned
+    // memories keep theirs)
+    const nowMs = Date.parse(now);
+    const params = getActivationParams();
+    const accesses = loggedAccesses(db, [...rowsById.keys()]);
+    const activationOf = (row: MemoryRow, extraAccesses: string[] = []) => computeActivation(
+      {
+        created_at: row.created_at,
+        access_count: row.access_count + extraAccesses.length,
+        accesses: [...(accesses.get(row.id) || []), ...extraAccesses]
+      },
+      nowMs,
+      params
+    );
+    
+    // Rank the union of keyword and vector hits by combined relevance
+    const bm25ById = new Map(keywordRows.map(row => [row.id, row.bm25]));
+    const similarityById = new Map(vectorMatches.map(match => [match.id, match.score]));
+    const effectiveWeights = getScoringWeights(weights);
+    const scored = scoreCandidates(
+      [...rowsById.values()].map(row => ({
+        id: row.id,
+        bm25: bm25ById.get(row.id) ?? null,
+        likeMatch: bm25ById.has(row.id),
+        similarity: similarityById.get(row.id) ?? null,
+        activation: row.pinned ? row.activation : activationOf(row),
+        importance: row.importance,
+        created_at: row.created_at,
+        last_accessed: row.last_accessed
+      })),
+      effectiveWeights,
+      nowMs
+    );
+    
+    const top = scored.slice(0, limit);
+    const rows = top.map(candidate => rowsById.get(candidate.id)!);
+    
+    // Log the access and store the activation it leads to
+    const logAccess = prepareAccessLog(db);
+    const updateStmt = db.prepare('UPDATE memories SET last_accessed = ?, activation = ? WHERE id = ?');
+    
+    for (const row of rows) {
+      logAccess(row.id, now);
+      row.activation = activationOf(row, [now]);
+      updateStmt.run(now, row.activation, row.id);
+    }
+    this.emit(db, { type: 'recalled', memory_ids: rows.map(row => row.id) });
+    
+    const result: RecallResult = { results: rows.map(rowToMemory) };
+    
+    if (explain) {
+      result.results = result.results.map((memory, i) => ({
+        ...memory,
+        explanation: {
+          score: top[i].score,
+          components: top[i].components,
+          matched_by: [
+            ...(bm25ById.has(memory.id) ? ['keyword' as const] : []),
+            ...(similarityById.has(memory.id) ? ['vector' as const] : [])
+          ],
+          bm25: bm25ById.get(memory.id) ?? null,
+          similarity: similarityById.get(memory.id) ?? null
+        }
+      }));
+      result.explain = {
+        parsed_query: { terms: parsed.terms, match: parsed.match },
+        keyword_search: keyword.path,
+        vector_search: this.embedder && queryEmbedding ? this.embedder.model : null,
+        weights: effectiveWeights,
+        candidates: { keyword: keywordRows.length, vector: vectorMatches.length, total: rowsById.size }
+      };
+    }
+    
+    if (expandHops > 0) {
+      // Hits seed the spread in proportion to their score, best hit = 1
+      const bestScore = top.length > 0 && top[0].score > 0 ? top[0].score : 1;
+      const seeds = new Map(top.map(candidate => [candidate.id, candidate.score / bestScore]));
+      result.related = spreadActivation(db, seeds, Math.min(expandHops, MAX_EXPAND_HOPS), limit);
+    }
+    
+    return result;
+  }
+  
+  // Nearest neighbours of the query among memories embedded with the current model
+  private vectorSearch(
+    db: Database.Database,
+    queryEmbedding: Float32Array | null,
+    limit: number,
+    types?: MemoryType[],
+    ids?: Set<string>
+  ): { id: string; score: number }[] {
+    if (!this.embedder || !queryEmbedding) {
+      return [];
+    }
+    
+    return getVectorIndex(db, this.embedder.model).search(queryEmbedding, limit, {
+      types,
+      ids,
+      minScore: MIN_VECTOR_SIMILARITY
+    });
+  }
+  
+  // Embed rows stored before embeddings existed (or under a different model)
+  private async backfillEmbeddings(db: Database.Database): Promise<void> {
+    const embedder = this.embedder!;
+    const rows = db.prepare(`
+      SELECT id, decrypt_text(content) as content FROM memories
+      WHERE embedding_model IS NULL OR embedding_model != ?
+      LIMIT ?
+    `).all(embedder.model, EMBEDDING_BACKFILL_BATCH) as { id: string; content: string }[];
+    
+    if (rows.length === 0) {
+      return;
+    }
+    
+    let embeddings: Float32Array[];
+    try {
+      embeddings = await embedder.embed(rows.map(row => row.content));
+    } catch (error) {
+      console.error('Embedding backfill failed:', error);
+      return;
+    }
+    
+    const updateStmt = db.prepare(`
+      UPDATE memories SET embedding = ?, embedding_model = ?, embedded_at = ? WHERE id = ?
+    `);
+    const encode = getEncoder(db);
+    const now = this.isoNow();
+    db.transaction(() => {
+      rows.forEach((row, i) => {
+        updateStmt.run(encode.embedding(embeddings[i]), embedder.model, now, row.id);
+      });
+    })();
+  }
+  
+  // Batch variant of embed(); missing entries are picked up later by the backfill
+  private async embedMany(texts: string[]): Promise<(Float32Array | null)[]> {
+    if (!this.embedder || texts.length === 0) {
+      return texts.map(() => null);
+    }
+    
+    const embeddings: (Float32Array | null)[] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BACKFILL_BATCH) {
+      const batch = texts.slice(i, i + EMBEDDING_BACKFILL_BATCH);
+      try {
+        embeddings.push(...await this.embedder.embed(batch));
+      } catch (error) {
+        console.error('Embedding failed:', error);
+        embeddings.push(...batch.map(() => null));
+      }
+    }
+    return embeddings;
+  }
+  
+  // Embedding failures are not fatal: the memory stays reachable via keyword search
+  private async embed(text: string): Promise<Float32Array | null> {
+    if (!this.embedder) {
+      return null;
+    }
+    
+    try {
+      const [embedding] = await this.embedder.embed([text]);
+      return embedding;
+    } catch (error) {
+      console.error('Embedding failed:', error);
+      return null;
+    }
+  }
+  
+  async store(
+    content: string,
+    type: MemoryType = 'factual',
+    importance: number = 0.5,
+    metadata?: Record<string, unknown>,
+    pinned: boolean = false,
+    actor: string = SYSTEM_ACTOR
+  ): Promise<StoreResponse> {
+    const [result] = await this.storeBatch([{ content, type, importance, metadata, pinned }], actor);
+    return result;
+  }
+  
+  // Store several memories in one transaction: either all are stored or none
+  async storeBatch(items: StoreRequest[], actor: string = SYSTEM_ACTOR): Promise<StoreResponse[]> {
+    const embeddings = await this.embedMany(items.map(item => item.content));
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      return db.transaction(() => this.writeBatch(db, items, embeddings, actor))();
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  // storeBatch made safe to retry: a retry with the same key and items gets
+  // the first results back (replayed) instead of storing again. Keys expire
+  // after IDEMPOTENCY_WINDOW_MS. null if the key was used for other items.
+  async storeIdempotent(
+    key: string,
+    items: StoreRequest[],
+    actor: string = SYSTEM_ACTOR
+  ): Promise<{ results: StoreResponse[]; replayed: boolean } | null> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      // Replays need no embeddings, so check before computing them
+      const request = JSON.stringify(items);
+      const earlier = this.readIdempotencyKey(db, key, request);
+      if (earlier !== undefined) {
+        return earlier;
+      }
+      
+      const embeddings = await this.embedMany(items.map(item => item.content));
+      
+      // Immediate, so a concurrent retry waits and then finds the key
+      return db.transaction(() => {
+        const concurrent = this.readIdempotencyKey(db, key, request);
+        if (concurrent !== undefined) {
+          return concurrent;
+        }
+        
+        const results = this.writeBatch(db, items, embeddings, actor);
+        const now = this.isoNow();
+        db.prepare('DELETE FROM idempotency_keys WHERE created_at < ?')
+          .run(new Date(this.clock() - IDEMPOTENCY_WINDOW_MS).toISOString());
+        db.prepare('INSERT INTO idempotency_keys (key, fingerprint, results, created_at) VALUES (?, ?, ?, ?)')
+          .run(key, getEncoder(db).requestFingerprint(request), JSON.stringify(results), now);
+        return { results, replayed: false };
+      }).immediate();
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  // Replay of an earlier store under an idempotency key, without storing
+  // anything; null if the key was used for other items, undefined if unknown
+  async findIdempotentReplay(
+    key: string,
+    items: StoreRequest[]
+  ): Promise<{ results: StoreResponse[]; replayed: boolean } | null | undefined> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      return this.readIdempotencyKey(db, key, JSON.stringify(items));
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  // Results stored under an unexpired idempotency key; null if the key was
+  // used for other items, undefined if it is unknown. The request is
+  // compared in plaintext terms, whatever data key is active now.
+  private readIdempotencyKey(
+    db: Database.Database,
+    key: string,
+    request: string
+  ): { results: StoreResponse[]; replayed: boolean } | null | undefined {
+    const row = db.prepare(`
+      SELECT fingerprint, results FROM idempotency_keys WHERE key = ? AND created_at >= ?
+    `).get(key, new Date(this.clock() - IDEMPOTENCY_WINDOW_MS).toISOString()) as { fingerprint: string; results: string } | undefined;
+    
+    if (!row) {
+      return undefined;
+    }
+    const fingerprint = getEncoder(db).requestFingerprint(request, row.fingerprint);
+    return row.fingerprint === fingerprint ? { results: JSON.parse(row.results), replayed: true } : null;
+  }
+  
+  // Insert items, or with dedupe reinforce an existing memory with the same
+  // normalized content and type. Runs inside the caller's transaction.
+  private writeBatch(
+    db: Database.Database,
+    items: StoreRequest[],
+    embeddings: (Float32Array | null)[],
+    actor: string
+  ): StoreResponse[] {
+    const insertStmt = db.prepare(`
+      INSERT INTO memories (id, content, search_tokens, content_hash, type, importance, activation, created_at, metadata, pinned, origin, updated_at, embedding, embedding_model, embedded_at)
+      VALUES (?, ?, ?, ?, ?, ?, 1.0, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const findStmt = db.prepare('SELECT id FROM memories WHERE content_hash = ? AND type = ? ORDER BY created_at LIMIT 1');
+    const reinforceStmt = db.prepare(`
+      UPDATE memories
+      SET importance = MIN(1.0, MAX(importance, ?) + ${DEDUPE_IMPORTANCE_BOOST}), last_accessed = ?,
+        version = version + 1, origin = ?, updated_at = ?
+      WHERE id = ?
+    `);
+    const revisionStmt = prepareRevisionInsert(db);
+    const logAccess = prepareAccessLog(db);
+    const encode = getEncoder(db);
+    const now = this.isoNow();
+    
+    if (items.some(item => item.dedupe)) {
+      this.backfillContentHashes(db);
+    }
+    
+    const results = items.map((item, i): StoreResponse => {
+      const type = item.type ?? 'factual';
+      const importance = item.importance ?? 0.5;
+      const contentHash = encode.fingerprint(normalizeContent(item.content));
+      
+      // Storing the same thing again is another encounter with it
+      const existing = item.dedupe ? findStmt.get(contentHash, type) as { id: string } | undefined : undefined;
+      if (existing) {
+        reinforceStmt.run(importance, now, actor, now, existing.id);
+        revisionStmt.run(crypto.randomUUID(), actor, 'deduplicated', now, existing.id);
+        logAccess(existing.id, now);
+        return { id: existing.id, success: true, deduplicated: true };
+      }
+      
+      const id = crypto.randomUUID();
+      const embedding = embeddings[i];
+      
+      insertStmt.run(
+        id,
+        encode.text(item.content),
+        encode.searchTokens(item.content),
+        contentHash,
+        type,
+        importance,
+        now,
+        encode.json(item.metadata),
+        item.pinned ? 1 : 0,
+        actor,
+        now,
+        encode.embedding(embedding),
+        embedding ? this.embedder!.model : null,
+        embedding ? now : null
+      );
+      revisionStmt.run(crypto.randomUUID(), actor, 'created', now, id);
+      
+      return { id, success: true, deduplicated: false };
+    });
+    
+    const stored = results.filter(result => !result.deduplicated).map(result => result.id);
+    const reinforced = [...new Set(results.filter(result => result.deduplicated).map(result => result.id))];
+    this.emit(db, { type: 'stored', memory_ids: stored });
+    this.emit(db, { type: 'updated', memory_ids: reinforced, data: { fields: ['importance'] } });
+    return results;
+  }
+  
+  // Hash the content of memories written without one (by sync, import or
+  // edits) so dedupe can find them
+  private backfillContentHashes(db: Database.Database): void {
+    const rows = db.prepare(`
+      SELECT id, decrypt_text(content) as content FROM memories WHERE content_hash IS NULL
+    `).all() as { id: string; content: string }[];
+    const updateStmt = db.prepare('UPDATE memories SET content_hash = ? WHERE id = ?');
+    const encode = getEncoder(db);
+    
+    for (const row of rows) {
+      updateStmt.run(encode.fingerprint(normalizeContent(row.content)), row.id);
+    }
+  }
+  
+  // Browse memories a page at a time. Unlike recall, listing is not an access:
+  // last_accessed and activation are left alone.
+  async list(options: {
+    limit: number;
+    sort: MemorySortField;
+    order: SortOrder;
+    types?: MemoryType[];
+    cursor?: ListCursor;
+  }): Promise<ListMemoriesResponse> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      const sortKey = SORT_KEYS[options.sort];
+      const direction = options.order === 'asc' ? 'ASC' : 'DESC';
+      const where = compileFilters(options.types);
+      
+      let sql = `SELECT ${MEMORY_COLUMNS}, ${sortKey} as sort_key FROM memories m WHERE 1 = 1${where.sql}`;
+      const params: (string | number)[] = [...where.params];
+      
+      if (options.cursor) {
+        sql += ` AND (${sortKey}, m.id) ${options.order === 'asc' ? '>' : '<'} (?, ?)`;
+        params.push(options.cursor.key, options.cursor.id);
+      }
+      
+      // One extra row tells whether there is a next page
+      sql += ` ORDER BY sort_key ${direction}, m.id ${direction} LIMIT ?`;
+      params.push(options.limit + 1);
+      
+      const rows = db.prepare(sql).all(...params) as (MemoryRow & { sort_key: string | number })[];
+      const page = rows.slice(0, options.limit);
+      const last = page[page.length - 1];
+      
+      return {
+        memories: page.map(rowToMemory),
+        next_cursor: rows.length > options.limit
+          ? encodeCursor({ sort: options.sort, order: options.order, key: last.sort_key, id: last.id })
+          : null
+      };
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  async get(id: string): Promise<Memory | null> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      const row = db.prepare(`SELECT ${MEMORY_COLUMNS} FROM memories m WHERE m.id = ?`).get(id) as MemoryRow | undefined;
+      return row ? rowToMemory(row) : null;
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  // Apply changes; a change to content, type, importance or metadata is
+  // recorded as a new revision attributed to the actor
+  async update(id: string, changes: UpdateMemoryRequest, actor: string = SYSTEM_ACTOR): Promise<Memory | null> {
+    const embedding = changes.content !== undefined ? await this.embed(changes.content) : null;
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      const encode = getEncoder(db);
+      const sets: string[] = [];
+      const params: (string | number | Buffer | null)[] = [];
+      
+      if (changes.content !== undefined) {
+        // Re-embed with the content; a failed embedding clears the stale vector
+        sets.push('content = ?', 'search_tokens = ?', 'embedding = ?', 'embedding_model = ?', 'embedded_at = ?');
+        params.push(
+          encode.text(changes.content),
+          encode.searchTokens(changes.content),
+          encode.embedding(embedding),
+          embedding ? this.embedder!.model : null,
+          embedding ? this.isoNow() : null
+        );
+      }
+      if (changes.type !== undefined) {
+        sets.push('type = ?');
+        params.push(changes.type);
+      }
+      if (changes.importance !== undefined) {
+        sets.push('importance = ?');
+        params.push(changes.importance);
+      }
+      if (changes.metadata !== undefined) {
+        // Metadata is replaced as a whole; null clears it
+        sets.push('metadata = ?');
+        params.push(encode.json(changes.metadata));
+      }
+      if (changes.pinned !== undefined) {
+        sets.push('pinned = ?');
+        params.push(changes.pinned ? 1 : 0);
+      }
+      
+      const selectStmt = db.prepare(`SELECT ${MEMORY_COLUMNS} FROM memories m WHERE m.id = ?`);
+      
+      const row = db.transaction(() => {
+        const before = selectStmt.get(id) as MemoryRow | undefined;
+        if (!before || sets.length === 0) {
+          return before;
+        }
+        
+        db.prepare(`UPDATE memories SET ${sets.join(', ')} WHERE id = ?`).run(...params, id);
+        let after = selectStmt.get(id) as MemoryRow;
+        const now = this.isoNow();
+        
+        if (syncedState(after) !== syncedState(before)) {
+          db.prepare('UPDATE memories SET version = version + 1, origin = ?, updated_at = ? WHERE id = ?').run(actor, now, id);
+          after = selectStmt.get(id) as MemoryRow;
+        }
+        if (trackedState(after) !== trackedState(before)) {
+          prepareRevisionInsert(db).run(crypto.randomUUID(), actor, changes.reason || 'updated', now, id);
+        }
+        
+        const fields = UPDATABLE_FIELDS.filter(field => changes[field] !== undefined);
+        this.emit(db, { type: 'updated', memory_ids: [id], data: { fields } });
+        return after;
+      })();
+      
+      return row ? rowToMemory(row) : null;
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  // Revisions of a memory, oldest first; null if the memory does not exist
+  async history(id: string): Promise<MemoryRevision[] | null> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      if (!db.prepare('SELECT 1 FROM memories WHERE id = ?').get(id)) {
+        return null;
+      }
+      
+      const rows = db.prepare(`
+        SELECT ${REVISION_SELECT} FROM memory_revisions
+        WHERE memory_id = ?
+        ORDER BY revision
+      `).all(id) as RevisionRow[];
+      
+      return rows.map(rowToRevision);
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  // Roll a memory back to an earlier revision. The rollback is itself recorded
+  // as a new revision, so history is never rewritten. Returns null if the
+  // memory or revision does not exist.
+  async restore(id: string, revision: number, actor: string = SYSTEM_ACTOR, reason?: string): Promise<Memory | null> {
+    const target = await this.getRevision(id, revision);
+    const current = await this.get(id);
+    if (!target || !current) {
+      return null;
+    }
+    
+    // Only send what differs, so unchanged content is not re-embedded
+    const changes: UpdateMemoryRequest = { reason: reason || `restored revision ${revision}` };
+    if (target.content !== current.content) changes.content = target.content;
+    if (target.type !== current.type) changes.type = target.type;
+    if (target.importance !== current.importance) changes.importance = target.importance;
+    if (JSON.stringify(target.metadata) !== JSON.stringify(current.metadata)) {
+      changes.metadata = target.metadata ?? null;
+    }
+    
+    return this.update(id, changes, actor);
+  }
+  
+  async getRevision(id: string, revision: number): Promise<MemoryRevision | null> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      const row = db.prepare(`
+        SELECT ${REVISION_SELECT} FROM memory_revisions
+        WHERE memory_id = ? AND revision = ?
+      `).get(id, revision) as RevisionRow | undefined;
+      return row ? rowToRevision(row) : null;
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  async delete(id: string, actor: string = SYSTEM_ACTOR): Promise<boolean> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      return db.transaction(() => {
+        const result = db.prepare('DELETE FROM memories WHERE id = ?').run(id);
+        if (result.changes > 0) {
+          // The delete trigger wrote the tombstone; attribute it
+          db.prepare('UPDATE memory_tombstones SET origin = ? WHERE id = ?').run(actor, id);
+          this.emit(db, { type: 'forgotten', memory_ids: [id], data: { reason: 'deleted' } });
+        }
+        return result.changes > 0;
+      })();
+    } finally {
+      releaseDb(db);
+    }
+  }
   
-  const db = new Database(dbPath);
+  // Change feed: events after an event id, oldest first
+  async listEvents(afterId: number, limit: number = 100): Promise<MemoryEvent[]> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      const rows = db.prepare(`
+        SELECT id, type, memory_ids, data, created_at FROM memory_events
+        WHERE id > ?
+        ORDER BY id
+        LIMIT ?
+      `).all(afterId, limit) as { id: number; type: string; memory_ids: string; data: string | null; created_at: string }[];
+      
+      return rows.map(row => ({
+        id: row.id,
+        type: row.type as MemoryEvent['type'],
+        memory_ids: JSON.parse(row.memory_ids),
+        data: row.data ? JSON.parse(row.data) : undefined,
+        created_at: row.created_at
+      }));
+    } finally {
+      releaseDb(db);
+    }
+  }
   
-  // Initialize schema if needed
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS memories (
-      id TEXT PRIMARY KEY,
-      content TEXT NOT NULL,
-      type TEXT DEFAULT 'factual',
-      importance REAL DEFAULT 0.5,
-      activation REAL DEFAULT 1.0,
-      created_at TEXT NOT NULL,
-      last_accessed TEXT,
-      metadata TEXT
-    );
+  // Id of the newest event, 0 if there are none yet
+  async lastEventId(): Promise<number> {
+    const db = getDb(this.dbPath, this.userId);
     
-    CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(type);
-    CREATE INDEX IF NOT EXISTS idx_memories_activation ON memories(activation DESC);
-  `);
+    try {
+      const row = db.prepare('SELECT MAX(id) as id FROM memory_events').get() as { id: number | null };
+      return row.id ?? 0;
+    } finally {
+      releaseDb(db);
+    }
+  }
   
-  // Try to create FTS table (might already exist)
-  try {
-    db.exec(`
-      CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
-        content,
-        content='memories',
-        content_rowid='rowid'
-      );
-    `);
-  } catch {
-    // FTS table might already exist or have different config
+  // Call listener when this process writes events; returns an unsubscribe function
+  subscribe(listener: () => void): () => void {
+    return subscribeToEvents(this.dbPath, listener);
   }
   
-  // Create triggers for FTS sync (ignore if exists)
-  try {
-    db.exec(`
-      CREATE TRIGGER memories_ai AFTER INSERT ON memories BEGIN
-        INSERT INTO memories_fts(rowid, content) VALUES (new.rowid, new.content);
-      END;
-    `);
-  } catch {
-    // Trigger exists
+  // Append to the change feed. Call inside the transaction making the change
+  // so the event is written if and only if the change is.
+  private emit(db: Database.Database, event: PendingEvent): void {
+    if (event.memory_ids.length === 0) {
+      return;
+    }
+    
+    const result = db.prepare(`
+      INSERT INTO memory_events (type, memory_ids, data, created_at)
+      VALUES (?, ?, ?, ?)
+    `).run(
+      event.type,
+      JSON.stringify(event.memory_ids),
+      event.data ? JSON.stringify(event.data) : null,
+      this.isoNow()
+    );
+    
+    db.prepare('DELETE FROM memory_events WHERE id <= ?').run(Number(result.lastInsertRowid) - MAX_EVENT_LOG);
+    notifyEvents(this.dbPath);
   }
   
-  try {
-    db.exec(`
-      CREATE TRIGGER memories_ad AFTER DELETE ON memories BEGIN
-        INSERT INTO memories_fts(memories_fts, rowid, content) VALUES('delete', old.rowid, old.content);
-      END;
-    `);
-  } catch {
-    // Trigger exists
+  // Link two existing memories. Returns null if the same link already exists.
+  async createLink(sourceId: string, targetId: string, relation: string, weight: number = 1.0): Promise<MemoryLink | null> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      const link: MemoryLink = {
+        id: crypto.randomUUID(),
+        source_id: sourceId,
+        target_id: targetId,
+        relation,
+        weight,
+        created_at: this.isoNow()
+      };
+      
+      const result = db.prepare(`
+        INSERT OR IGNORE INTO memory_links (id, source_id, target_id, relation, weight, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(link.id, link.source_id, link.target_id, link.relation, link.weight, link.created_at);
+      
+      return result.changes > 0 ? link : null;
+    } finally {
+      releaseDb(db);
+    }
   }
   
-  return db;
-}
-
-// Memory Service class
-export class MemoryService {
-  private userId: string;
+  // Links from or to a memory
+  async listLinks(memoryId: string): Promise<MemoryLink[]> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      return db.prepare(`
+        SELECT id, source_id, target_id, relation, weight, created_at FROM memory_links
+        WHERE source_id = ? OR target_id = ?
+        ORDER BY created_at, id
+      `).all(memoryId, memoryId) as MemoryLink[];
+    } finally {
+      releaseDb(db);
+    }
+  }
   
-  constructor(userId: string) {
-    this.userId = userId;
+  async deleteLink(memoryId: string, linkId: string): Promise<boolean> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      const result = db.prepare(`
+        DELETE FROM memory_links WHERE id = ? AND (source_id = ? OR target_id = ?)
+      `).run(linkId, memoryId, memoryId);
+      return result.changes > 0;
+    } finally {
+      releaseDb(db);
+    }
   }
   
-  async recall(
-    query: string,
-    limit: number = 10,
-    types?: MemoryType[]
-  ): Promise<RecallResponse> {
-    const startTime = Date.now();
-    const db = getDb(this.userId);
+  // Sync: memories and tombstones changed after a change sequence, oldest first
+  async pullChanges(since: number, limit: number): Promise<SyncPullResponse> {
+    const db = getDb(this.dbPath, this.userId);
     
     try {
-      // Check if FTS table has content
-      const ftsCount = db.prepare('SELECT COUNT(*) as c FROM memories_fts').get() as { c: number };
-      
-      let rows: MemoryRow[];
-      
-      if (ftsCount.c > 0) {
-        // Full-text search with type filtering
-        let sql = `
-          SELECT m.* 
-          FROM memories m
-          JOIN memories_fts fts ON m.rowid = fts.rowid
-          WHERE memories_fts MATCH ?
-        `;
-        const params: (string | number)[] = [query];
+      // One read transaction, so both tables are read at the same point
+      const changes = db.transaction(() => {
+        const rows = db.prepare(`
+          SELECT ${MEMORY_COLUMNS}, m.change_seq FROM memories m
+          WHERE m.change_seq > ?
+          ORDER BY m.change_seq
+          LIMIT ?
+        `).all(since, limit + 1) as (MemoryRow & { change_seq: number })[];
+        const tombstones = db.prepare(`
+          SELECT id, version, origin, updated_at, change_seq FROM memory_tombstones
+          WHERE change_seq > ?
+          ORDER BY change_seq
+          LIMIT ?
+        `).all(since, limit + 1) as (SyncVersion & { id: string; change_seq: number })[];
         
-        if (types && types.length > 0) {
-          sql += ` AND m.type IN (${types.map(() => '?').join(',')})`;
-          params.push(...types);
-        }
-        
-        sql += ` ORDER BY m.activation DESC LIMIT ?`;
-        params.push(limit);
-        
-        rows = db.prepare(sql).all(...params) as MemoryRow[];
-      } else {
-        // Fallback: LIKE search if FTS is empty
-        let sql = `SELECT * FROM memories WHERE content LIKE ?`;
-        const params: (string | number)[] = [`%${query}%`];
+        return [
+          ...rows.map((row): SyncChange => ({
+            id: row.id,
+            seq: row.change_seq,
+            version: row.version,
+            origin: row.origin,
+            updated_at: row.updated_at,
+            deleted: false,
+            memory: {
+              content: row.content,
+              type: row.type as MemoryType,
+              importance: row.importance,
+              metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+              pinned: row.pinned === 1,
+              created_at: row.created_at
+            }
+          })),
+          ...tombstones.map((row): SyncChange => ({
+            id: row.id,
+            seq: row.change_seq,
+            version: row.version,
+            origin: row.origin,
+            updated_at: row.updated_at,
+            deleted: true
+          }))
+        ].sort((a, b) => a.seq - b.seq);
+      })();
+      
+      const page = changes.slice(0, limit);
+      
+      return {
+        changes: page,
+        cursor: page.length > 0 ? page[page.length - 1].seq : since,
+        has_more: changes.length > limit
+      };
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  // Sync: apply a replica's writes. Each one is applied only if it wins over
+  // what the server holds (see sync.ts); otherwise it is reported stale
+  // together with the winning version.
+  async pushChanges(origin: string, changes: SyncPushChange[]): Promise<SyncPushResponse> {
+    // Embed up front, outside the transaction; stale writes waste their embedding
+    const upserts = changes.filter(change => !change.deleted);
+    const embeddings = await this.embedMany(upserts.map(change => change.memory!.content));
+    const embeddingById = new Map(upserts.map((change, i) => [change.id, embeddings[i]]));
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      const selectStmt = db.prepare(`SELECT ${MEMORY_COLUMNS} FROM memories m WHERE m.id = ?`);
+      const tombstoneStmt = db.prepare('SELECT version, origin, updated_at FROM memory_tombstones WHERE id = ?');
+      const insertStmt = db.prepare(`
+        INSERT INTO memories (id, content, search_tokens, type, importance, activation, created_at, metadata, pinned, version, origin, updated_at, embedding, embedding_model, embedded_at)
+        VALUES (?, ?, ?, ?, ?, 1.0, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const updateStmt = db.prepare(`
+        UPDATE memories
+        SET content = ?, search_tokens = ?, type = ?, importance = ?, metadata = ?, pinned = ?, version = ?, origin = ?, updated_at = ?
+        WHERE id = ?
+      `);
+      const updateEmbeddingStmt = db.prepare('UPDATE memories SET embedding = ?, embedding_model = ?, embedded_at = ? WHERE id = ?');
+      const deleteStmt = db.prepare('DELETE FROM memories WHERE id = ?');
+      const bumpSeqStmt = db.prepare('UPDATE sync_state SET seq = seq + 1');
+      const tombstoneInsertStmt = db.prepare(`
+        INSERT OR REPLACE INTO memory_tombstones (id, version, origin, updated_at, change_seq)
+        VALUES (?, ?, ?, ?, (SELECT seq FROM sync_state))
+      `);
+      const revisionStmt = prepareRevisionInsert(db);
+      const encode = getEncoder(db);
+      const now = this.isoNow();
+      
+      return db.transaction(() => {
+        const results: SyncPushResult[] = [];
+        const stored: string[] = [];
+        const updated: string[] = [];
+        const deleted: string[] = [];
         
-        if (types && types.length > 0) {
-          sql += ` AND type IN (${types.map(() => '?').join(',')})`;
-          params.push(...types);
+        for (const change of changes) {
+          const incoming: SyncVersion = {
+            version: change.version,
+            updated_at: new Date(change.updated_at).toISOString(),
+            origin
+          };
+          const row = selectStmt.get(change.id) as MemoryRow | undefined;
+          const current: SyncVersion | undefined = row ?? tombstoneStmt.get(change.id) as SyncVersion | undefined;
+          
+          if (current && compareSyncVersions(incoming, current) <= 0) {
+            results.push({
+              id: change.id,
+              status: 'stale',
+              version: current.version,
+              updated_at: current.updated_at,
+              origin: current.origin,
+              deleted: !row
+            });
+            continue;
+          }
+          
+          if (change.deleted) {
+            if (row) {
+              deleteStmt.run(change.id);
+              deleted.push(change.id);
+            }
+            bumpSeqStmt.run();
+            tombstoneInsertStmt.run(change.id, incoming.version, origin, incoming.updated_at);
+          } else {
+            const data = change.memory!;
+            const embedding = embeddingById.get(change.id) ?? null;
+            
+            if (row) {
+              updateStmt.run(
+                encode.text(data.content),
+                encode.searchTokens(data.content),
+                data.type,
+                data.importance,
+                encode.json(data.metadata),
+                data.pinned ? 1 : 0,
+                incoming.version,
+                origin,
+                incoming.updated_at,
+                change.id
+              );
+              if (data.content !== row.content) {
+                updateEmbeddingStmt.run(
+                  encode.embedding(embedding),
+                  embedding ? this.embedder!.model : null,
+                  embedding ? now : null,
+                  change.id
+                );
+              }
+              if (trackedState(selectStmt.get(change.id) as MemoryRow) !== trackedState(row)) {
+                revisionStmt.run(crypto.randomUUID(), origin, 'synced', now, change.id);
+              }
+              updated.push(change.id);
+            } else {
+              insertStmt.run(
+                change.id,
+                encode.text(data.content),
+                encode.searchTokens(data.content),
+                data.type,
+                data.importance,
+                new Date(data.created_at).toISOString(),
+                encode.json(data.metadata),
+                data.pinned ? 1 : 0,
+                incoming.version,
+                origin,
+                incoming.updated_at,
+                encode.embedding(embedding),
+                embedding ? this.embedder!.model : null,
+                embedding ? now : null
+              );
+              revisionStmt.run(crypto.randomUUID(), origin, 'synced', now, change.id);
+              stored.push(change.id);
+            }
+          }
+          
+          results.push({ id: change.id, status: 'applied', ...incoming, deleted: !!change.deleted });
         }
         
-        sql += ` ORDER BY activation DESC LIMIT ?`;
-        params.push(limit);
+        this.emit(db, { type: 'stored', memory_ids: stored, data: { origin } });
+        this.emit(db, { type: 'updated', memory_ids: updated, data: { origin } });
+        this.emit(db, { type: 'forgotten', memory_ids: deleted, data: { reason: 'deleted', origin } });
         
-        rows = db.prepare(sql).all(...params) as MemoryRow[];
-      }
+        const applied = results.filter(result => result.status === 'applied').length;
+        return { results, applied, stale: results.length - applied };
+      })();
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  // Archive lines for export. The DB stays leased until the generator
+  // completes (or is returned early); rows are read in chunks, so they are
+  // streamed rather than buffered without holding the shared handle busy.
+  // Writes between chunks may show up in the archive.
+  *exportArchive(instanceName?: string): Generator<string> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      const count = (db.prepare('SELECT COUNT(*) as count FROM memories').get() as { count: number }).count;
+      const linkCount = (db.prepare('SELECT COUNT(*) as count FROM memory_links').get() as { count: number }).count;
+      const revisionCount = (db.prepare('SELECT COUNT(*) as count FROM memory_revisions').get() as { count: number }).count;
       
-      // Update last_accessed for recalled memories
-      const updateStmt = db.prepare(`
-        UPDATE memories SET last_accessed = ?, activation = MIN(activation * 1.1, 1.0)
-        WHERE id = ?
-      `);
+      yield serializeRecord({
+        kind: 'manifest',
+        format: ARCHIVE_FORMAT,
+        format_version: ARCHIVE_FORMAT_VERSION,
+        schema_version: SCHEMA_VERSION,
+        exported_at: this.isoNow(),
+        instance: instanceName,
+        counts: { memories: count, links: linkCount, revisions: revisionCount }
+      });
       
-      const now = new Date().toISOString();
+      const rows = readInChunks<MemoryRow>(db.prepare(`
+        SELECT ${MEMORY_COLUMNS} FROM memories m
+        WHERE (m.created_at, m.id) > (?, ?)
+        ORDER BY m.created_at, m.id LIMIT ?
+      `), row => [row.created_at, row.id], ['', '']);
       for (const row of rows) {
-        updateStmt.run(now, row.id);
+        yield serializeRecord({ kind: 'memory', data: rowToMemory(row) });
       }
       
-      const results: Memory[] = rows.map(row => ({
-        id: row.id,
-        content: row.content,
-        type: row.type as MemoryType,
-        importance: row.importance,
-        activation: row.activation,
-        created_at: row.created_at,
-        last_accessed: row.last_accessed || undefined,
-        metadata: row.metadata ? JSON.parse(row.metadata) : undefined
-      }));
+      const links = readInChunks<MemoryLink>(db.prepare(`
+        SELECT id, source_id, target_id, relation, weight, created_at FROM memory_links
+        WHERE (created_at, id) > (?, ?)
+        ORDER BY created_at, id LIMIT ?
+      `), link => [link.created_at, link.id], ['', '']);
+      for (const link of links) {
+        yield serializeRecord({ kind: 'link', data: link });
+      }
       
-      return {
-        results,
-        took_ms: Date.now() - startTime
-      };
+      const revisions = readInChunks<RevisionRow>(db.prepare(`
+        SELECT ${REVISION_SELECT} FROM memory_revisions
+        WHERE (memory_id, revision) > (?, ?)
+        ORDER BY memory_id, revision LIMIT ?
+      `), revision => [revision.memory_id, revision.revision], ['', 0]);
+      for (const revision of revisions) {
+        yield serializeRecord({ kind: 'revision', data: rowToRevision(revision) });
+      }
     } finally {
-      db.close();
+      releaseDb(db);
     }
   }
   
-  async store(
-    content: string,
-    type: MemoryType = 'factual',
-    importance: number = 0.5,
-    metadata?: Record<string, unknown>
-  ): Promise<StoreResponse> {
-    const db = getDb(this.userId);
+  // Import validated archive memories, links and history. Runs in one
+  // transaction; with dryRun the same plan is computed but nothing is written.
+  // Memories without history in the archive start one attributed to the actor.
+  async importArchive(
+    memories: Memory[],
+    links: MemoryLink[],
+    revisions: MemoryRevision[],
+    options: { mode: ImportMode; onConflict: ImportConflictStrategy; dryRun: boolean; actor?: string }
+  ): Promise<ImportStats> {
+    const embeddings = options.dryRun ? [] : await this.embedMany(memories.map(m => m.content));
+    if (!options.dryRun) {
+      await this.createSnapshot('import');
+    }
+    const db = getDb(this.dbPath, this.userId);
     
     try {
-      const id = crypto.randomUUID();
-      const now = new Date().toISOString();
+      const stats: ImportStats = {
+        total: memories.length,
+        imported: 0,
+        skipped: 0,
+        overwritten: 0,
+        renamed: 0,
+        removed: 0,
+        links_imported: 0,
+        links_skipped: 0,
+        revisions_imported: 0
+      };
       
-      db.prepare(`
-        INSERT INTO memories (id, content, type, importance, activation, created_at, metadata)
-        VALUES (?, ?, ?, ?, 1.0, ?, ?)
-      `).run(
-        id,
-        content,
-        type,
-        importance,
-        now,
-        metadata ? JSON.stringify(metadata) : null
-      );
+      const existsStmt = db.prepare('SELECT 1 FROM memories WHERE id = ?');
+      const deleteStmt = db.prepare('DELETE FROM memories WHERE id = ?');
+      const insertStmt = db.prepare(`
+        INSERT INTO memories (id, content, search_tokens, type, importance, activation, created_at, last_accessed, metadata, pinned, version, origin, updated_at, embedding, embedding_model, embedded_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, (SELECT COALESCE(MAX(version), 0) + 1 FROM memory_tombstones WHERE id = ?), ?, ?, ?, ?, ?)
+      `);
+      const insertLinkStmt = db.prepare(`
+        INSERT OR IGNORE INTO memory_links (id, source_id, target_id, relation, weight, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `);
+      const insertRevisionStmt = db.prepare(`
+        INSERT INTO memory_revisions (${REVISION_COLUMNS})
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const revisionStmt = prepareRevisionInsert(db);
+      const logAccess = prepareAccessLog(db);
+      const encode = getEncoder(db);
+      const now = this.isoNow();
       
-      // Manually insert into FTS if trigger didn't work
-      try {
-        const row = db.prepare('SELECT rowid FROM memories WHERE id = ?').get(id) as { rowid: number };
-        db.prepare('INSERT OR IGNORE INTO memories_fts(rowid, content) VALUES (?, ?)').run(row.rowid, content);
-      } catch {
-        // FTS insert failed, not critical
+      // Archive id -> id the memory ends up with (skipped ones keep the existing row)
+      const idMap = new Map<string, string>();
+      // Archive id -> id, for memories actually written by this import
+      const importedIds = new Map<string, string>();
+      
+      const revisionsByMemory = new Map<string, MemoryRevision[]>();
+      for (const revision of revisions) {
+        const group = revisionsByMemory.get(revision.memory_id) || [];
+        group.push(revision);
+        revisionsByMemory.set(revision.memory_id, group);
       }
       
-      return { id, success: true };
+      const run = db.transaction(() => {
+        if (options.mode === 'replace') {
+          stats.removed = (db.prepare('SELECT COUNT(*) as count FROM memories').get() as { count: number }).count;
+          if (!options.dryRun) {
+            db.prepare('DELETE FROM memories').run();
+          }
+        }
+        
+        memories.forEach((memory, i) => {
+          let id = memory.id;
+          
+          if (options.mode === 'merge' && existsStmt.get(id)) {
+            if (options.onConflict === 'skip') {
+              stats.skipped++;
+              idMap.set(memory.id, id);
+              return;
+            }
+            if (options.onConflict === 'overwrite') {
+              if (!options.dryRun) deleteStmt.run(id);
+              stats.overwritten++;
+            } else {
+              id = crypto.randomUUID();
+              stats.renamed++;
+            }
+          }
+          
+          stats.imported++;
+          idMap.set(memory.id, id);
+          importedIds.set(memory.id, id);
+          if (options.dryRun) return;
+          
+          const embedding = embeddings[i];
+          insertStmt.run(
+            id,
+            encode.text(memory.content),
+            encode.searchTokens(memory.content),
+            memory.type,
+            memory.importance,
+            memory.activation,
+            memory.created_at,
+            memory.last_accessed ?? null,
+            encode.json(memory.metadata),
+            memory.pinned ? 1 : 0,
+            // Supersede the tombstone of a memory deleted under the same id
+            id,
+            options.actor ?? SYSTEM_ACTOR,
+            now,
+            encode.embedding(embedding),
+            embedding ? this.embedder!.model : null,
+            embedding ? now : null
+          );
+          // Archives carry only the last access of each memory's history
+          if (memory.last_accessed) {
+            logAccess(id, memory.last_accessed);
+          }
+        });
+        
+        for (const [archiveId, id] of importedIds) {
+          const history = revisionsByMemory.get(archiveId);
+          
+          if (!history) {
+            stats.revisions_imported++;
+            if (!options.dryRun) {
+              revisionStmt.run(crypto.randomUUID(), options.actor ?? SYSTEM_ACTOR, 'imported', now, id);
+            }
+            continue;
+          }
+          
+          stats.revisions_imported += history.length;
+          if (options.dryRun) continue;
+          
+          for (const revision of history) {
+            insertRevisionStmt.run(
+              crypto.randomUUID(),
+              id,
+              revision.revision,
+              encode.text(revision.content),
+              revision.type,
+              revision.importance,
+              encode.json(revision.metadata),
+              revision.actor,
+              revision.reason,
+              revision.created_at
+            );
+          }
+        }
+        
+        // Links may also point at memories already in the instance (merge mode)
+        for (const link of links) {
+          const sourceId = idMap.get(link.source_id) ?? (options.mode === 'merge' && existsStmt.get(link.source_id) ? link.source_id : null);
+          const targetId = idMap.get(link.target_id) ?? (options.mode === 'merge' && existsStmt.get(link.target_id) ? link.target_id : null);
+          
+          if (!sourceId || !targetId) {
+            stats.links_skipped++;
+            continue;
+          }
+          
+          if (options.dryRun) {
+            stats.links_imported++;
+            continue;
+          }
+          
+          const result = insertLinkStmt.run(
+            crypto.randomUUID(),
+            sourceId,
+            targetId,
+            link.relation,
+            link.weight,
+            link.created_at
+          );
+          if (result.changes > 0) {
+            stats.links_imported++;
+          } else {
+            stats.links_skipped++;
+          }
+        }
+      });
+      run();
+      
+      return stats;
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  // Instance retention policy (tightens the tier policy); null if unset
+  async getRetentionPolicy(): Promise<RetentionPolicy | null> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      return readRetentionPolicy(db);
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  async setRetentionPolicy(policy: RetentionPolicy | null): Promise<void> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      if (policy) {
+        db.prepare(`
+          INSERT INTO settings (key, value) VALUES (?, ?)
+          ON CONFLICT(key) DO UPDATE SET value = excluded.value
+        `).run(RETENTION_SETTING, JSON.stringify(policy));
+      } else {
+        db.prepare('DELETE FROM settings WHERE key = ?').run(RETENTION_SETTING);
+      }
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  // Remove memories the effective retention policy no longer allows.
+  // Returns the number removed.
+  async enforceRetention(tierPolicy: RetentionPolicy): Promise<number> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      return this.applyRetention(db, tierPolicy);
     } finally {
-      db.close();
+      releaseDb(db);
     }
   }
   
-  async consolidate(): Promise<ConsolidateResponse> {
-    const db = getDb(this.userId);
+  private planRetention(db: Database.Database, tierPolicy: RetentionPolicy): RetentionPlan {
+    const policy = effectivePolicy(tierPolicy, readRetentionPolicy(db));
+    // Pinned memories are exempt from retention
+    const candidates = db.prepare('SELECT id, type, created_at FROM memories WHERE pinned = 0').all() as RetentionCandidate[];
+    return planRetention(candidates, policy, this.clock());
+  }
+  
+  private applyRetention(db: Database.Database, tierPolicy: RetentionPolicy): number {
+    const deleteStmt = db.prepare('DELETE FROM memories WHERE id = ?');
+    
+    return db.transaction(() => {
+      const { remove } = this.planRetention(db, tierPolicy);
+      for (const { id } of remove) {
+        deleteStmt.run(id);
+      }
+      this.emit(db, { type: 'forgotten', memory_ids: remove.map(({ id }) => id), data: { reason: 'expired' } });
+      return remove.length;
+    })();
+  }
+  
+  async consolidate(tierPolicy: RetentionPolicy = {}, options: ConsolidateOptions = {}): Promise<ConsolidateResponse> {
+    // Merges and forgetting cannot be undone otherwise
+    await this.createSnapshot('consolidate', tierPolicy);
+    const db = getDb(this.dbPath, this.userId);
     
     try {
       // Get memory count before
       const beforeCount = (db.prepare('SELECT COUNT(*) as count FROM memories').get() as { count: number }).count;
       
-      // Apply time-based activation decay
-      db.prepare(`
-        UPDATE memories 
-        SET activation = activation * 0.95
-        WHERE activation > 0.01
-      `).run();
+      // Expired memories go first so they are not merged into survivors
+      const expired = this.applyRetention(db, tierPolicy);
+      
+      // Fuse near-duplicate memories before decay so survivors keep their combined access history
+      const merged = this.mergeDuplicates(db);
+      
+      // Summaries come before forgetting, which would take fading episodes with it
+      const summarized = options.summarizer
+        ? await this.summarizeEpisodes(db, options.summarizer)
+        : { summaries: 0, episodes: 0, failed: 0 };
       
-      // Forget very low activation memories (threshold: 0.01)
-      const forgotten = db.prepare(`
-        DELETE FROM memories WHERE activation < 0.01
-      `).run();
+      // Decay activation to what access history supports today
+      const params = getActivationParams();
+      this.refreshActivation(db, params);
+      
+      // Forget memories that are unlikely to be retrieved any more
+      const forgotten = db.transaction(() => {
+        const ids = (db.prepare(`
+          SELECT id FROM memories WHERE activation < ? AND pinned = 0
+        `).all(params.forgetBelow) as { id: string }[]).map(row => row.id);
+        
+        const deleteStmt = db.prepare('DELETE FROM memories WHERE id = ?');
+        for (const id of ids) {
+          deleteStmt.run(id);
+        }
+        this.emit(db, { type: 'forgotten', memory_ids: ids, data: { reason: 'decayed' } });
+        return ids.length;
+      })();
       
       // Get memory count after
       const afterCount = (db.prepare('SELECT COUNT(*) as count FROM memories').get() as { count: number }).count;
@@ -255,17 +1781,236 @@ export class MemoryService {
         stats: {
           memories_before: beforeCount,
           memories_after: afterCount,
-          merged: 0, // Merging not implemented yet
-          forgotten: forgotten.changes
+          merged,
+          forgotten,
+          expired,
+          summaries: summarized.summaries,
+          summarized: summarized.episodes,
+          summaries_failed: summarized.failed
         }
       };
     } finally {
-      db.close();
+      releaseDb(db);
+    }
+  }
+  
+  // Recompute stored activation from access history as of now (pinned
+  // memories keep theirs)
+  private refreshActivation(db: Database.Database, params: ActivationParams): void {
+    const now = this.clock();
+    const rows = db.prepare(`
+      SELECT id, created_at, access_count FROM memories WHERE pinned = 0
+    `).all() as { id: string; created_at: string; access_count: number }[];
+    const accesses = loggedAccesses(db);
+    const updateStmt = db.prepare('UPDATE memories SET activation = ? WHERE id = ?');
+    
+    db.transaction(() => {
+      for (const row of rows) {
+        const history = { created_at: row.created_at, access_count: row.access_count, accesses: accesses.get(row.id) || [] };
+        updateStmt.run(computeActivation(history, now, params), row.id);
+      }
+    })();
+  }
+  
+  // Write a semantic summary of each group of related episodic memories. The
+  // summary links to its episodes and they lose importance, so they give way
+  // to it in recall. Episodes already summarized are not summarized again.
+  private async summarizeEpisodes(
+    db: Database.Database,
+    summarizer: Summarizer
+  ): Promise<{ summaries: number; episodes: number; failed: number }> {
+    const rows = db.prepare(`
+      SELECT ${MEMORY_COLUMNS}, decrypt_blob(m.embedding) as embedding, m.embedding_model
+      FROM memories m
+      WHERE m.type = 'episodic' AND m.pinned = 0
+        AND NOT EXISTS (SELECT 1 FROM memory_links l WHERE l.target_id = m.id AND l.relation = ?)
+      ORDER BY m.created_at
+    `).all(SUMMARY_RELATION) as (MemoryRow & { embedding: Buffer | null; embedding_model: string | null })[];
+    
+    const currentModel = this.embedder?.model;
+    const rowsById = new Map(rows.map(row => [row.id, row]));
+    // Oldest episodes first; the rest of a large group waits for the next run
+    const groups = findRelatedClusters(rows.map(row => ({
+      id: row.id,
+      content: row.content,
+      embedding: row.embedding && row.embedding_model === currentModel
+        ? deserializeEmbedding(row.embedding)
+        : null
+    })))
+      .filter(cluster => cluster.length >= MIN_SUMMARY_EPISODES)
+      .map(cluster => cluster.slice(0, MAX_SUMMARY_EPISODES).map(id => rowsById.get(id)!));
+    
+    // The summarizer may be a remote model, so it runs outside any transaction.
+    // A group it fails on waits for the next run; the rest of consolidation
+    // has already committed.
+    const summaries: { sources: MemoryRow[]; content: string }[] = [];
+    let failed = 0;
+    for (const sources of groups) {
+      try {
+        const content = await summarizer.summarize(sources.map(row => ({ content: row.content, created_at: row.created_at })));
+        if (content?.trim()) {
+          // Kept storable, and importable again from an export
+          summaries.push({ sources, content: content.trim().slice(0, MAX_CONTENT_LENGTH).trimEnd() });
+        }
+      } catch (error) {
+        console.error('Summarization failed:', error);
+        failed++;
+      }
+    }
+    const embeddings = await this.embedMany(summaries.map(summary => summary.content));
+    
+    const versionStmt = db.prepare('SELECT version FROM memories WHERE id = ?').pluck();
+    const linkStmt = db.prepare(`
+      INSERT OR IGNORE INTO memory_links (id, source_id, target_id, relation, weight, created_at)
+      VALUES (?, ?, ?, ?, 1.0, ?)
+    `);
+    const demoteStmt = db.prepare(`
+      UPDATE memories
+      SET importance = importance * ?, version = version + 1, origin = ?, updated_at = ?
+      WHERE id = ?
+    `);
+    const revisionStmt = prepareRevisionInsert(db);
+    
+    return db.transaction(() => {
+      const now = this.isoNow();
+      // Groups whose episodes changed while the summarizer ran wait for the next run
+      const current = summaries
+        .map((summary, i) => ({ ...summary, embedding: embeddings[i] }))
+        .filter(({ sources }) => sources.every(row => versionStmt.get(row.id) === row.version));
+      
+      const results = this.writeBatch(db, current.map(({ sources, content }): StoreRequest => ({
+        content,
+        type: 'semantic',
+        importance: Math.max(...sources.map(row => row.importance)),
+        metadata: { summarized_from: sources.map(row => row.id), summarizer: summarizer.model },
+        // The same summary again reinforces the one already stored
+        dedupe: true
+      })), current.map(summary => summary.embedding), SYSTEM_ACTOR);
+      
+      const demoted: string[] = [];
+      current.forEach(({ sources }, i) => {
+        for (const row of sources) {
+          linkStmt.run(crypto.randomUUID(), results[i].id, row.id, SUMMARY_RELATION, now);
+          demoteStmt.run(SUMMARIZED_IMPORTANCE_FACTOR, SYSTEM_ACTOR, now, row.id);
+          revisionStmt.run(crypto.randomUUID(), SYSTEM_ACTOR, 'summarized', now, row.id);
+          demoted.push(row.id);
+        }
+      });
+      this.emit(db, { type: 'updated', memory_ids: demoted, data: { fields: ['importance'], reason: 'summarized' } });
+      
+      // A summary deduplicated into one already stored is not a new one
+      return { summaries: results.filter(result => !result.deduplicated).length, episodes: demoted.length, failed };
+    })();
+  }
+  
+  // Merge each cluster of near-duplicates (same type) into its strongest member.
+  // Returns the number of memories removed by merging.
+  private mergeDuplicates(db: Database.Database): number {
+    const rows = db.prepare(`
+      SELECT ${MEMORY_COLUMNS}, decrypt_blob(m.embedding) as embedding, m.embedding_model
+      FROM memories m
+      ORDER BY m.created_at
+    `).all() as (MemoryRow & { embedding: Buffer | null; embedding_model: string | null })[];
+    
+    const currentModel = this.embedder?.model;
+    const byType = new Map<string, typeof rows>();
+    for (const row of rows) {
+      const group = byType.get(row.type) || [];
+      group.push(row);
+      byType.set(row.type, group);
     }
+    
+    const updateStmt = db.prepare(`
+      UPDATE memories
+      SET importance = ?, activation = ?, last_accessed = ?, metadata = ?, pinned = ?,
+        version = version + 1, origin = ?, updated_at = ?
+      WHERE id = ?
+    `);
+    const deleteStmt = db.prepare('DELETE FROM memories WHERE id = ?');
+    const revisionStmt = prepareRevisionInsert(db);
+    const encode = getEncoder(db);
+    const now = this.isoNow();
+    const repointSourceStmt = db.prepare('UPDATE OR IGNORE memory_links SET source_id = ? WHERE source_id = ? AND target_id != ?');
+    const repointTargetStmt = db.prepare('UPDATE OR IGNORE memory_links SET target_id = ? WHERE target_id = ? AND source_id != ?');
+    const moveAccessesStmt = db.prepare('UPDATE memory_accesses SET memory_id = ? WHERE memory_id = ?');
+    const addAccessCountStmt = db.prepare('UPDATE memories SET access_count = access_count + ? WHERE id = ?');
+    const logAccess = prepareAccessLog(db);
+    
+    let mergedCount = 0;
+    
+    db.transaction(() => {
+      for (const group of byType.values()) {
+        const rowsById = new Map(group.map(row => [row.id, row]));
+        const clusters = findDuplicateClusters(group.map(row => ({
+          id: row.id,
+          content: row.content,
+          embedding: row.embedding && row.embedding_model === currentModel
+            ? deserializeEmbedding(row.embedding)
+            : null
+        })));
+        
+        for (const cluster of clusters) {
+          // Survivor: the newest, so a corrected fact wins over what it
+          // corrects; it takes the highest importance of the cluster
+          const members = cluster
+            .map(id => rowsById.get(id)!)
+            .sort((a, b) => b.created_at.localeCompare(a.created_at));
+          const [survivor, ...duplicates] = members;
+          
+          const lastAccessed = members
+            .map(row => row.last_accessed)
+            .filter((date): date is string => !!date)
+            .sort()
+            .pop() || null;
+          
+          const metadata = mergeMetadata(
+            members.map(row => row.metadata ? JSON.parse(row.metadata) : undefined),
+            duplicates.map(row => row.id)
+          );
+          
+          updateStmt.run(
+            Math.max(...members.map(row => row.importance)),
+            Math.max(...members.map(row => row.activation)),
+            lastAccessed,
+            encode.json(metadata),
+            // Merging never unpins: the survivor inherits any member's pin
+            members.some(row => row.pinned === 1) ? 1 : 0,
+            SYSTEM_ACTOR,
+            now,
+            survivor.id
+          );
+          revisionStmt.run(crypto.randomUUID(), SYSTEM_ACTOR, 'merged', now, survivor.id);
+          this.emit(db, {
+            type: 'merged',
+            memory_ids: [survivor.id],
+            data: { merged_from: duplicates.map(row => row.id) }
+          });
+          
+          for (const duplicate of duplicates) {
+            // Keep the duplicate's links on the survivor; any that would clash
+            // with an existing link are dropped along with the duplicate
+            repointSourceStmt.run(survivor.id, duplicate.id, survivor.id);
+            repointTargetStmt.run(survivor.id, duplicate.id, survivor.id);
+            // Storing a duplicate was itself an encounter, on top of its own accesses
+            moveAccessesStmt.run(survivor.id, duplicate.id);
+            addAccessCountStmt.run(duplicate.access_count, survivor.id);
+            logAccess(survivor.id, duplicate.created_at);
+            deleteStmt.run(duplicate.id);
+          }
+          
+          mergedCount += duplicates.length;
+        }
+      }
+    })();
+    
+    return mergedCount;
   }
   
-  async stats(): Promise<StatsResponse> {
-    const db = getDb(this.userId);
+  async stats(
+    tierPolicy: RetentionPolicy = {},
+    storageQuota: StorageQuotaStatus | null = null
+  ): Promise<StatsResponse> {
+    const db = getDb(this.dbPath, this.userId);
     
     try {
       const total = (db.prepare('SELECT COUNT(*) as count FROM memories').get() as { count: number }).count;
@@ -289,21 +2034,235 @@ export class MemoryService {
       const oldest = db.prepare('SELECT MIN(created_at) as date FROM memories').get() as { date: string | null };
       const newest = db.prepare('SELECT MAX(created_at) as date FROM memories').get() as { date: string | null };
       const avgImportance = db.prepare('SELECT AVG(importance) as avg FROM memories').get() as { avg: number | null };
+      const pinned = (db.prepare('SELECT COUNT(*) as count FROM memories WHERE pinned = 1').get() as { count: number }).count;
+      const plan = this.planRetention(db, tierPolicy);
+      const count = (table: string) => db.prepare(`SELECT COUNT(*) FROM ${table}`).pluck().get() as number;
       
       return {
         total_memories: total,
         by_type: byType,
         oldest_memory: oldest.date || undefined,
         newest_memory: newest.date || undefined,
-        avg_importance: avgImportance.avg || 0
+        avg_importance: avgImportance.avg || 0,
+        pinned,
+        retention: {
+          pending_removal: plan.remove.length,
+          by_reason: {
+            max_age: plan.remove.filter(r => r.reason === 'max_age').length,
+            max_count: plan.remove.filter(r => r.reason === 'max_count').length
+          },
+          next_expiry: plan.nextExpiry
+        },
+        encryption: encryptionStatus(db),
+        storage: {
+          bytes: usedBytes(db),
+          file_bytes: fileBytes(this.dbPath),
+          snapshot_bytes: manualSnapshotBytes(this.dbPath),
+          rows: {
+            memories: total,
+            revisions: count('memory_revisions'),
+            links: count('memory_links'),
+            events: count('memory_events'),
+            tombstones: count('memory_tombstones')
+          },
+          quota: storageQuota
+        }
       };
     } finally {
-      db.close();
+      releaseDb(db);
+    }
+  }
+  
+  // Bytes this instance counts against its account's storage quota
+  async storageBytes(): Promise<number> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      return usedBytes(db) + manualSnapshotBytes(this.dbPath);
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  // Re-encrypt the instance under a fresh data key; null if encryption at
+  // rest is off
+  async rotateEncryptionKey(): Promise<Omit<RotateKeyResponse, 'took_ms'> | null> {
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      return rotateDataKey(db);
+    } finally {
+      releaseDb(db);
+    }
+  }
+  
+  // Copy the DB with SQLite's online backup API. Returns null when a manual
+  // snapshot would exceed the policy's max_manual.
+  async createSnapshot(reason: SnapshotReason = 'manual', tierPolicy: RetentionPolicy = {}): Promise<Snapshot | null> {
+    const existing = readSnapshots(this.dbPath);
+    if (reason === 'manual' && existing.filter(s => s.reason === 'manual').length >= SNAPSHOT_POLICY.max_manual) {
+      return null;
+    }
+    
+    const snapshot = await this.writeSnapshot(reason);
+    await this.pruneSnapshots(tierPolicy);
+    return snapshot;
+  }
+  
+  private async writeSnapshot(reason: SnapshotReason): Promise<Snapshot> {
+    const now = this.clock();
+    const id = newSnapshotId(now);
+    const file = snapshotFile(this.dbPath, id);
+    const db = getDb(this.dbPath, this.userId);
+    
+    try {
+      ensureDir(file);
+      const memories = db.prepare('SELECT COUNT(*) FROM memories').pluck().get() as number;
+      await db.backup(file);
+      writeSnapshotDescriptor(this.dbPath, {
+        id,
+        reason,
+        created_at: new Date(now).toISOString(),
+        memories,
+        schema_version: SCHEMA_VERSION
+      });
+    } finally {
+      releaseDb(db);
+    }
+    
+    return readSnapshot(this.dbPath, id)!;
+  }
+  
+  // Newest first
+  async listSnapshots(): Promise<Snapshot[]> {
+    return readSnapshots(this.dbPath);
+  }
+  
+  async deleteSnapshot(id: string): Promise<boolean> {
+    return removeSnapshot(this.dbPath, id);
+  }
+  
+  // Remove the automatic snapshots SNAPSHOT_POLICY no longer keeps, and any
+  // past the retention horizon; returns how many
+  async pruneSnapshots(tierPolicy: RetentionPolicy = {}): Promise<number> {
+    const db = getDb(this.dbPath, this.userId);
+    let horizon: number | null;
+    
+    try {
+      horizon = retentionHorizonDays(effectivePolicy(tierPolicy, readRetentionPolicy(db)));
+    } finally {
+      releaseDb(db);
     }
+    
+    const prune = planSnapshotPruning(readSnapshots(this.dbPath), this.clock(), SNAPSHOT_POLICY, horizon);
+    for (const snapshot of prune) {
+      removeSnapshot(this.dbPath, snapshot.id);
+    }
+    return prune.length;
+  }
+  
+  // Put the DB back into the state of a snapshot, after taking one of the
+  // current state. Returns null if the snapshot does not exist.
+  async restoreSnapshot(
+    id: string,
+    actor: string = SYSTEM_ACTOR
+  ): Promise<Omit<RestoreSnapshotResponse, 'took_ms'> | null> {
+    const snapshot = readSnapshot(this.dbPath, id);
+    if (!snapshot) {
+      return null;
+    }
+    
+    const source = new Database(snapshotFile(this.dbPath, id), { readonly: true });
+    try {
+      const version = source.pragma('user_version', { simple: true }) as number;
+      if (version > SCHEMA_VERSION) {
+        throw new Error(`Snapshot schema version ${version} is newer than this build supports (${SCHEMA_VERSION})`);
+      }
+      verifyTenant(source, this.userId);
+      
+      // Not pruned right away, which could remove the snapshot being restored
+      const backup = await this.writeSnapshot('restore');
+      
+      let db = getDb(this.dbPath, this.userId);
+      let replaced: ReplacedState;
+      try {
+        replaced = db.transaction(() => readReplacedState(db))();
+        // Copies page by page into the live file; open handles see the new contents
+        await source.backup(this.dbPath);
+        // The snapshot may need migrating and carry other data keys, so
+        // handles opened on the replaced contents are not reused
+        pool.evict(this.dbPath);
+      } finally {
+        releaseDb(db);
+      }
+      invalidateVectorIndex(this.dbPath);
+      
+      db = getDb(this.dbPath, this.userId);
+      try {
+        db.transaction(() => this.reconcileRestore(db, replaced, id, actor))();
+      } finally {
+        releaseDb(db);
+      }
+      
+      return { restored: snapshot, backup };
+    } finally {
+      source.close();
+    }
+  }
+  
+  // Replicas and event streams only look forward, so after a restore their
+  // cursors must still be behind every change: counters resume where the
+  // replaced state left them, restored memories get versions above any a
+  // replica may hold and memories the restore dropped get tombstones.
+  private reconcileRestore(db: Database.Database, replaced: ReplacedState, snapshotId: string, actor: string): void {
+    const now = this.isoNow();
+    
+    db.prepare('UPDATE sync_state SET seq = MAX(seq, ?)').run(replaced.seq);
+    db.prepare(`
+      INSERT INTO sqlite_sequence (name, seq) SELECT 'memory_events', 0
+      WHERE NOT EXISTS (SELECT 1 FROM sqlite_sequence WHERE name = 'memory_events')
+    `).run();
+    db.prepare("UPDATE sqlite_sequence SET seq = MAX(seq, ?) WHERE name = 'memory_events'").run(replaced.eventId);
+    
+    const restored = db.prepare('SELECT id, version FROM memories').all() as { id: string; version: number }[];
+    const bump = db.prepare('UPDATE memories SET version = ?, origin = ?, updated_at = ? WHERE id = ?');
+    for (const row of restored) {
+      bump.run(Math.max(row.version, replaced.versions.get(row.id) ?? 0) + 1, actor, now, row.id);
+    }
+    
+    const kept = new Set(restored.map(row => row.id));
+    const dropped = replaced.memoryIds.filter(memoryId => !kept.has(memoryId));
+    const nextSeq = db.prepare('UPDATE sync_state SET seq = seq + 1');
+    const tombstone = db.prepare(`
+      INSERT OR REPLACE INTO memory_tombstones (id, version, origin, updated_at, change_seq)
+      VALUES (?, ?, ?, ?, (SELECT seq FROM sync_state))
+    `);
+    for (const memoryId of dropped) {
+      nextSeq.run();
+      tombstone.run(memoryId, replaced.versions.get(memoryId)! + 1, actor, now);
+    }
+    
+    this.emit(db, { type: 'updated', memory_ids: [...kept], data: { reason: 'snapshot_restored', snapshot_id: snapshotId } });
+    this.emit(db, { type: 'forgotten', memory_ids: dropped, data: { reason: 'snapshot_restored', snapshot_id: snapshotId } });
   }
 }
 
 // Factory function
-export function getMemoryService(userId: string): MemoryService {
-  return new MemoryService(userId);
+export function getMemoryService(instance: Pick<MemoryInstance, 'db_path' | 'user_id'>): MemoryService {
+  return new MemoryService(instance.db_path, instance.user_id);
+}
+
+// Whether an instance's DB has been created yet
+export function hasMemoryStorage(instance: Pick<MemoryInstance, 'db_path' | 'user_id'>): boolean {
+  return fs.existsSync(resolveDbPath(instance.user_id, instance.db_path));
+}
+
+// Remove an instance's DB and everything stored next to it
+export function deleteMemoryStorage(instance: Pick<MemoryInstance, 'db_path' | 'user_id'>): void {
+  const dbPath = resolveDbPath(instance.user_id, instance.db_path);
+  pool.evict(dbPath);
+  invalidateVectorIndex(dbPath);
+  
+  const dir = path.dirname(dbPath);
+  fs.rmSync(dir, { recursive: true, force: true });
 }
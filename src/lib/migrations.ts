@@ -0,0 +1,386 @@
+/**
+ * Migrations - Versioned schema upgrades for per-user engram DBs
+ *
+ * The schema version lives in PRAGMA user_version. Each migration runs in
+ * its own IMMEDIATE transaction together with the version bump, so a DB is
+ * never left half-upgraded and concurrent openers do not migrate twice.
+ *
+ * Migrations are append-only: never edit one that has shipped, add a new
+ * version instead. Version 1 describes the original (unversioned) schema
+ * and must stay safe to run against DBs created before versioning.
+ */
+
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some(c => c.name === column);
+}
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memories (
+          id TEXT PRIMARY KEY,
+          content TEXT NOT NULL,
+          type TEXT DEFAULT 'factual',
+          importance REAL DEFAULT 0.5,
+          activation REAL DEFAULT 1.0,
+          created_at TEXT NOT NULL,
+          last_accessed TEXT,
+          metadata TEXT
+        );
+        
+        CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(type);
+        CREATE INDEX IF NOT EXISTS idx_memories_activation ON memories(activation DESC);
+        
+        CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+          content,
+          content='memories',
+          content_rowid='rowid'
+        );
+        
+        CREATE TRIGGER IF NOT EXISTS memories_ai AFTER INSERT ON memories BEGIN
+          INSERT INTO memories_fts(rowid, content) VALUES (new.rowid, new.content);
+        END;
+        
+        CREATE TRIGGER IF NOT EXISTS memories_ad AFTER DELETE ON memories BEGIN
+          INSERT INTO memories_fts(memories_fts, rowid, content) VALUES('delete', old.rowid, old.content);
+        END;
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'fts update trigger',
+    up: (db) => {
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS memories_au AFTER UPDATE OF content ON memories BEGIN
+          INSERT INTO memories_fts(memories_fts, rowid, content) VALUES('delete', old.rowid, old.content);
+          INSERT INTO memories_fts(rowid, content) VALUES (new.rowid, new.content);
+        END;
+      `);
+      
+      // Unversioned DBs indexed rows both via trigger and by hand, and missed
+      // content updates entirely; rebuild the index from the table
+      db.exec(`INSERT INTO memories_fts(memories_fts) VALUES('rebuild')`);
+    }
+  },
+  {
+    version: 3,
+    name: 'embedding columns',
+    up: (db) => {
+      addColumnIfMissing(db, 'memories', 'embedding', 'BLOB');
+      addColumnIfMissing(db, 'memories', 'embedding_model', 'TEXT');
+      addColumnIfMissing(db, 'memories', 'embedded_at', 'TEXT');
+    }
+  },
+  {
+    version: 4,
+    name: 'memory links',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE memory_links (
+          id TEXT PRIMARY KEY,
+          source_id TEXT NOT NULL,
+          target_id TEXT NOT NULL,
+          relation TEXT NOT NULL,
+          weight REAL NOT NULL DEFAULT 1.0,
+          created_at TEXT NOT NULL,
+          UNIQUE (source_id, target_id, relation)
+        );
+        
+        CREATE INDEX idx_memory_links_target ON memory_links(target_id);
+        
+        -- Links never outlive either of their memories
+        CREATE TRIGGER memory_links_ad AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_links WHERE source_id = old.id OR target_id = old.id;
+        END;
+      `);
+    }
+  },
+  {
+    version: 5,
+    name: 'instance settings',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+        
+        CREATE INDEX idx_memories_created_at ON memories(created_at);
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: 'pinned memories',
+    up: (db) => {
+      addColumnIfMissing(db, 'memories', 'pinned', 'INTEGER NOT NULL DEFAULT 0');
+    }
+  },
+  {
+    version: 7,
+    name: 'memory revisions',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE memory_revisions (
+          id TEXT PRIMARY KEY,
+          memory_id TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          content TEXT NOT NULL,
+          type TEXT NOT NULL,
+          importance REAL NOT NULL,
+          metadata TEXT,
+          actor TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          UNIQUE (memory_id, revision)
+        );
+        
+        -- History is append-only
+        CREATE TRIGGER memory_revisions_bu BEFORE UPDATE ON memory_revisions BEGIN
+          SELECT RAISE(ABORT, 'memory revisions are append-only');
+        END;
+        
+        -- ...and goes away with its memory
+        CREATE TRIGGER memory_revisions_ad AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_revisions WHERE memory_id = old.id;
+        END;
+      `);
+      
+      // Existing memories start their history at their current state
+      const insert = db.prepare(`
+        INSERT INTO memory_revisions (id, memory_id, revision, content, type, importance, metadata, actor, reason, created_at)
+        VALUES (?, ?, 1, ?, ?, ?, ?, 'system', 'baseline', ?)
+      `);
+      const rows = db.prepare('SELECT id, content, type, importance, metadata, created_at FROM memories').all() as {
+        id: string;
+        content: string;
+        type: string | null;
+        importance: number | null;
+        metadata: string | null;
+        created_at: string;
+      }[];
+      for (const row of rows) {
+        insert.run(crypto.randomUUID(), row.id, row.content, row.type ?? 'factual', row.importance ?? 0.5, row.metadata, row.created_at);
+      }
+    }
+  },
+  {
+    version: 8,
+    name: 'memory events',
+    up: (db) => {
+      // AUTOINCREMENT: ids are never reused after pruning, so they are safe
+      // to resume a stream from
+      db.exec(`
+        CREATE TABLE memory_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          memory_ids TEXT NOT NULL,
+          data TEXT,
+          created_at TEXT NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: 'sync versions and tombstones',
+    up: (db) => {
+      addColumnIfMissing(db, 'memories', 'version', 'INTEGER NOT NULL DEFAULT 1');
+      addColumnIfMissing(db, 'memories', 'origin', "TEXT NOT NULL DEFAULT 'system'");
+      addColumnIfMissing(db, 'memories', 'updated_at', 'TEXT');
+      addColumnIfMissing(db, 'memories', 'change_seq', 'INTEGER NOT NULL DEFAULT 0');
+      
+      db.exec(`
+        UPDATE memories SET updated_at = created_at, change_seq = rowid;
+        
+        CREATE INDEX idx_memories_change_seq ON memories(change_seq);
+        
+        CREATE TABLE memory_tombstones (
+          id TEXT PRIMARY KEY,
+          version INTEGER NOT NULL,
+          origin TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          change_seq INTEGER NOT NULL
+        );
+        
+        CREATE INDEX idx_memory_tombstones_change_seq ON memory_tombstones(change_seq);
+        
+        -- Single-row counter behind change_seq, so pull cursors only move forward
+        CREATE TABLE sync_state (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          seq INTEGER NOT NULL
+        );
+        INSERT INTO sync_state (id, seq) SELECT 1, COALESCE(MAX(rowid), 0) FROM memories;
+        
+        -- Inserts and changes to synced fields move the row to the end of the
+        -- change feed. Versions are set by the writer (see sync.ts).
+        CREATE TRIGGER memories_sync_ai AFTER INSERT ON memories BEGIN
+          UPDATE sync_state SET seq = seq + 1;
+          UPDATE memories SET change_seq = (SELECT seq FROM sync_state) WHERE rowid = new.rowid;
+          DELETE FROM memory_tombstones WHERE id = new.id;
+        END;
+        
+        CREATE TRIGGER memories_sync_au AFTER UPDATE OF content, type, importance, metadata, pinned, version ON memories BEGIN
+          UPDATE sync_state SET seq = seq + 1;
+          UPDATE memories SET change_seq = (SELECT seq FROM sync_state) WHERE rowid = new.rowid;
+        END;
+        
+        -- However a memory is deleted, replicas learn about it from a tombstone
+        CREATE TRIGGER memories_sync_ad AFTER DELETE ON memories BEGIN
+          UPDATE sync_state SET seq = seq + 1;
+          INSERT OR REPLACE INTO memory_tombstones (id, version, origin, updated_at, change_seq)
+          VALUES (old.id, old.version + 1, 'system', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), (SELECT seq FROM sync_state));
+        END;
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: 'encryption at rest',
+    up: (db) => {
+      // Blind tokens indexed in place of encrypted content (see encryption.ts)
+      addColumnIfMissing(db, 'memories', 'search_tokens', 'TEXT');
+      
+      db.exec(`
+        -- Data keys, wrapped by a master key
+        CREATE TABLE encryption_keys (
+          id TEXT PRIMARY KEY,
+          wrapped_key TEXT NOT NULL,
+          master_key_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          retired_at TEXT
+        );
+        
+        DROP TRIGGER IF EXISTS memories_ai;
+        DROP TRIGGER IF EXISTS memories_ad;
+        DROP TRIGGER IF EXISTS memories_au;
+        
+        CREATE TRIGGER memories_ai AFTER INSERT ON memories BEGIN
+          INSERT INTO memories_fts(rowid, content) VALUES (new.rowid, COALESCE(new.search_tokens, new.content));
+        END;
+        
+        CREATE TRIGGER memories_ad AFTER DELETE ON memories BEGIN
+          INSERT INTO memories_fts(memories_fts, rowid, content) VALUES('delete', old.rowid, COALESCE(old.search_tokens, old.content));
+        END;
+        
+        CREATE TRIGGER memories_au AFTER UPDATE OF content, search_tokens ON memories BEGIN
+          INSERT INTO memories_fts(memories_fts, rowid, content) VALUES('delete', old.rowid, COALESCE(old.search_tokens, old.content));
+          INSERT INTO memories_fts(rowid, content) VALUES (new.rowid, COALESCE(new.search_tokens, new.content));
+        END;
+        
+        -- History stays append-only, but may be re-encrypted under a new key
+        DROP TRIGGER memory_revisions_bu;
+        CREATE TRIGGER memory_revisions_bu
+        BEFORE UPDATE OF id, memory_id, revision, type, importance, actor, reason, created_at ON memory_revisions BEGIN
+          SELECT RAISE(ABORT, 'memory revisions are append-only');
+        END;
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: 'memory access log',
+    up: (db) => {
+      // Accesses after creation, including ones trimmed from the log (see activation.ts)
+      addColumnIfMissing(db, 'memories', 'access_count', 'INTEGER NOT NULL DEFAULT 0');
+      
+      db.exec(`
+        CREATE TABLE memory_accesses (
+          memory_id TEXT NOT NULL,
+          accessed_at TEXT NOT NULL
+        );
+        
+        CREATE INDEX idx_memory_accesses_memory ON memory_accesses(memory_id, accessed_at);
+        
+        CREATE TRIGGER memory_accesses_ad AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_accesses WHERE memory_id = old.id;
+        END;
+        
+        -- The last access is all that is known of earlier history
+        INSERT INTO memory_accesses (memory_id, accessed_at)
+        SELECT id, last_accessed FROM memories WHERE last_accessed IS NOT NULL;
+        
+        UPDATE memories SET access_count = 1 WHERE last_accessed IS NOT NULL;
+      `);
+    }
+  },
+  {
+    version: 12,
+    name: 'idempotent store',
+    up: (db) => {
+      // Fingerprint of normalized content for dedupe, filled in lazily (see memory.ts)
+      addColumnIfMissing(db, 'memories', 'content_hash', 'TEXT');
+      
+      db.exec(`
+        CREATE INDEX idx_memories_content_hash ON memories(content_hash);
+        
+        -- New content (or the same content under a new data key) needs a new hash
+        CREATE TRIGGER memories_content_hash_au AFTER UPDATE OF content ON memories BEGIN
+          UPDATE memories SET content_hash = NULL WHERE id = new.id;
+        END;
+        
+        -- Results of stores made with an Idempotency-Key, replayed on retry
+        CREATE TABLE idempotency_keys (
+          key TEXT PRIMARY KEY,
+          fingerprint TEXT NOT NULL,
+          results TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+        
+        CREATE INDEX idx_idempotency_keys_created ON idempotency_keys(created_at);
+      `);
+    }
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+// Apply pending migrations in order. Returns the versions before and after.
+export function migrate(
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS
+): { from: number; to: number } {
+  const from = getSchemaVersion(db);
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  
+  if (from > latest) {
+    throw new Error(`DB schema version ${from} is newer than this build supports (${latest})`);
+  }
+  
+  for (const migration of migrations) {
+    if (migration.version <= from) continue;
+    
+    db.transaction(() => {
+      // Another connection may have applied it while we waited for the lock
+      if (getSchemaVersion(db) >= migration.version) return;
+      
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    }).immediate();
+  }
+  
+  return { from, to: getSchemaVersion(db) };
+}
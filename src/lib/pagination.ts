@@ -0,0 +1,47 @@
+/**
+ * Pagination - Opaque keyset cursors for listing memories
+ *
+ * A cursor records the sort key and id of the last row of a page. The next
+ * page starts strictly after that (key, id) pair, so rows inserted while a
+ * client pages through are never skipped or repeated the way OFFSET would.
+ */
+
+import type { MemorySortField, SortOrder } from './types';
+
+export const MEMORY_SORT_FIELDS: MemorySortField[] = ['created_at', 'activation', 'importance', 'last_accessed'];
+
+export interface ListCursor {
+  sort: MemorySortField;
+  order: SortOrder;
+  // Sort key of the last row on the previous page
+  key: string | number;
+  id: string;
+}
+
+export function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.key, cursor.id])).toString('base64url');
+}
+
+// Returns null for anything that is not a cursor we issued
+export function decodeCursor(value: string): ListCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || parsed.length !== 4) {
+      return null;
+    }
+    
+    const [sort, order, key, id] = parsed;
+    if (
+      !MEMORY_SORT_FIELDS.includes(sort) ||
+      (order !== 'asc' && order !== 'desc') ||
+      (typeof key !== 'string' && typeof key !== 'number') ||
+      typeof id !== 'string'
+    ) {
+      return null;
+    }
+    
+    return { sort, order, key, id };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Portability - BotCore memory archive format
+ *
+ * An archive is newline-delimited JSON: a manifest record first, then one
+ * record per memory, then one per link between memories (format_version 2),
+ * then one per memory revision (format_version 3). Embeddings are not
+ * exported; they depend on the embedding model and are rebuilt on import.
+ *
+ *   {"kind":"manifest","format":"botcore-memory","format_version":3,...}
+ *   {"kind":"memory","data":{"id":"...","content":"...",...}}
+ *   {"kind":"link","data":{"id":"...","source_id":"...","target_id":"...",...}}
+ *   {"kind":"revision","data":{"id":"...","memory_id":"...","revision":1,...}}
+ */
+
+import { MAX_CONTENT_LENGTH } from './validation';
+import type { ArchiveManifest, Memory, MemoryLink, MemoryRevision, MemoryType } from './types';
+
+export const ARCHIVE_FORMAT = 'botcore-memory';
+export const ARCHIVE_FORMAT_VERSION = 3;
+export const ARCHIVE_CONTENT_TYPE = 'application/x-ndjson';
+
+const VALID_TYPES: MemoryType[] = ['factual', 'relational', 'procedural', 'episodic', 'semantic'];
+
+export type ArchiveRecord =
+  | ({ kind: 'manifest' } & ArchiveManifest)
+  | { kind: 'memory'; data: Memory }
+  | { kind: 'link'; data: MemoryLink }
+  | { kind: 'revision'; data: MemoryRevision };
+
+export interface ArchiveLineError {
+  line: number;
+  error: string;
+}
+
+export interface ParsedArchive {
+  manifest: ArchiveManifest | null;
+  memories: Memory[];
+  links: MemoryLink[];
+  revisions: MemoryRevision[];
+  errors: ArchiveLineError[];
+}
+
+export function serializeRecord(record: ArchiveRecord): string {
+  return JSON.stringify(record) + '\n';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateManifest(record: Record<string, unknown>): string | null {
+  if (record.format !== ARCHIVE_FORMAT) {
+    return `Unsupported archive format "${String(record.format)}"`;
+  }
+  if (typeof record.format_version !== 'number' || record.format_version > ARCHIVE_FORMAT_VERSION) {
+    return `Unsupported format_version ${String(record.format_version)} (max ${ARCHIVE_FORMAT_VERSION})`;
+  }
+  if (!isObject(record.counts) || typeof record.counts.memories !== 'number') {
+    return 'Manifest is missing "counts.memories"';
+  }
+  if (record.counts.links !== undefined && typeof record.counts.links !== 'number') {
+    return 'Invalid "counts.links"';
+  }
+  if (record.counts.revisions !== undefined && typeof record.counts.revisions !== 'number') {
+    return 'Invalid "counts.revisions"';
+  }
+  return null;
+}
+
+function validateMemory(data: unknown): string | null {
+  if (!isObject(data)) return '"data" must be an object';
+  if (!data.id || typeof data.id !== 'string') return 'Missing or invalid "id"';
+  if (!data.content || typeof data.content !== 'string') return 'Missing or invalid "content"';
+  if (data.content.length > MAX_CONTENT_LENGTH) return `"content" must be less than ${MAX_CONTENT_LENGTH} characters`;
+  if (!VALID_TYPES.includes(data.type as MemoryType)) return `Invalid type "${String(data.type)}"`;
+  for (const field of ['importance', 'activation']) {
+    const value = data[field];
+    if (typeof value !== 'number' || value < 0 || value > 1) {
+      return `"${field}" must be a number between 0 and 1`;
+    }
+  }
+  if (typeof data.created_at !== 'string' || isNaN(Date.parse(data.created_at))) {
+    return 'Missing or invalid "created_at"';
+  }
+  if (data.last_accessed !== undefined && (typeof data.last_accessed !== 'string' || isNaN(Date.parse(data.last_accessed)))) {
+    return 'Invalid "last_accessed"';
+  }
+  if (data.metadata !== undefined && !isObject(data.metadata)) {
+    return '"metadata" must be an object';
+  }
+  if (data.pinned !== undefined && typeof data.pinned !== 'boolean') {
+    return '"pinned" must be a boolean';
+  }
+  return null;
+}
+
+function validateLink(data: unknown): string | null {
+  if (!isObject(data)) return '"data" must be an object';
+  for (const field of ['id', 'source_id', 'target_id', 'relation']) {
+    if (!data[field] || typeof data[field] !== 'string') return `Missing or invalid "${field}"`;
+  }
+  if (data.source_id === data.target_id) return 'A memory cannot link to itself';
+  if (typeof data.weight !== 'number' || data.weight <= 0 || data.weight > 1) {
+    return '"weight" must be a number greater than 0 and at most 1';
+  }
+  if (typeof data.created_at !== 'string' || isNaN(Date.parse(data.created_at))) {
+    return 'Missing or invalid "created_at"';
+  }
+  return null;
+}
+
+function validateRevision(data: unknown): string | null {
+  if (!isObject(data)) return '"data" must be an object';
+  for (const field of ['id', 'memory_id', 'actor', 'reason']) {
+    if (!data[field] || typeof data[field] !== 'string') return `Missing or invalid "${field}"`;
+  }
+  if (!Number.isInteger(data.revision) || (data.revision as number) < 1) {
+    return '"revision" must be a positive integer';
+  }
+  if (!data.content || typeof data.content !== 'string') return 'Missing or invalid "content"';
+  if (!VALID_TYPES.includes(data.type as MemoryType)) return `Invalid type "${String(data.type)}"`;
+  if (typeof data.importance !== 'number' || data.importance < 0 || data.importance > 1) {
+    return '"importance" must be a number between 0 and 1';
+  }
+  if (data.metadata !== undefined && !isObject(data.metadata)) {
+    return '"metadata" must be an object';
+  }
+  if (typeof data.created_at !== 'string' || isNaN(Date.parse(data.created_at))) {
+    return 'Missing or invalid "created_at"';
+  }
+  return null;
+}
+
+// Parse and validate an archive; every problem is reported with its line number
+export function parseArchive(text: string): ParsedArchive {
+  const result: ParsedArchive = { manifest: null, memories: [], links: [], revisions: [], errors: [] };
+  const seenIds = new Set<string>();
+  const seenLinkIds = new Set<string>();
+  const seenRevisions = new Set<string>();
+  const lines = text.split('\n');
+  
+  lines.forEach((raw, index) => {
+    const line = index + 1;
+    if (!raw.trim()) return;
+    
+    let record: unknown;
+    try {
+      record = JSON.parse(raw);
+    } catch {
+      result.errors.push({ line, error: 'Invalid JSON' });
+      return;
+    }
+    
+    if (!isObject(record)) {
+      result.errors.push({ line, error: 'Record must be an object' });
+      return;
+    }
+    
+    if (record.kind === 'manifest') {
+      if (result.manifest || result.memories.length > 0 || result.links.length > 0 || result.revisions.length > 0) {
+        result.errors.push({ line, error: 'Manifest must be the first and only manifest record' });
+        return;
+      }
+      const error = validateManifest(record);
+      if (error) {
+        result.errors.push({ line, error });
+        return;
+      }
+      const manifest = { ...record };
+      delete manifest.kind;
+      result.manifest = manifest as unknown as ArchiveManifest;
+      return;
+    }
+    
+    if (record.kind === 'memory') {
+      if (!result.manifest) {
+        result.errors.push({ line, error: 'Memory record before manifest' });
+        return;
+      }
+      const error = validateMemory(record.data);
+      if (error) {
+        result.errors.push({ line, error });
+        return;
+      }
+      const memory = record.data as unknown as Memory;
+      if (seenIds.has(memory.id)) {
+        result.errors.push({ line, error: `Duplicate id "${memory.id}" in archive` });
+        return;
+      }
+      seenIds.add(memory.id);
+      result.memories.push(memory);
+      return;
+    }
+    
+    if (record.kind === 'link') {
+      if (!result.manifest) {
+        result.errors.push({ line, error: 'Link record before manifest' });
+        return;
+      }
+      const error = validateLink(record.data);
+      if (error) {
+        result.errors.push({ line, error });
+        return;
+      }
+      const link = record.data as unknown as MemoryLink;
+      if (seenLinkIds.has(link.id)) {
+        result.errors.push({ line, error: `Duplicate link id "${link.id}" in archive` });
+        return;
+      }
+      seenLinkIds.add(link.id);
+      result.links.push(link);
+      return;
+    }
+    
+    if (record.kind === 'revision') {
+      if (!result.manifest) {
+        result.errors.push({ line, error: 'Revision record before manifest' });
+        return;
+      }
+      const error = validateRevision(record.data);
+      if (error) {
+        result.errors.push({ line, error });
+        return;
+      }
+      const revision = record.data as unknown as MemoryRevision;
+      if (!seenIds.has(revision.memory_id)) {
+        result.errors.push({ line, error: `Revision of unknown memory "${revision.memory_id}"` });
+        return;
+      }
+      const key = `${revision.memory_id}:${revision.revision}`;
+      if (seenRevisions.has(key)) {
+        result.errors.push({ line, error: `Duplicate revision ${revision.revision} of memory "${revision.memory_id}"` });
+        return;
+      }
+      seenRevisions.add(key);
+      result.revisions.push(revision);
+      return;
+    }
+    
+    result.errors.push({ line, error: `Unknown record kind "${String(record.kind)}"` });
+  });
+  
+  if (!result.manifest && result.errors.length === 0) {
+    result.errors.push({ line: 1, error: 'Archive is missing a manifest' });
+  }
+  
+  if (result.manifest && result.errors.length === 0 && result.manifest.counts.memories !== result.memories.length) {
+    result.errors.push({
+      line: 1,
+      error: `Manifest declares ${result.manifest.counts.memories} memories but archive contains ${result.memories.length}`
+    });
+  }
+  
+  const declaredLinks = result.manifest?.counts.links ?? 0;
+  if (result.manifest && result.errors.length === 0 && declaredLinks !== result.links.length) {
+    result.errors.push({
+      line: 1,
+      error: `Manifest declares ${declaredLinks} links but archive contains ${result.links.length}`
+    });
+  }
+  
+  const declaredRevisions = result.manifest?.counts.revisions ?? 0;
+  if (result.manifest && result.errors.length === 0 && declaredRevisions !== result.revisions.length) {
+    result.errors.push({
+      line: 1,
+      error: `Manifest declares ${declaredRevisions} revisions but archive contains ${result.revisions.length}`
+    });
+  }
+  
+  return result;
+}
@@ -0,0 +1,81 @@
+/**
+ * Recall Filters - Compile structured recall filters into SQL conditions
+ *
+ * Metadata paths are validated against METADATA_PATH_PATTERN and bound as
+ * parameters to json_extract(), so no filter input is ever spliced into SQL.
+ * Metadata is read through decrypt_text() (see encryption.ts), so the
+ * conditions need a memory DB handle.
+ */
+
+import type { MemoryType, MetadataValue, RecallFilters } from './types';
+
+export interface SqlCondition {
+  // " AND ..." fragment against the memories table aliased as m ('' if none)
+  sql: string;
+  params: (string | number)[];
+}
+
+// Dotted object keys, e.g. "channel" or "user.lang"
+export const METADATA_PATH_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+export const MAX_IN_VALUES = 50;
+
+// json_extract() returns JSON true/false as 1/0
+function toSqlValue(value: Exclude<MetadataValue, null>): string | number {
+  return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+}
+
+export function hasFilters(filters?: RecallFilters): boolean {
+  return !!filters && (
+    filters.created_after !== undefined ||
+    filters.created_before !== undefined ||
+    filters.min_importance !== undefined ||
+    Object.keys(filters.metadata ?? {}).length > 0
+  );
+}
+
+export function compileFilters(types?: MemoryType[], filters: RecallFilters = {}): SqlCondition {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+  
+  if (types && types.length > 0) {
+    clauses.push(`m.type IN (${types.map(() => '?').join(',')})`);
+    params.push(...types);
+  }
+  
+  // created_at is stored as ISO 8601 UTC, so normalized strings compare in order
+  if (filters.created_after !== undefined) {
+    clauses.push('m.created_at >= ?');
+    params.push(new Date(filters.created_after).toISOString());
+  }
+  
+  if (filters.created_before !== undefined) {
+    clauses.push('m.created_at < ?');
+    params.push(new Date(filters.created_before).toISOString());
+  }
+  
+  if (filters.min_importance !== undefined) {
+    clauses.push('m.importance >= ?');
+    params.push(filters.min_importance);
+  }
+  
+  for (const [key, predicate] of Object.entries(filters.metadata ?? {})) {
+    const path = `$.${key}`;
+    
+    if (predicate === null) {
+      clauses.push('json_extract(decrypt_text(m.metadata), ?) IS NULL');
+      params.push(path);
+    } else if (typeof predicate === 'object') {
+      clauses.push(`json_extract(decrypt_text(m.metadata), ?) IN (${predicate.in.map(() => '?').join(',')})`);
+      params.push(path, ...predicate.in.map(toSqlValue));
+    } else {
+      clauses.push('json_extract(decrypt_text(m.metadata), ?) = ?');
+      params.push(path, toSqlValue(predicate));
+    }
+  }
+  
+  return {
+    sql: clauses.map(clause => ` AND ${clause}`).join(''),
+    params
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Retention - Age and count limits on stored memories
+ *
+ * A tier policy sets the ceiling and an instance policy may only tighten
+ * it. Each memory is judged by its type's rule, falling back to the base
+ * rule field by field. Count limits keep the newest memories: a per-type
+ * max_count counts memories of that type, the base max_count counts all
+ * memories without a per-type count limit.
+ */
+
+import type { MemoryType, RetentionPolicy, RetentionRule } from './types';
+
+export interface RetentionCandidate {
+  id: string;
+  type: MemoryType;
+  created_at: string;
+}
+
+export interface RetentionRemoval {
+  id: string;
+  reason: 'max_age' | 'max_count';
+}
+
+export interface RetentionPlan {
+  remove: RetentionRemoval[];
+  // When the next memory that survives this plan will exceed its max age
+  nextExpiry: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lower of two limits, where null/undefined means unlimited
+function stricter(a?: number | null, b?: number | null): number | null {
+  if (a === undefined || a === null) return b ?? null;
+  if (b === undefined || b === null) return a;
+  return Math.min(a, b);
+}
+
+function stricterRule(a: RetentionRule, b: RetentionRule): RetentionRule {
+  return {
+    max_age_days: stricter(a.max_age_days, b.max_age_days),
+    max_count: stricter(a.max_count, b.max_count)
+  };
+}
+
+// Rule that applies to memories of a type
+export function ruleForType(policy: RetentionPolicy, type: MemoryType): RetentionRule {
+  const override = policy.types?.[type] ?? {};
+  return {
+    max_age_days: override.max_age_days !== undefined ? override.max_age_days : policy.max_age_days ?? null,
+    max_count: override.max_count !== undefined ? override.max_count : policy.max_count ?? null
+  };
+}
+
+// Longest any memory may be kept under the policy; null if some are kept
+// indefinitely. Snapshots past it hold only memories retention removed.
+export function retentionHorizonDays(policy: RetentionPolicy): number | null {
+  let horizon = policy.max_age_days ?? null;
+  for (const rule of Object.values(policy.types ?? {})) {
+    if (horizon === null || rule?.max_age_days === undefined) continue;
+    horizon = rule.max_age_days === null ? null : Math.max(horizon, rule.max_age_days);
+  }
+  return horizon;
+}
+
+// Combine the tier ceiling with an instance policy; the stricter limit wins
+export function effectivePolicy(tier: RetentionPolicy, instance: RetentionPolicy | null): RetentionPolicy {
+  if (!instance) {
+    return tier;
+  }
+  
+  const types = new Set([...Object.keys(tier.types ?? {}), ...Object.keys(instance.types ?? {})] as MemoryType[]);
+  const policy: RetentionPolicy = stricterRule(tier, instance);
+  
+  if (types.size > 0) {
+    policy.types = {};
+    for (const type of types) {
+      // Only fields overridden on either side become overrides, so a base
+      // max_count keeps counting across types
+      const tierRule = ruleForType(tier, type);
+      const instanceRule = ruleForType(instance, type);
+      const rule: RetentionRule = {};
+      
+      for (const field of ['max_age_days', 'max_count'] as const) {
+        if (tier.types?.[type]?.[field] !== undefined || instance.types?.[type]?.[field] !== undefined) {
+          rule[field] = stricter(tierRule[field], instanceRule[field]);
+        }
+      }
+      policy.types[type] = rule;
+    }
+  }
+  
+  return policy;
+}
+
+// Decide which memories the policy removes at `now`
+export function planRetention(
+  candidates: RetentionCandidate[],
+  policy: RetentionPolicy,
+  now: number = Date.now()
+): RetentionPlan {
+  const remove: RetentionRemoval[] = [];
+  const kept: { candidate: RetentionCandidate; rule: RetentionRule }[] = [];
+  
+  // Newest first, so count limits keep the head of each scope
+  const sorted = [...candidates].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const seenPerScope = new Map<string, number>();
+  
+  for (const candidate of sorted) {
+    const rule = ruleForType(policy, candidate.type);
+    const createdAt = Date.parse(candidate.created_at);
+    
+    if (rule.max_age_days !== null && rule.max_age_days !== undefined && now - createdAt > rule.max_age_days * DAY_MS) {
+      remove.push({ id: candidate.id, reason: 'max_age' });
+      continue;
+    }
+    
+    if (rule.max_count !== null && rule.max_count !== undefined) {
+      const scope = policy.types?.[candidate.type]?.max_count !== undefined ? candidate.type : '*';
+      const seen = seenPerScope.get(scope) ?? 0;
+      seenPerScope.set(scope, seen + 1);
+      
+      if (seen >= rule.max_count) {
+        remove.push({ id: candidate.id, reason: 'max_count' });
+        continue;
+      }
+    }
+    
+    kept.push({ candidate, rule });
+  }
+  
+  let nextExpiry: number | null = null;
+  for (const { candidate, rule } of kept) {
+    if (rule.max_age_days === null || rule.max_age_days === undefined) continue;
+    const expiresAt = Date.parse(candidate.created_at) + rule.max_age_days * DAY_MS;
+    if (nextExpiry === null || expiresAt < nextExpiry) {
+      nextExpiry = expiresAt;
+    }
+  }
+  
+  return {
+    remove,
+    nextExpiry: nextExpiry !== null ? new Date(nextExpiry).toISOString() : null
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Scoring - Relevance ranking for recall
+ *
+ * Every candidate gets a weighted sum of normalized (0..1) components:
+ *   text        bm25() keyword relevance, relative to the best match
+ *   semantic    embedding cosine similarity
+ *   activation  how strongly the memory is currently activated
+ *   importance  importance assigned at store time
+ *   recency     exponential decay since last access (or creation)
+ *
+ * Defaults can be tuned per deployment via RECALL_WEIGHT_* env vars and
+ * overridden per request.
+ */
+
+export interface ScoringWeights {
+  text: number;
+  semantic: number;
+  activation: number;
+  importance: number;
+  recency: number;
+}
+
+export interface ScoringCandidate {
+  id: string;
+  // bm25() of the keyword match (lower is better); null if not a keyword hit
+  bm25: number | null;
+  // Matched by the LIKE fallback, which has no bm25
+  likeMatch?: boolean;
+  // Cosine similarity to the query embedding; null if not a vector hit
+  similarity: number | null;
+  activation: number;
+  importance: number;
+  created_at: string;
+  last_accessed: string | null;
+}
+
+export interface ScoreComponents {
+  text: number;
+  semantic: number;
+  activation: number;
+  importance: number;
+  recency: number;
+}
+
+export interface ScoredCandidate {
+  id: string;
+  score: number;
+  components: ScoreComponents;
+}
+
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+  text: 0.4,
+  semantic: 0.3,
+  activation: 0.1,
+  importance: 0.1,
+  recency: 0.1
+};
+
+// Days for the recency component to halve
+export const RECENCY_HALF_LIFE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function envWeight(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+// Deployment defaults, with optional per-request overrides
+export function getScoringWeights(overrides: Partial<ScoringWeights> = {}): ScoringWeights {
+  return {
+    text: overrides.text ?? envWeight('RECALL_WEIGHT_TEXT', DEFAULT_WEIGHTS.text),
+    semantic: overrides.semantic ?? envWeight('RECALL_WEIGHT_SEMANTIC', DEFAULT_WEIGHTS.semantic),
+    activation: overrides.activation ?? envWeight('RECALL_WEIGHT_ACTIVATION', DEFAULT_WEIGHTS.activation),
+    importance: overrides.importance ?? envWeight('RECALL_WEIGHT_IMPORTANCE', DEFAULT_WEIGHTS.importance),
+    recency: overrides.recency ?? envWeight('RECALL_WEIGHT_RECENCY', DEFAULT_WEIGHTS.recency)
+  };
+}
+
+export function recencyScore(timestamp: string, now: number): number {
+  const ageDays = Math.max(0, now - Date.parse(timestamp)) / DAY_MS;
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+// Score and sort candidates, best first
+export function scoreCandidates(
+  candidates: ScoringCandidate[],
+  weights: ScoringWeights,
+  now: number = Date.now()
+): ScoredCandidate[] {
+  // bm25() is unbounded, so normalize against the best keyword hit in this set
+  const bestBm25 = Math.max(0, ...candidates.map(c => (c.bm25 !== null ? -c.bm25 : 0)));
+  
+  return candidates
+    .map(candidate => {
+      const components: ScoreComponents = {
+        text: candidate.bm25 !== null && bestBm25 > 0
+          ? -candidate.bm25 / bestBm25
+          : candidate.bm25 !== null || candidate.likeMatch ? 1 : 0,
+        semantic: Math.max(0, candidate.similarity ?? 0),
+        activation: candidate.activation,
+        importance: candidate.importance,
+        recency: recencyScore(candidate.last_accessed || candidate.created_at, now)
+      };
+      
+      const score =
+        weights.text * components.text +
+        weights.semantic * components.semantic +
+        weights.activation * components.activation +
+        weights.importance * components.importance +
+        weights.recency * components.recency;
+      
+      return { id: candidate.id, score, components };
+    })
+    .sort((a, b) => b.score - a.score);
+}
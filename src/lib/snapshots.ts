@@ -0,0 +1,138 @@
+/**
+ * Snapshots - Point-in-time copies of an instance DB
+ *
+ * Snapshots are taken with SQLite's online backup API, so writes can go on
+ * while one is copied. Each lives next to its DB as <snapshots>/<id>.db
+ * plus a <id>.json descriptor, written last: a copy without a descriptor
+ * never completed and is not listed. Copies keep the DB's encryption and
+ * tenant marker, so they are only readable the way the DB itself is.
+ *
+ * Automatic snapshots (scheduled, and before consolidate, import and
+ * restore) are pruned by SNAPSHOT_POLICY; manual ones stay until deleted.
+ * Snapshots of any kind go once they are older than the instance's
+ * retention horizon. Manual snapshot files count toward the storage quota;
+ * automatic ones are taken on the service's behalf and do not.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SNAPSHOT_POLICY } from './types';
+import type { Snapshot, SnapshotPolicy } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SNAPSHOT_ID_PATTERN = /^\d{8}T\d{9}Z-[0-9a-f]{6}$/;
+
+export function isValidSnapshotId(id: string): boolean {
+  return SNAPSHOT_ID_PATTERN.test(id);
+}
+
+// Sortable by creation time, e.g. 20260101T120000000Z-3fa2c1
+export function newSnapshotId(now: number): string {
+  const stamp = new Date(now).toISOString().replace(/[-:.]/g, '');
+  return `${stamp}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+export function snapshotDir(dbFile: string): string {
+  return path.join(path.dirname(dbFile), 'snapshots');
+}
+
+export function snapshotFile(dbFile: string, id: string): string {
+  return path.join(snapshotDir(dbFile), `${id}.db`);
+}
+
+function descriptorFile(dbFile: string, id: string): string {
+  return path.join(snapshotDir(dbFile), `${id}.json`);
+}
+
+// Mark a copy complete
+export function writeSnapshotDescriptor(dbFile: string, snapshot: Omit<Snapshot, 'bytes'>): void {
+  fs.writeFileSync(descriptorFile(dbFile, snapshot.id), JSON.stringify(snapshot));
+}
+
+export function readSnapshot(dbFile: string, id: string): Snapshot | null {
+  if (!isValidSnapshotId(id)) {
+    return null;
+  }
+  
+  try {
+    const snapshot = JSON.parse(fs.readFileSync(descriptorFile(dbFile, id), 'utf8')) as Omit<Snapshot, 'bytes'>;
+    return { ...snapshot, bytes: fs.statSync(snapshotFile(dbFile, id)).size };
+  } catch {
+    return null;
+  }
+}
+
+// Completed snapshots, newest first
+export function readSnapshots(dbFile: string): Snapshot[] {
+  const dir = snapshotDir(dbFile);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  
+  return fs.readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .map(name => readSnapshot(dbFile, name.slice(0, -'.json'.length)))
+    .filter((snapshot): snapshot is Snapshot => snapshot !== null)
+    .sort((a, b) => b.id.localeCompare(a.id));
+}
+
+// Bytes held by an instance's completed manual snapshots
+export function manualSnapshotBytes(dbFile: string): number {
+  return readSnapshots(dbFile)
+    .filter(snapshot => snapshot.reason === 'manual')
+    .reduce((sum, snapshot) => sum + snapshot.bytes, 0);
+}
+
+// Remove a snapshot with its descriptor and any SQLite side files
+export function removeSnapshot(dbFile: string, id: string): boolean {
+  if (!isValidSnapshotId(id)) {
+    return false;
+  }
+  
+  const file = snapshotFile(dbFile, id);
+  const existed = fs.existsSync(descriptorFile(dbFile, id));
+  // Descriptor first, so a half-removed snapshot is no longer listed
+  for (const target of [descriptorFile(dbFile, id), file, `${file}-wal`, `${file}-shm`]) {
+    fs.rmSync(target, { force: true });
+  }
+  return existed;
+}
+
+// Snapshots the policy no longer keeps. Scheduled ones keep the newest of
+// each UTC day for daily_days days; the others are kept for automatic_days,
+// at most max_automatic of them. Any snapshot older than horizonDays (the
+// retention horizon, null = none) goes.
+export function planSnapshotPruning(
+  snapshots: Snapshot[],
+  now: number,
+  policy: SnapshotPolicy = SNAPSHOT_POLICY,
+  horizonDays: number | null = null
+): Snapshot[] {
+  const newestFirst = [...snapshots].sort((a, b) => b.id.localeCompare(a.id));
+  const days = new Set<string>();
+  let automatic = 0;
+  
+  return newestFirst.filter(snapshot => {
+    const age = now - Date.parse(snapshot.created_at);
+    if (horizonDays !== null && age > horizonDays * DAY_MS) {
+      return true;
+    }
+    
+    switch (snapshot.reason) {
+      case 'manual':
+        return false;
+      case 'scheduled': {
+        const day = snapshot.created_at.slice(0, 10);
+        if (age >= policy.daily_days * DAY_MS || days.has(day)) {
+          return true;
+        }
+        days.add(day);
+        return false;
+      }
+      default:
+        return age >= policy.automatic_days * DAY_MS || ++automatic > policy.max_automatic;
+    }
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Storage - Tenant-safe locations for memory DBs
+ *
+ * Every tenant (user) owns one directory under MEMORY_STORAGE_PATH, named by
+ * an opaque id derived from the user id, so user ids never reach the
+ * filesystem. An instance's db_path is resolved relative to the storage root
+ * and refused unless it stays inside its tenant's directory.
+ *
+ * Each DB also records the tenant that owns it (settings table), so a handle
+ * is never served to another tenant even if a db_path points at its file.
+ */
+
+import type Database from 'better-sqlite3';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// settings key holding the owner's tenant id
+export const TENANT_SETTING = 'tenant';
+
+export function getStorageRoot(): string {
+  return path.resolve(process.env.MEMORY_STORAGE_PATH || '/tmp/botcorebot-memory');
+}
+
+// Directory name of a tenant: stable, filesystem-safe and not reversible
+export function tenantDirId(userId: string): string {
+  return crypto.createHash('sha256').update(`tenant:${userId}`).digest('hex').slice(0, 32);
+}
+
+// Instances created before opaque ids live under the raw user id
+function tenantDirs(userId: string): string[] {
+  return [tenantDirId(userId), userId];
+}
+
+// Resolve a tenant's db_path to a file under the storage root. Throws for
+// absolute paths, paths escaping the root and paths outside the tenant's directory.
+export function resolveDbPath(userId: string, dbPath: string): string {
+  if (!dbPath || dbPath.includes('\0') || path.isAbsolute(dbPath)) {
+    throw new Error(`Invalid memory DB path "${dbPath}"`);
+  }
+  
+  const root = getStorageRoot();
+  const resolved = path.resolve(root, dbPath);
+  const segments = path.relative(root, resolved).split(path.sep);
+  if (segments[0] === '..' || path.isAbsolute(segments[0]) || segments.length < 2) {
+    throw new Error(`Memory DB path "${dbPath}" is outside the storage root`);
+  }
+  
+  if (!tenantDirs(userId).includes(segments[0])) {
+    throw new Error(`Memory DB path "${dbPath}" does not belong to this tenant`);
+  }
+  
+  return resolved;
+}
+
+// db_path of a tenant's default DB from before opaque ids (written at
+// <user id>/engram.db), if that file exists. New default instances use it,
+// so users who had memories before their instance was recorded keep them.
+export function legacyDefaultDbPath(userId: string): string | null {
+  const dbPath = `${userId}/engram.db`;
+  try {
+    return fs.existsSync(resolveDbPath(userId, dbPath)) ? dbPath : null;
+  } catch {
+    // Ids that are not a single path segment never had a legacy DB
+    return null;
+  }
+}
+
+function readOwner(db: Database.Database): string | undefined {
+  return db.prepare('SELECT value FROM settings WHERE key = ?').pluck().get(TENANT_SETTING) as string | undefined;
+}
+
+// Refuse a DB (e.g. a snapshot) unless it is recorded as the tenant's own
+export function verifyTenant(db: Database.Database, userId: string): void {
+  if (readOwner(db) !== tenantDirId(userId)) {
+    throw new Error('Memory DB belongs to another tenant');
+  }
+}
+
+// Tenant ids already checked per open handle
+const verifiedOwners = new WeakMap<Database.Database, string>();
+
+// Refuse a DB owned by another tenant. DBs without an owner yet (new or
+// created before owners were recorded) are claimed by the first tenant to open them.
+export function claimTenant(db: Database.Database, userId: string): void {
+  const tenant = tenantDirId(userId);
+  let owner = verifiedOwners.get(db);
+  
+  if (owner === undefined) {
+    db.prepare('INSERT OR IGNORE INTO settings (key, value) VALUES (?, ?)').run(TENANT_SETTING, tenant);
+    owner = readOwner(db)!;
+    verifiedOwners.set(db, owner);
+  }
+  
+  if (owner !== tenant) {
+    throw new Error('Memory DB belongs to another tenant');
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Summarizer - Pluggable episodic-to-semantic summarization
+ *
+ * Consolidation can hand groups of related episodic memories ("user asked
+ * about X on Tuesday") to a summarizer and store what they have in common
+ * as one semantic memory. The StubSummarizer is deterministic and needs no
+ * network, for tests and local dev; configure a model-backed summarizer
+ * via SUMMARIZER_PROVIDER.
+ */
+
+export interface Episode {
+  content: string;
+  created_at: string;
+}
+
+export interface Summarizer {
+  // Recorded on the summaries it writes
+  readonly model: string;
+  // A durable fact the episodes support, or null if they share none
+  summarize(episodes: Episode[]): Promise<string | null>;
+}
+
+// Deterministic offline summarizer: lists the episodes oldest first
+export class StubSummarizer implements Summarizer {
+  readonly model = 'stub';
+  
+  async summarize(episodes: Episode[]): Promise<string | null> {
+    if (episodes.length === 0) {
+      return null;
+    }
+    
+    const ordered = [...episodes].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    return `Across ${episodes.length} episodes: ${ordered.map(episode => episode.content).join('; ')}`;
+  }
+}
+
+const SUMMARY_PROMPT = [
+  'You turn episodic memories of an assistant into durable semantic memory.',
+  'Given dated episodes about a user, write one short statement of what they',
+  'reveal that stays true beyond any single episode (a preference, a habit, an',
+  'ongoing interest or a fact about the user), in the third person and without',
+  'dates. If the episodes share no such fact, answer exactly NONE.'
+].join(' ');
+
+// OpenAI-compatible chat completions endpoint
+export class OpenAISummarizer implements Summarizer {
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+  
+  constructor(apiKey: string, model = 'gpt-4o-mini', baseUrl = 'https://api.openai.com/v1') {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.baseUrl = baseUrl;
+  }
+  
+  async summarize(episodes: Episode[]): Promise<string | null> {
+    if (episodes.length === 0) return null;
+    
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: SUMMARY_PROMPT },
+          { role: 'user', content: episodes.map(episode => `[${episode.created_at}] ${episode.content}`).join('\n') }
+        ]
+      }),
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Summary request failed: ${response.status} ${await response.text()}`);
+    }
+    
+    const data = await response.json() as { choices: { message: { content: string | null } }[] };
+    const summary = data.choices[0]?.message.content?.trim();
+    return summary && summary !== 'NONE' ? summary : null;
+  }
+}
+
+let defaultSummarizer: Summarizer | null | undefined;
+
+// Summarizer configured via environment (null when summarization is off)
+export function getSummarizer(): Summarizer | null {
+  if (defaultSummarizer !== undefined) {
+    return defaultSummarizer;
+  }
+  
+  const provider = process.env.SUMMARIZER_PROVIDER || 'none';
+  
+  switch (provider) {
+    case 'none':
+      defaultSummarizer = null;
+      break;
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('SUMMARIZER_PROVIDER=openai requires OPENAI_API_KEY');
+      }
+      defaultSummarizer = new OpenAISummarizer(
+        apiKey,
+        process.env.SUMMARIZER_MODEL || undefined,
+        process.env.OPENAI_BASE_URL || undefined
+      );
+      break;
+    }
+    case 'stub':
+      defaultSummarizer = new StubSummarizer();
+      break;
+    default:
+      throw new Error(`Unknown SUMMARIZER_PROVIDER "${provider}"`);
+  }
+  
+  return defaultSummarizer;
+}
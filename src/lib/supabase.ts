@@ -1,5 +1,6 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import type { ApiKey, MemoryInstance, UsageLog } from './types';
+import { legacyDefaultDbPath, tenantDirId } from './storage';
+import type { ApiKey, MemoryInstance, StorageUsageRecord, UsageLog } from './types';
 
 // Server-side Supabase client (use service key for admin operations)
 export function getSupabaseAdmin(): SupabaseClient {
@@ -15,17 +16,22 @@ export function getSupabaseAdmin(): SupabaseClient {
   });
 }
 
+// User ID assigned to TEST_API_KEY requests
+const TEST_USER_ID = 'test-user';
+const TEST_KEY_ID = 'test-key';
+
 // Validate API key and return user info
 export async function validateApiKey(apiKey: string): Promise<{
   valid: boolean;
-  user?: { id: string; tier: ApiKey['tier'] };
+  user?: { id: string; tier: ApiKey['tier']; keyId: string };
   error?: string;
 }> {
-  // For development/testing
-  if (process.env.TEST_API_KEY && apiKey === process.env.TEST_API_KEY) {
+  // For development/testing. Never honoured in production, where every
+  // caller holding it would share the test user's memories.
+  if (process.env.TEST_API_KEY && process.env.NODE_ENV !== 'production' && apiKey === process.env.TEST_API_KEY) {
     return {
       valid: true,
-      user: { id: 'test-user', tier: 'pro' }
+      user: { id: TEST_USER_ID, tier: 'pro', keyId: TEST_KEY_ID }
     };
   }
   
@@ -52,18 +58,46 @@ export async function validateApiKey(apiKey: string): Promise<{
   
   return {
     valid: true,
-    user: { id: data.user_id, tier: data.tier }
+    user: { id: data.user_id, tier: data.tier, keyId: data.id }
   };
 }
 
-// Get or create memory instance for user
-export async function getMemoryInstance(userId: string): Promise<MemoryInstance | null> {
+export const DEFAULT_INSTANCE_NAME = 'default';
+
+// DB location for an instance, relative to MEMORY_STORAGE_PATH. Instances
+// created earlier keep their paths under the raw user id, and so does a
+// default instance whose DB was written there before it was recorded.
+export function instanceDbPath(userId: string, name: string): string {
+  const tenant = tenantDirId(userId);
+  if (name === DEFAULT_INSTANCE_NAME) {
+    return legacyDefaultDbPath(userId) ?? `${tenant}/engram.db`;
+  }
+  return `${tenant}/instances/${name}/engram.db`;
+}
+
+// Get a named memory instance (the default one is created on first use)
+export async function getMemoryInstance(
+  userId: string,
+  name: string = DEFAULT_INSTANCE_NAME
+): Promise<MemoryInstance | null> {
+  // For development/testing: instances of the test user exist implicitly
+  if (userId === TEST_USER_ID) {
+    return {
+      id: `${TEST_USER_ID}:${name}`,
+      user_id: userId,
+      db_path: instanceDbPath(userId, name),
+      name,
+      created_at: new Date(0).toISOString()
+    };
+  }
+  
   const supabase = getSupabaseAdmin();
   
   const { data, error } = await supabase
     .from('memory_instances')
     .select('*')
     .eq('user_id', userId)
+    .eq('name', name)
     .single();
   
   if (error && error.code !== 'PGRST116') {
@@ -76,11 +110,85 @@ export async function getMemoryInstance(userId: string): Promise<MemoryInstance
     return data as MemoryInstance;
   }
   
-  // Create new instance for user
+  if (name !== DEFAULT_INSTANCE_NAME) {
+    return null;
+  }
+  
+  return createMemoryInstance(userId, name);
+}
+
+// List all memory instances for user
+export async function listMemoryInstances(userId: string): Promise<MemoryInstance[]> {
+  // The test user's named instances are implicit, so only the default is known
+  if (userId === TEST_USER_ID) {
+    return [(await getMemoryInstance(userId)) as MemoryInstance];
+  }
+  
+  const supabase = getSupabaseAdmin();
+  
+  const { data, error } = await supabase
+    .from('memory_instances')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  
+  if (error) {
+    throw new Error(`Failed to list memory instances: ${error.message}`);
+  }
+  
+  return (data || []) as MemoryInstance[];
+}
+
+const TIER_ORDER: ApiKey['tier'][] = ['free', 'pro', 'enterprise'];
+
+// Requests run under their API key's tier, so scheduled maintenance takes
+// the highest tier among the owner's keys rather than a separate account tier
+function highestKeyTier(keys: { tier: ApiKey['tier'] }[]): ApiKey['tier'] {
+  return keys.reduce<ApiKey['tier']>(
+    (tier, key) => TIER_ORDER.indexOf(key.tier) > TIER_ORDER.indexOf(tier) ? key.tier : tier,
+    'free'
+  );
+}
+
+// Every memory instance with its owner's tier, for scheduled maintenance
+export async function listAllMemoryInstances(): Promise<(MemoryInstance & { tier: ApiKey['tier'] })[]> {
+  const supabase = getSupabaseAdmin();
+  const pageSize = 1000;
+  const instances: (MemoryInstance & { tier: ApiKey['tier'] })[] = [];
+  
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('memory_instances')
+      .select('*, users(api_keys(tier))')
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1);
+    
+    if (error) {
+      throw new Error(`Failed to list memory instances: ${error.message}`);
+    }
+    
+    for (const row of data || []) {
+      const { users, ...instance } = row as MemoryInstance & { users: { api_keys: { tier: ApiKey['tier'] }[] } | null };
+      instances.push({ ...instance, tier: highestKeyTier(users?.api_keys ?? []) });
+    }
+    
+    if (!data || data.length < pageSize) {
+      return instances;
+    }
+  }
+}
+
+// Create a named memory instance
+export async function createMemoryInstance(
+  userId: string,
+  name: string
+): Promise<MemoryInstance | null> {
+  const supabase = getSupabaseAdmin();
+  
   const newInstance = {
     user_id: userId,
-    db_path: `memory/${userId}/engram.db`,
-    name: 'default',
+    db_path: instanceDbPath(userId, name),
+    name,
     created_at: new Date().toISOString()
   };
   
@@ -98,6 +206,24 @@ export async function getMemoryInstance(userId: string): Promise<MemoryInstance
   return created as MemoryInstance;
 }
 
+// Delete a named memory instance record
+export async function deleteMemoryInstance(userId: string, name: string): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+  
+  const { data, error } = await supabase
+    .from('memory_instances')
+    .delete()
+    .eq('user_id', userId)
+    .eq('name', name)
+    .select('id');
+  
+  if (error) {
+    throw new Error(`Failed to delete memory instance: ${error.message}`);
+  }
+  
+  return (data || []).length > 0;
+}
+
 // Log API usage
 export async function logUsage(
   userId: string,
@@ -116,6 +242,22 @@ export async function logUsage(
   await supabase.from('usage_log').insert(log);
 }
 
+// Record daily storage usage; a later run on the same day replaces the figures
+export async function recordStorageUsage(records: StorageUsageRecord[]): Promise<void> {
+  if (records.length === 0) {
+    return;
+  }
+  
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase
+    .from('storage_usage')
+    .upsert(records, { onConflict: 'instance_id,date' });
+  
+  if (error) {
+    throw new Error(`Failed to record storage usage: ${error.message}`);
+  }
+}
+
 // Check usage quota
 export async function checkQuota(
   userId: string,
@@ -0,0 +1,32 @@
+/**
+ * Sync - Conflict resolution for replicas sharing one memory instance
+ *
+ * Every write of a memory (including its deletion, kept as a tombstone)
+ * carries a SyncVersion. Replicas bump the version of the write they build
+ * on; when two writes compete, the one with the greatest
+ * (version, updated_at, origin) wins. Every replica applies the same order,
+ * so all of them converge on the same state whatever order changes arrive in.
+ *
+ * Protocol for a client:
+ *   1. Pull changes since its cursor until has_more is false, applying each
+ *      unless it holds an unpushed local write that wins over it.
+ *   2. Push its local writes. Stale ones lost to a newer write, which the
+ *      next pull delivers.
+ */
+
+import type { SyncVersion } from './types';
+
+// Pushed updated_at may run ahead of the server clock by at most this much,
+// so a client with a fast clock cannot win every conflict
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Negative if a loses to b, positive if a wins, 0 for the same write
+export function compareSyncVersions(a: SyncVersion, b: SyncVersion): number {
+  if (a.version !== b.version) {
+    return a.version - b.version;
+  }
+  if (a.updated_at !== b.updated_at) {
+    return Date.parse(a.updated_at) - Date.parse(b.updated_at) || (a.updated_at < b.updated_at ? -1 : 1);
+  }
+  return a.origin < b.origin ? -1 : a.origin > b.origin ? 1 : 0;
+}
@@ -11,6 +11,12 @@ export interface Memory {
   created_at: string;
   last_accessed?: string;
   metadata?: Record<string, unknown>;
+  // Pinned memories are never decayed, forgotten or expired
+  pinned: boolean;
+  // Sync: bumped on every change to the synced fields, with who made it and when
+  version: number;
+  origin: string;
+  updated_at: string;
 }
 
 export type MemoryType = 
@@ -24,23 +30,313 @@ export interface RecallRequest {
   query: string;
   limit?: number;
   types?: MemoryType[];
+  weights?: RecallWeights;
+  // Also return memories linked to the hits, up to this many hops away (0-2)
+  expand_hops?: number;
+  filters?: RecallFilters;
+  // Attach a score breakdown to each result and describe how the query ran
+  explain?: boolean;
+}
+
+// Structured recall filters; all given conditions must hold
+export interface RecallFilters {
+  // Inclusive lower / exclusive upper bound on created_at (ISO 8601)
+  created_after?: string;
+  created_before?: string;
+  min_importance?: number;
+  // Dotted metadata path (e.g. "channel" or "user.lang") -> predicate
+  metadata?: Record<string, MetadataPredicate>;
+}
+
+export type MetadataValue = string | number | boolean | null;
+
+// Equality with a value, or membership in a list of values
+export type MetadataPredicate = MetadataValue | { in: Exclude<MetadataValue, null>[] };
+
+// Relevance weights for recall ranking; omitted ones use the server defaults
+export interface RecallWeights {
+  text?: number;
+  semantic?: number;
+  activation?: number;
+  importance?: number;
+  recency?: number;
 }
 
 export interface RecallResponse {
-  results: Memory[];
+  results: RecalledMemory[];
+  // Memories reached from the results via links (only with expand_hops)
+  related?: RelatedMemory[];
+  // Only with explain
+  explain?: RecallExplanation;
   took_ms: number;
 }
 
+export interface RecalledMemory extends Memory {
+  // Only with explain
+  explanation?: ScoreExplanation;
+}
+
+// Why a memory ranked where it did
+export interface ScoreExplanation {
+  score: number;
+  // Normalized (0..1) components, before weighting. Activation is the value
+  // ranked by, before this recall counted as an access.
+  components: {
+    text: number;
+    semantic: number;
+    activation: number;
+    importance: number;
+    recency: number;
+  };
+  // Which searches found the memory
+  matched_by: ('keyword' | 'vector')[];
+  // Raw bm25() of the keyword match (lower is better); null if not an FTS hit
+  bm25: number | null;
+  // Cosine similarity to the query; null if not a vector hit
+  similarity: number | null;
+}
+
+// fts: full-text index; like: substring scan while the index is empty;
+// none: the query has no searchable words
+export type KeywordSearchPath = 'fts' | 'like' | 'none';
+
+// How a recall query ran
+export interface RecallExplanation {
+  // The query as parsed into terms, and the FTS5 MATCH expression built from them
+  parsed_query: {
+    terms: { text: string; phrase: boolean; prefix: boolean }[];
+    match: string | null;
+  };
+  keyword_search: KeywordSearchPath;
+  // Embedding model used for vector search; null if it did not run
+  vector_search: string | null;
+  // Effective ranking weights (server defaults plus request overrides)
+  weights: Required<RecallWeights>;
+  candidates: { keyword: number; vector: number; total: number };
+}
+
+// Deepest link traversal recall will do
+export const MAX_EXPAND_HOPS = 2;
+
+export interface RelatedMemory extends Memory {
+  // Spreading activation that reached this memory (0..1)
+  spread: number;
+  hops: number;
+  // The link it was reached through
+  via: {
+    link_id: string;
+    from: string;
+    relation: string;
+  };
+}
+
+export interface MemoryLink {
+  id: string;
+  source_id: string;
+  target_id: string;
+  relation: string;
+  weight: number;
+  created_at: string;
+}
+
+export interface CreateLinkRequest {
+  target_id: string;
+  relation: string;
+  weight?: number;
+}
+
+export interface LinkListResponse {
+  links: MemoryLink[];
+}
+
+// Actor recorded for changes made by the service itself (e.g. consolidation)
+export const SYSTEM_ACTOR = 'system';
+
+// Snapshot of a memory's content, type, importance and metadata after a change
+export interface MemoryRevision {
+  id: string;
+  memory_id: string;
+  // 1 for the first version, then +1 per change
+  revision: number;
+  content: string;
+  type: MemoryType;
+  importance: number;
+  metadata?: Record<string, unknown>;
+  // API key id, or "system"
+  actor: string;
+  reason: string;
+  created_at: string;
+}
+
+export interface MemoryHistoryResponse {
+  memory_id: string;
+  // Oldest first
+  revisions: MemoryRevision[];
+}
+
+export interface RestoreRevisionRequest {
+  revision: number;
+  reason?: string;
+}
+
+// Sync orders competing writes of a memory by version, then updated_at, then
+// origin; the greatest wins everywhere (last-writer-wins)
+export interface SyncVersion {
+  version: number;
+  updated_at: string;
+  origin: string;
+}
+
+// Fields that sync between replicas; activation and access times stay local
+export interface SyncMemoryData {
+  content: string;
+  type: MemoryType;
+  importance: number;
+  metadata?: Record<string, unknown>;
+  pinned: boolean;
+  created_at: string;
+}
+
+export interface SyncChange extends SyncVersion {
+  id: string;
+  // Server change sequence; pass the last one seen as ?since= to pull more
+  seq: number;
+  // Tombstone: the memory was deleted at this version
+  deleted: boolean;
+  // Absent for deletions
+  memory?: SyncMemoryData;
+}
+
+export interface SyncPullResponse {
+  changes: SyncChange[];
+  // Resume point for the next pull
+  cursor: number;
+  has_more: boolean;
+}
+
+export interface SyncPushChange {
+  id: string;
+  version: number;
+  updated_at: string;
+  deleted?: boolean;
+  // Required unless deleted
+  memory?: SyncMemoryData;
+}
+
+export interface SyncPushRequest {
+  // Replica the changes come from, e.g. the bot's id
+  origin: string;
+  changes: SyncPushChange[];
+}
+
+export interface SyncPushResult extends SyncVersion {
+  id: string;
+  // stale: the server holds a newer write, returned here; pull to get it
+  status: 'applied' | 'stale';
+  deleted: boolean;
+}
+
+export interface SyncPushResponse {
+  results: SyncPushResult[];
+  applied: number;
+  stale: number;
+}
+
+export type MemoryEventType = 'stored' | 'updated' | 'recalled' | 'forgotten' | 'merged';
+
+// Entry of the change feed (GET /api/v1/memory/events)
+export interface MemoryEvent {
+  // Increases with every event of the instance; resume with Last-Event-ID
+  id: number;
+  type: MemoryEventType;
+  memory_ids: string[];
+  // forgotten: { reason: 'deleted' | 'decayed' | 'expired' }
+  // merged: { merged_from: string[] } (memory_ids holds the survivor)
+  // updated: { fields: string[] }
+  data?: Record<string, unknown>;
+  created_at: string;
+}
+
+export type MemorySortField = 'created_at' | 'activation' | 'importance' | 'last_accessed';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListMemoriesResponse {
+  memories: Memory[];
+  // Pass as ?cursor= to get the next page; null on the last page
+  next_cursor: string | null;
+}
+
 export interface StoreRequest {
   content: string;
   type?: MemoryType;
   importance?: number;
   metadata?: Record<string, unknown>;
+  pinned?: boolean;
+  // Return an existing memory with the same normalized content and type
+  // (raising its importance) instead of storing a copy
+  dedupe?: boolean;
 }
 
 export interface StoreResponse {
   id: string;
   success: boolean;
+  // The content was already stored; id is the existing memory
+  deduplicated: boolean;
+}
+
+// Batch endpoints: items are validated one by one, valid items run in one transaction
+export const MAX_BATCH_SIZE = 100;
+
+export interface BatchStoreRequest {
+  items: StoreRequest[];
+}
+
+export interface BatchRecallRequest {
+  queries: RecallRequest[];
+}
+
+export interface BatchItemError extends ApiError {
+  success: false;
+}
+
+export interface BatchStoreResponse {
+  results: (StoreResponse | BatchItemError)[];
+  stored: number;
+  failed: number;
+}
+
+export interface BatchRecallResult {
+  success: true;
+  results: RecalledMemory[];
+  related?: RelatedMemory[];
+  explain?: RecallExplanation;
+}
+
+export interface BatchRecallResponse {
+  results: (BatchRecallResult | BatchItemError)[];
+  took_ms: number;
+}
+
+export interface UpdateMemoryRequest {
+  content?: string;
+  type?: MemoryType;
+  importance?: number;
+  metadata?: Record<string, unknown> | null;
+  pinned?: boolean;
+  // Recorded on the revision; defaults to "updated"
+  reason?: string;
+}
+
+export interface DeleteResponse {
+  id: string;
+  deleted: boolean;
+}
+
+export interface ConsolidateRequest {
+  // Summarize groups of related episodic memories into semantic ones
+  // (needs a summarizer configured via SUMMARIZER_PROVIDER)
+  summarize?: boolean;
 }
 
 export interface ConsolidateResponse {
@@ -50,6 +346,13 @@ export interface ConsolidateResponse {
     memories_after: number;
     merged: number;
     forgotten: number;
+    // Removed by the retention policy
+    expired: number;
+    // Semantic summaries written, and the episodic memories they cover
+    summaries: number;
+    summarized: number;
+    // Groups of episodes the summarizer failed on; retried on the next run
+    summaries_failed: number;
   };
 }
 
@@ -59,6 +362,169 @@ export interface StatsResponse {
   oldest_memory?: string;
   newest_memory?: string;
   avg_importance: number;
+  pinned: number;
+  retention: RetentionPreview;
+  encryption: EncryptionStatus;
+  storage: StorageUsage;
+}
+
+export interface StorageUsage {
+  // Bytes in pages holding data; deletes free space here before the file shrinks
+  bytes: number;
+  // DB and WAL files on disk
+  file_bytes: number;
+  // Manual snapshot files; counted toward the quota along with bytes.
+  // Automatic snapshots are not counted.
+  snapshot_bytes: number;
+  rows: { memories: number; revisions: number; links: number; events: number; tombstones: number };
+  // Shared by all of the account's instances; null when not checked
+  quota: StorageQuotaStatus | null;
+}
+
+export interface StorageQuotaStatus {
+  // null = unlimited
+  limit_bytes: number | null;
+  // Bytes used across the account's instances
+  used_bytes: number;
+}
+
+export interface EncryptionStatus {
+  enabled: boolean;
+  // Active data key; null when encryption at rest is off
+  key_id: string | null;
+  key_created_at: string | null;
+}
+
+export interface RotateKeyResponse {
+  key_id: string;
+  // Rows moved to the new data key
+  reencrypted: { memories: number; revisions: number };
+  took_ms: number;
+}
+
+// What the effective retention policy would remove if enforced now
+export interface RetentionPreview {
+  pending_removal: number;
+  by_reason: { max_age: number; max_count: number };
+  // When the next memory that is kept now will exceed its max age
+  next_expiry: string | null;
+}
+
+// null (or absent) = no limit
+export interface RetentionRule {
+  max_age_days?: number | null;
+  max_count?: number | null;
+}
+
+// Per-type rules override the base rule field by field
+export interface RetentionPolicy extends RetentionRule {
+  types?: Partial<Record<MemoryType, RetentionRule>>;
+}
+
+export interface RetentionRunResponse {
+  instances: number;
+  removed: number;
+  failed: number;
+  took_ms: number;
+}
+
+export interface StorageRunResponse {
+  instances: number;
+  // Bytes in use across all instances
+  storage_bytes: number;
+  failed: number;
+  took_ms: number;
+}
+
+export interface RetentionResponse {
+  tier: RetentionPolicy;
+  // Set per instance; can only tighten the tier policy
+  instance: RetentionPolicy | null;
+  effective: RetentionPolicy;
+}
+
+export interface ArchiveManifest {
+  format: string;
+  format_version: number;
+  schema_version: number;
+  exported_at: string;
+  instance?: string;
+  counts: {
+    memories: number;
+    // Absent in format_version 1 archives
+    links?: number;
+    // Absent before format_version 3
+    revisions?: number;
+  };
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+// What to do when an imported id already exists (merge mode only)
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'new_id';
+
+export interface ImportStats {
+  total: number;
+  imported: number;
+  skipped: number;
+  overwritten: number;
+  renamed: number;
+  removed: number;
+  links_imported: number;
+  // Links whose memories are not in the archive or the instance
+  links_skipped: number;
+  revisions_imported: number;
+}
+
+export interface ImportResponse {
+  dry_run: boolean;
+  mode: ImportMode;
+  on_conflict: ImportConflictStrategy;
+  stats: ImportStats;
+  errors: { line: number; error: string }[];
+}
+
+// manual: taken on request; the others are taken automatically
+export type SnapshotReason = 'manual' | 'scheduled' | 'consolidate' | 'import' | 'restore';
+
+// Point-in-time copy of an instance DB
+export interface Snapshot {
+  id: string;
+  reason: SnapshotReason;
+  created_at: string;
+  // Memories in the instance when the snapshot was taken
+  memories: number;
+  schema_version: number;
+  bytes: number;
+}
+
+export interface SnapshotListResponse {
+  snapshots: Snapshot[];
+}
+
+export interface RestoreSnapshotResponse {
+  restored: Snapshot;
+  // Taken of the state the restore replaced, so it can be undone
+  backup: Snapshot;
+  took_ms: number;
+}
+
+export interface SnapshotPolicy {
+  // Scheduled snapshots: the newest of each day is kept this many days
+  daily_days: number;
+  // Snapshots taken before consolidate, import and restore
+  automatic_days: number;
+  max_automatic: number;
+  // Manual snapshots are kept until deleted, up to this many
+  max_manual: number;
+}
+
+export interface SnapshotRunResponse {
+  instances: number;
+  created: number;
+  pruned: number;
+  failed: number;
+  took_ms: number;
 }
 
 export interface User {
@@ -86,6 +552,17 @@ export interface MemoryInstance {
   created_at: string;
 }
 
+export type MemoryInstanceSummary = Pick<MemoryInstance, 'id' | 'name' | 'created_at'>;
+
+export interface CreateInstanceRequest {
+  name: string;
+}
+
+export interface InstanceListResponse {
+  instances: MemoryInstanceSummary[];
+  limit: number | null;
+}
+
 export interface UsageLog {
   id: string;
   user_id: string;
@@ -94,6 +571,15 @@ export interface UsageLog {
   tokens_used?: number;
 }
 
+// One instance's storage on one day (storage_usage table)
+export interface StorageUsageRecord {
+  user_id: string;
+  instance_id: string;
+  date: string;
+  storage_bytes: number;
+  memories: number;
+}
+
 export interface ApiError {
   error: string;
   code: string;
@@ -106,3 +592,32 @@ export const RATE_LIMITS: Record<ApiKey['tier'], number> = {
   pro: 100,      // 100 req/min
   enterprise: 1000, // 1000 req/min
 };
+
+// Retention ceilings per tier
+export const RETENTION_POLICIES: Record<ApiKey['tier'], RetentionPolicy> = {
+  free: { max_age_days: 7 },
+  pro: {},
+  enterprise: {},
+};
+
+// Memory instances per account (null = unlimited)
+export const INSTANCE_LIMITS: Record<ApiKey['tier'], number | null> = {
+  free: 1,
+  pro: 3,
+  enterprise: null,
+};
+
+// Storage per account in bytes, across all instances (null = unlimited)
+export const STORAGE_QUOTAS: Record<ApiKey['tier'], number | null> = {
+  free: 100 * 1024 * 1024,
+  pro: 1024 * 1024 * 1024,
+  enterprise: null,
+};
+
+// Snapshots kept per instance
+export const SNAPSHOT_POLICY: SnapshotPolicy = {
+  daily_days: 7,
+  automatic_days: 7,
+  max_automatic: 10,
+  max_manual: 10,
+};
@@ -0,0 +1,431 @@
+/**
+ * Validation - Request body checks shared by single and batch memory routes
+ *
+ * Validators return an error message, or null if the request is valid.
+ */
+
+import { MAX_BATCH_SIZE, MAX_EXPAND_HOPS } from './types';
+import { MAX_CLOCK_SKEW_MS } from './sync';
+import { METADATA_PATH_PATTERN, MAX_IN_VALUES } from './recall-filters';
+import type {
+  ConsolidateRequest,
+  CreateLinkRequest,
+  MemoryType,
+  RecallFilters,
+  RecallRequest,
+  RestoreRevisionRequest,
+  RetentionPolicy,
+  RetentionRule,
+  StoreRequest,
+  SyncMemoryData,
+  SyncPushRequest,
+  UpdateMemoryRequest
+} from './types';
+
+export const VALID_MEMORY_TYPES: MemoryType[] = ['factual', 'relational', 'procedural', 'episodic', 'semantic'];
+
+export const MAX_CONTENT_LENGTH = 10000;
+
+export const MAX_RELATION_LENGTH = 64;
+
+export const MAX_REASON_LENGTH = 200;
+
+const WEIGHT_KEYS = ['text', 'semantic', 'activation', 'importance', 'recency'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Memory fields shared by store and update; each is checked only if present
+function validateMemoryFields(body: UpdateMemoryRequest): string | null {
+  if (body.content !== undefined) {
+    if (!body.content || typeof body.content !== 'string') {
+      return 'Missing or invalid "content" field';
+    }
+    
+    if (body.content.length > MAX_CONTENT_LENGTH) {
+      return `"content" must be less than ${MAX_CONTENT_LENGTH} characters`;
+    }
+  }
+  
+  if (body.type !== undefined && !VALID_MEMORY_TYPES.includes(body.type)) {
+    return `Invalid type "${body.type}". Valid types: ${VALID_MEMORY_TYPES.join(', ')}`;
+  }
+  
+  if (body.importance !== undefined) {
+    if (typeof body.importance !== 'number' || body.importance < 0 || body.importance > 1) {
+      return '"importance" must be a number between 0 and 1';
+    }
+  }
+  
+  if (body.metadata !== undefined && body.metadata !== null && !isObject(body.metadata)) {
+    return '"metadata" must be an object or null';
+  }
+  
+  if (body.pinned !== undefined && typeof body.pinned !== 'boolean') {
+    return '"pinned" must be a boolean';
+  }
+  
+  return null;
+}
+
+export function validateStoreRequest(body: StoreRequest): string | null {
+  if (!isObject(body)) {
+    return 'Request must be a JSON object';
+  }
+  
+  // Validate required fields
+  if (body.content === undefined) {
+    return 'Missing or invalid "content" field';
+  }
+  
+  // Validate optional fields
+  const fieldsError = validateMemoryFields(body);
+  if (fieldsError) {
+    return fieldsError;
+  }
+  
+  if (body.dedupe !== undefined && typeof body.dedupe !== 'boolean') {
+    return '"dedupe" must be a boolean';
+  }
+  
+  return null;
+}
+
+// Header that makes a store safe to retry (see MemoryService.storeIdempotent)
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+export function validateIdempotencyKey(key: string): string | null {
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    return `${IDEMPOTENCY_HEADER} must be 1-255 printable ASCII characters without spaces`;
+  }
+  return null;
+}
+
+export function validateRecallRequest(body: RecallRequest): string | null {
+  if (!isObject(body)) {
+    return 'Request must be a JSON object';
+  }
+  
+  // Validate required fields
+  if (!body.query || typeof body.query !== 'string') {
+    return 'Missing or invalid "query" field';
+  }
+  
+  // Validate optional fields
+  if (body.limit !== undefined) {
+    if (!Number.isInteger(body.limit) || body.limit < 1 || body.limit > 100) {
+      return '"limit" must be an integer between 1 and 100';
+    }
+  }
+  
+  if (body.types) {
+    if (!Array.isArray(body.types)) {
+      return '"types" must be an array';
+    }
+    for (const t of body.types) {
+      if (!VALID_MEMORY_TYPES.includes(t)) {
+        return `Invalid type "${t}". Valid types: ${VALID_MEMORY_TYPES.join(', ')}`;
+      }
+    }
+  }
+  
+  if (body.expand_hops !== undefined) {
+    if (!Number.isInteger(body.expand_hops) || body.expand_hops < 0 || body.expand_hops > MAX_EXPAND_HOPS) {
+      return `"expand_hops" must be an integer between 0 and ${MAX_EXPAND_HOPS}`;
+    }
+  }
+  
+  if (body.filters !== undefined) {
+    const filtersError = validateRecallFilters(body.filters);
+    if (filtersError) {
+      return filtersError;
+    }
+  }
+  
+  if (body.explain !== undefined && typeof body.explain !== 'boolean') {
+    return '"explain" must be a boolean';
+  }
+  
+  if (body.weights !== undefined) {
+    if (!isObject(body.weights)) {
+      return '"weights" must be an object';
+    }
+    for (const [key, value] of Object.entries(body.weights)) {
+      if (!WEIGHT_KEYS.includes(key)) {
+        return `Invalid weight "${key}". Valid weights: ${WEIGHT_KEYS.join(', ')}`;
+      }
+      if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+        return `Weight "${key}" must be a non-negative number`;
+      }
+    }
+  }
+  
+  return null;
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(Date.parse(value));
+}
+
+function isScalar(value: unknown): boolean {
+  return typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && isFinite(value));
+}
+
+export function validateRecallFilters(filters: RecallFilters): string | null {
+  if (!isObject(filters)) {
+    return '"filters" must be an object';
+  }
+  
+  for (const field of ['created_after', 'created_before'] as const) {
+    if (filters[field] !== undefined && !isDate(filters[field])) {
+      return `"filters.${field}" must be an ISO 8601 date`;
+    }
+  }
+  
+  if (
+    filters.created_after !== undefined &&
+    filters.created_before !== undefined &&
+    Date.parse(filters.created_after as string) >= Date.parse(filters.created_before as string)
+  ) {
+    return '"filters.created_after" must be before "filters.created_before"';
+  }
+  
+  if (filters.min_importance !== undefined) {
+    if (typeof filters.min_importance !== 'number' || filters.min_importance < 0 || filters.min_importance > 1) {
+      return '"filters.min_importance" must be a number between 0 and 1';
+    }
+  }
+  
+  if (filters.metadata !== undefined) {
+    if (!isObject(filters.metadata)) {
+      return '"filters.metadata" must be an object';
+    }
+    for (const [key, predicate] of Object.entries(filters.metadata)) {
+      if (!METADATA_PATH_PATTERN.test(key)) {
+        return `Invalid metadata path "${key}". Use dot-separated keys of letters, digits and "_"`;
+      }
+      if (predicate === null || isScalar(predicate)) {
+        continue;
+      }
+      if (
+        !isObject(predicate) ||
+        Object.keys(predicate).length !== 1 ||
+        !Array.isArray(predicate.in) ||
+        predicate.in.length === 0 ||
+        predicate.in.length > MAX_IN_VALUES ||
+        !predicate.in.every(isScalar)
+      ) {
+        return `"filters.metadata.${key}" must be a string, number, boolean, null or { "in": [1-${MAX_IN_VALUES} values] }`;
+      }
+    }
+  }
+  
+  return null;
+}
+
+export function validateCreateLinkRequest(body: CreateLinkRequest): string | null {
+  if (!isObject(body)) {
+    return 'Request must be a JSON object';
+  }
+  
+  // Validate required fields
+  if (!body.target_id || typeof body.target_id !== 'string') {
+    return 'Missing or invalid "target_id" field';
+  }
+  
+  if (!body.relation || typeof body.relation !== 'string' || !body.relation.trim()) {
+    return 'Missing or invalid "relation" field';
+  }
+  
+  if (body.relation.length > MAX_RELATION_LENGTH) {
+    return `"relation" must be at most ${MAX_RELATION_LENGTH} characters`;
+  }
+  
+  // Validate optional fields
+  if (body.weight !== undefined) {
+    if (typeof body.weight !== 'number' || body.weight <= 0 || body.weight > 1) {
+      return '"weight" must be a number greater than 0 and at most 1';
+    }
+  }
+  
+  return null;
+}
+
+// Optional free-text reason recorded on a revision
+export function validateRevisionReason(reason: unknown): string | null {
+  if (reason === undefined) {
+    return null;
+  }
+  if (typeof reason !== 'string' || !reason.trim()) {
+    return '"reason" must be a non-empty string';
+  }
+  if (reason.length > MAX_REASON_LENGTH) {
+    return `"reason" must be at most ${MAX_REASON_LENGTH} characters`;
+  }
+  return null;
+}
+
+export function validateUpdateRequest(body: UpdateMemoryRequest): string | null {
+  if (!isObject(body)) {
+    return 'Request must be a JSON object';
+  }
+  
+  // All fields are optional, but at least one is required
+  if (
+    body.content === undefined &&
+    body.type === undefined &&
+    body.importance === undefined &&
+    body.metadata === undefined &&
+    body.pinned === undefined
+  ) {
+    return 'At least one of "content", "type", "importance", "metadata" or "pinned" is required';
+  }
+  
+  return validateMemoryFields(body) || validateRevisionReason(body.reason);
+}
+
+export function validateRestoreRequest(body: RestoreRevisionRequest): string | null {
+  if (!isObject(body)) {
+    return 'Request must be a JSON object';
+  }
+  
+  if (!Number.isInteger(body.revision) || body.revision < 1) {
+    return 'Missing or invalid "revision" field';
+  }
+  
+  return validateRevisionReason(body.reason);
+}
+
+const ORIGIN_PATTERN = /^[A-Za-z0-9._:-]{1,64}$/;
+
+function validateSyncMemory(data: SyncMemoryData, prefix: string): string | null {
+  if (!isObject(data)) {
+    return `"${prefix}" must be an object`;
+  }
+  if (!data.content || typeof data.content !== 'string') {
+    return `Missing or invalid "${prefix}.content"`;
+  }
+  if (data.content.length > MAX_CONTENT_LENGTH) {
+    return `"${prefix}.content" must be less than ${MAX_CONTENT_LENGTH} characters`;
+  }
+  if (!VALID_MEMORY_TYPES.includes(data.type)) {
+    return `Invalid type "${data.type}". Valid types: ${VALID_MEMORY_TYPES.join(', ')}`;
+  }
+  if (typeof data.importance !== 'number' || data.importance < 0 || data.importance > 1) {
+    return `"${prefix}.importance" must be a number between 0 and 1`;
+  }
+  if (data.metadata !== undefined && !isObject(data.metadata)) {
+    return `"${prefix}.metadata" must be an object`;
+  }
+  if (typeof data.pinned !== 'boolean') {
+    return `"${prefix}.pinned" must be a boolean`;
+  }
+  if (!isDate(data.created_at)) {
+    return `"${prefix}.created_at" must be an ISO 8601 date`;
+  }
+  return null;
+}
+
+export function validateSyncPushRequest(body: SyncPushRequest): string | null {
+  if (!isObject(body)) {
+    return 'Request must be a JSON object';
+  }
+  
+  if (typeof body.origin !== 'string' || !ORIGIN_PATTERN.test(body.origin)) {
+    return '"origin" must be 1-64 letters, digits, ".", "_", ":" or "-"';
+  }
+  
+  if (!Array.isArray(body.changes) || body.changes.length === 0 || body.changes.length > MAX_BATCH_SIZE) {
+    return `"changes" must be an array of 1-${MAX_BATCH_SIZE} changes`;
+  }
+  
+  const latest = Date.now() + MAX_CLOCK_SKEW_MS;
+  const seen = new Set<string>();
+  
+  for (const [i, change] of body.changes.entries()) {
+    const prefix = `changes[${i}]`;
+    if (!isObject(change)) {
+      return `"${prefix}" must be an object`;
+    }
+    if (!change.id || typeof change.id !== 'string') {
+      return `Missing or invalid "${prefix}.id"`;
+    }
+    if (seen.has(change.id)) {
+      return `Duplicate id "${change.id}" in "changes"`;
+    }
+    seen.add(change.id);
+    if (!Number.isInteger(change.version) || change.version < 1) {
+      return `"${prefix}.version" must be a positive integer`;
+    }
+    if (!isDate(change.updated_at) || Date.parse(change.updated_at as string) > latest) {
+      return `"${prefix}.updated_at" must be an ISO 8601 date, not in the future`;
+    }
+    if (change.deleted !== undefined && typeof change.deleted !== 'boolean') {
+      return `"${prefix}.deleted" must be a boolean`;
+    }
+    if (!change.deleted) {
+      const memoryError = validateSyncMemory(change.memory as SyncMemoryData, `${prefix}.memory`);
+      if (memoryError) {
+        return memoryError;
+      }
+    }
+  }
+  
+  return null;
+}
+
+function validateRetentionRule(rule: RetentionRule, prefix: string): string | null {
+  for (const field of ['max_age_days', 'max_count'] as const) {
+    const value = rule[field];
+    if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 1)) {
+      return `"${prefix}${field}" must be a positive integer or null`;
+    }
+  }
+  return null;
+}
+
+export function validateConsolidateRequest(body: ConsolidateRequest): string | null {
+  if (!isObject(body)) {
+    return 'Request must be a JSON object';
+  }
+  
+  if (body.summarize !== undefined && typeof body.summarize !== 'boolean') {
+    return '"summarize" must be a boolean';
+  }
+  
+  return null;
+}
+
+export function validateRetentionPolicy(body: RetentionPolicy): string | null {
+  if (!isObject(body)) {
+    return 'Request must be a JSON object';
+  }
+  
+  const baseError = validateRetentionRule(body, '');
+  if (baseError) {
+    return baseError;
+  }
+  
+  if (body.types !== undefined) {
+    if (!isObject(body.types)) {
+      return '"types" must be an object';
+    }
+    for (const [type, rule] of Object.entries(body.types)) {
+      if (!VALID_MEMORY_TYPES.includes(type as MemoryType)) {
+        return `Invalid type "${type}". Valid types: ${VALID_MEMORY_TYPES.join(', ')}`;
+      }
+      if (!isObject(rule)) {
+        return `"types.${type}" must be an object`;
+      }
+      const ruleError = validateRetentionRule(rule, `types.${type}.`);
+      if (ruleError) {
+        return ruleError;
+      }
+    }
+  }
+  
+  return null;
+}
@@ -0,0 +1,111 @@
+/**
+ * Vector Index - In-process exact nearest-neighbour search over memory embeddings
+ *
+ * Per-user memory sets are small enough that a flat cosine scan beats the
+ * bookkeeping of an approximate index. Indexes are cached per DB file and
+ * rebuilt when the embedded rows change underneath them.
+ */
+
+import type Database from 'better-sqlite3';
+import { cosineSimilarity, deserializeEmbedding } from './embeddings';
+import type { MemoryType } from './types';
+
+interface IndexEntry {
+  id: string;
+  type: MemoryType;
+  vector: Float32Array;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+}
+
+export class VectorIndex {
+  private entries: IndexEntry[];
+  
+  constructor(entries: IndexEntry[]) {
+    this.entries = entries;
+  }
+  
+  get size(): number {
+    return this.entries.length;
+  }
+  
+  search(
+    query: Float32Array,
+    limit: number,
+    options: { types?: MemoryType[]; ids?: Set<string>; minScore?: number } = {}
+  ): VectorMatch[] {
+    const minScore = options.minScore ?? 0;
+    const matches: VectorMatch[] = [];
+    
+    for (const entry of this.entries) {
+      if (options.types && options.types.length > 0 && !options.types.includes(entry.type)) {
+        continue;
+      }
+      if (options.ids && !options.ids.has(entry.id)) {
+        continue;
+      }
+      
+      const score = cosineSimilarity(query, entry.vector);
+      if (score >= minScore) {
+        matches.push({ id: entry.id, score });
+      }
+    }
+    
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+// Keyed by DB file and model; entries are dropped when the pool closes the
+// file's handle, so the cache is bounded by the pool size
+const cache = new Map<string, { signature: string; index: VectorIndex }>();
+
+// Cheap fingerprint of the embedded rows; changes on insert, delete and
+// re-embed, and on any update (every change to a memory bumps its version)
+function indexSignature(db: Database.Database, model: string): string {
+  const row = db.prepare(`
+    SELECT COUNT(*) as count, MAX(rowid) as max_rowid, MAX(embedded_at) as last_embedded,
+      TOTAL(version) as versions
+    FROM memories WHERE embedding_model = ?
+  `).get(model) as { count: number; max_rowid: number | null; last_embedded: string | null; versions: number };
+  
+  return `${row.count}:${row.max_rowid ?? 0}:${row.last_embedded ?? ''}:${row.versions}`;
+}
+
+// Drop the cached indexes of a DB file, when its handle is closed or its
+// contents were replaced wholesale
+export function invalidateVectorIndex(dbFile: string): void {
+  for (const key of cache.keys()) {
+    if (key.startsWith(`${dbFile}:`)) {
+      cache.delete(key);
+    }
+  }
+}
+
+// Get the index for a DB, rebuilding it if the stored embeddings changed
+export function getVectorIndex(db: Database.Database, model: string): VectorIndex {
+  const key = `${db.name}:${model}`;
+  const signature = indexSignature(db, model);
+  const cached = cache.get(key);
+  
+  if (cached && cached.signature === signature) {
+    return cached.index;
+  }
+  
+  // decrypt_blob() is registered on memory DB handles (see encryption.ts)
+  const rows = db.prepare(`
+    SELECT id, type, decrypt_blob(embedding) as embedding FROM memories
+    WHERE embedding_model = ? AND embedding IS NOT NULL
+  `).all(model) as { id: string; type: string; embedding: Buffer }[];
+  
+  const index = new VectorIndex(rows.map(row => ({
+    id: row.id,
+    type: row.type as MemoryType,
+    vector: deserializeEmbedding(row.embedding)
+  })));
+  
+  cache.set(key, { signature, index });
+  return index;
+}
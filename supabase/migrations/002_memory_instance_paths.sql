@@ -0,0 +1,8 @@
+-- Memory instance paths
+-- db_path is now resolved relative to MEMORY_STORAGE_PATH. Default instances
+-- created earlier recorded a "memory/" prefix that never matched the file
+-- actually written at <MEMORY_STORAGE_PATH>/<user_id>/engram.db.
+
+UPDATE memory_instances
+SET db_path = substring(db_path FROM 8)
+WHERE db_path LIKE 'memory/%';
@@ -0,0 +1,21 @@
+-- Storage usage
+-- Daily storage metering per memory instance, recorded by /api/cron/storage.
+-- storage_bytes counts pages in use, like the quota check.
+
+CREATE TABLE IF NOT EXISTS storage_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  instance_id UUID NOT NULL REFERENCES memory_instances(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  storage_bytes BIGINT NOT NULL DEFAULT 0,
+  memories INTEGER NOT NULL DEFAULT 0,
+  
+  UNIQUE(instance_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_usage_user_id_date ON storage_usage(user_id, date DESC);
+
+ALTER TABLE storage_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY storage_usage_select_own ON storage_usage FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY storage_usage_service_all ON storage_usage FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,170 @@
+/**
+ * Activation Tests
+ *
+ * Run with: npm test
+ * Computes activation from fixed access histories, then drives a memory
+ * service with a fake clock through recall and consolidation.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  baseLevel,
+  computeActivation,
+  getActivationParams,
+  DEFAULT_ACTIVATION_PARAMS,
+  MAX_LOGGED_ACCESSES
+} from '../src/lib/activation';
+import { MemoryService } from '../src/lib/memory';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engram-activation-'));
+process.env.MEMORY_STORAGE_PATH = tmpDir;
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const START = Date.parse('2026-01-01T00:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const params = DEFAULT_ACTIVATION_PARAMS;
+
+function at(days: number): string {
+  return new Date(START + days * DAY_MS).toISOString();
+}
+
+// A memory created at START and accessed on the given days
+function history(accessDays: number[]) {
+  return { created_at: at(0), access_count: accessDays.length, accesses: accessDays.map(at) };
+}
+
+async function runTests() {
+  console.log('\n🧪 Running Activation Tests\n');
+  
+  await test('Activation fades with time since access', async () => {
+    const fresh = computeActivation(history([]), START + 60 * 1000, params);
+    const twoWeeks = computeActivation(history([]), START + 14 * DAY_MS, params);
+    const twoYears = computeActivation(history([]), START + 730 * DAY_MS, params);
+    
+    assert(fresh > 0.99, `A new memory should be fully active, got ${fresh}`);
+    assert(Math.abs(twoWeeks - 0.5) < 0.05, `Should be near even odds after two weeks, got ${twoWeeks}`);
+    assert(twoYears < params.forgetBelow, `Should fade below the forget threshold in two years, got ${twoYears}`);
+  });
+  
+  await test('More and more recent accesses raise activation', async () => {
+    const now = START + 100 * DAY_MS;
+    const once = computeActivation(history([10]), now, params);
+    const often = computeActivation(history([10, 20, 30, 40]), now, params);
+    const recent = computeActivation(history([99]), now, params);
+    
+    assert(often > once, 'Repeated access should raise activation');
+    assert(recent > once, 'A recent access should count more than an old one');
+  });
+  
+  await test('Trimmed accesses are approximated closely', async () => {
+    const now = START + 400 * DAY_MS;
+    const days = Array.from({ length: 40 }, (_, i) => i * 9 + 5);
+    const exact = baseLevel(history(days), now, params);
+    const trimmed = baseLevel(
+      { ...history(days.slice(-MAX_LOGGED_ACCESSES)), access_count: days.length },
+      now,
+      params
+    );
+    
+    assert(Math.abs(exact - trimmed) < 0.05, `Approximation should be within 0.05, got ${exact} vs ${trimmed}`);
+    assert(trimmed > baseLevel(history(days.slice(-MAX_LOGGED_ACCESSES)), now, params), 'Unlogged accesses should still count');
+  });
+  
+  await test('Parameters come from overrides, then env, then defaults', async () => {
+    process.env.ACTIVATION_DECAY = '0.3';
+    const fromEnv = getActivationParams({ noise: 1 });
+    delete process.env.ACTIVATION_DECAY;
+    
+    assert(fromEnv.decay === 0.3 && fromEnv.noise === 1, 'Should use env and override values');
+    assert(fromEnv.threshold === params.threshold, 'Should default the rest');
+    
+    const slower = computeActivation(history([]), START + 60 * DAY_MS, { ...params, decay: 0.3 });
+    assert(slower > computeActivation(history([]), START + 60 * DAY_MS, params), 'Lower decay should fade slower');
+  });
+  
+  let now = START;
+  const memory = new MemoryService('clock/engram.db', 'clock', null, () => now);
+  
+  await test('Recall logs accesses that keep memories active', async () => {
+    const recalled = await memory.store('User plays the cello', 'factual', 0.5);
+    const ignored = await memory.store('User visited Lisbon once', 'episodic', 0.5);
+    const pinned = await memory.store('User is allergic to penicillin', 'factual', 1, undefined, true);
+    
+    for (let day = 1; day <= 5; day++) {
+      now = START + day * DAY_MS;
+      const { results } = await memory.recall('cello');
+      assert(results[0]?.id === recalled.id, 'Should recall the memory');
+    }
+    
+    now = START + 730 * DAY_MS;
+    const { stats } = await memory.consolidate();
+    const remaining = (await memory.list({ limit: 10, sort: 'created_at', order: 'asc' })).memories.map(m => m.id);
+    
+    assert(stats.forgotten === 1, `Should forget one memory, got ${stats.forgotten}`);
+    assert(!remaining.includes(ignored.id), 'The memory never recalled should be forgotten');
+    assert(remaining.includes(recalled.id), 'The recalled memory should be kept');
+    assert(remaining.includes(pinned.id), 'Pinned memories are never forgotten');
+  });
+  
+  await test('Decay depends on elapsed time, not consolidate calls', async () => {
+    const before = (await memory.list({ limit: 10, sort: 'created_at', order: 'asc' })).memories;
+    for (let i = 0; i < 20; i++) {
+      await memory.consolidate();
+    }
+    const after = (await memory.list({ limit: 10, sort: 'created_at', order: 'asc' })).memories;
+    
+    assert(JSON.stringify(after.map(m => m.activation)) === JSON.stringify(before.map(m => m.activation)), 'Activation should not change without time passing');
+    
+    now += 365 * DAY_MS;
+    await memory.consolidate();
+    const later = (await memory.list({ limit: 10, sort: 'created_at', order: 'asc' })).memories;
+    const cello = later.find(m => m.content.includes('cello'));
+    const penicillin = later.find(m => m.content.includes('penicillin'));
+    
+    assert(!!cello && cello.activation < before.find(m => m.id === cello.id)!.activation, 'Activation should fade as time passes');
+    assert(penicillin?.activation === 1, 'Pinned memories keep their activation');
+  });
+  
+  // Summary
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
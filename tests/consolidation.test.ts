@@ -0,0 +1,114 @@
+/**
+ * Duplicate Merge Tests
+ *
+ * Run with: npm test
+ * Consolidates near-duplicate memories with an embedder that sees every
+ * text as the same, so only the content checks keep different facts apart.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findDuplicateClusters } from '../src/lib/consolidation';
+import { MemoryService } from '../src/lib/memory';
+import type { Embedder } from '../src/lib/embeddings';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engram-consolidation-'));
+process.env.MEMORY_STORAGE_PATH = tmpDir;
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+// Cosine 1 between any two texts
+const sameEmbedder: Embedder = {
+  model: 'same',
+  dimensions: 2,
+  embed: async texts => texts.map(() => new Float32Array([1, 0]))
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function runTests() {
+  console.log('\n🧪 Running Duplicate Merge Tests\n');
+  
+  let now = Date.parse('2026-01-01T00:00:00.000Z');
+  const service = (name: string) => new MemoryService(`${name}/engram.db`, name, sameEmbedder, () => now);
+  const contents = async (memory: MemoryService) =>
+    (await memory.list({ limit: 10, sort: 'created_at', order: 'asc' })).memories.map(m => m.content);
+  
+  await test('Does not merge near-identical memories that disagree', async () => {
+    const memory = service('contradict');
+    await memory.store('User wants the report emailed every Monday morning', 'factual', 0.8);
+    now += HOUR_MS;
+    await memory.store('User wants the report emailed every Friday morning', 'factual', 0.5);
+    
+    const { stats } = await memory.consolidate();
+    assert(stats.merged === 0, `Should keep both facts, merged ${stats.merged}`);
+    assert((await contents(memory)).length === 2, 'Both memories should remain');
+  });
+  
+  await test('Merges repeats into the newest with the highest importance', async () => {
+    const memory = service('repeats');
+    await memory.store('User lives in Lisbon.', 'factual', 0.9);
+    now += HOUR_MS;
+    await memory.store('user lives in lisbon', 'factual', 0.4);
+    now += HOUR_MS;
+    const newest = await memory.store('User lives in Lisbon!', 'factual', 0.6);
+    
+    const { stats } = await memory.consolidate();
+    assert(stats.merged === 2, `Should merge two repeats, merged ${stats.merged}`);
+    
+    const survivor = await memory.get(newest.id);
+    assert(survivor?.content === 'User lives in Lisbon!', 'The newest memory should survive');
+    assert(survivor!.importance === 0.9, `Should take the highest importance, got ${survivor!.importance}`);
+  });
+  
+  await test('Does not chain duplicates of duplicates into one cluster', async () => {
+    const words = Array.from({ length: 12 }, (_, i) => `w${i}`);
+    const candidate = (id: string, from: number, to: number) =>
+      ({ id, content: words.slice(from, to).join(' '), embedding: null });
+    
+    // a~b and b~c, but a and c differ by two of twelve words
+    const clusters = findDuplicateClusters([candidate('a', 0, 10), candidate('b', 0, 11), candidate('c', 0, 12)]);
+    assert(JSON.stringify(clusters) === JSON.stringify([['a', 'b']]), `Unexpected clusters: ${JSON.stringify(clusters)}`);
+  });
+  
+  // Summary
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
@@ -0,0 +1,118 @@
+/**
+ * DB Pool Tests
+ *
+ * Run with: npm test
+ * Leases in-memory handles from a connection pool.
+ */
+
+import Database from 'better-sqlite3';
+import { ConnectionPool } from '../src/lib/db-pool';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+function newPool(maxSize = 4, onClose?: (filePath: string) => void): ConnectionPool {
+  return new ConnectionPool(() => new Database(':memory:'), { maxSize, idleTimeoutMs: 60_000, onClose });
+}
+
+async function runTests() {
+  console.log('\n🧪 Running DB Pool Tests\n');
+  
+  await test('Shares a handle until it is evicted', async () => {
+    const pool = newPool();
+    const a = pool.acquire('a.db');
+    const b = pool.acquire('a.db');
+    assert(a === b, 'Should reuse the open handle');
+    
+    pool.release(a);
+    pool.release(b);
+    pool.evict('a.db');
+    assert(!a.open, 'An idle handle should close on evict');
+    assert(pool.acquire('a.db') !== a, 'Should open a new handle after evict');
+    pool.closeAll();
+  });
+  
+  await test('Keeps an evicted handle open for its remaining leases', async () => {
+    const pool = newPool();
+    const first = pool.acquire('a.db');
+    const second = pool.acquire('a.db');
+    pool.evict('a.db');
+    const replacement = pool.acquire('a.db');
+    assert(replacement !== first, 'Should not hand out a handle marked for closing');
+    
+    pool.release(first);
+    assert(second.open && second.prepare('SELECT 1').pluck().get() === 1, 'The other lease should still work');
+    
+    pool.release(second);
+    assert(!first.open, 'Should close with its last lease');
+    assert(replacement.open, 'The replacement should stay open');
+    pool.release(replacement);
+    pool.closeAll();
+  });
+  
+  await test('Closes the least recently used idle handles beyond the size', async () => {
+    const pool = newPool(1);
+    const a = pool.acquire('a.db');
+    const b = pool.acquire('b.db');
+    assert(a.open, 'Should not close a handle in use');
+    
+    pool.release(a);
+    pool.release(b);
+    pool.acquire('c.db');
+    assert(!a.open && !b.open, 'Should close idle handles over the size');
+    assert(pool.stats().size === 1, `Should shrink back to its size, got ${pool.stats().size}`);
+    pool.closeAll();
+  });
+  
+  await test('Reports every handle it closes', async () => {
+    const closed: string[] = [];
+    const pool = newPool(1, filePath => closed.push(filePath));
+    const a = pool.acquire('a.db');
+    pool.evict('a.db');
+    assert(closed.length === 0, 'Should not report a handle still in use');
+    
+    pool.release(a);
+    pool.release(pool.acquire('b.db'));
+    pool.release(pool.acquire('c.db'));
+    pool.closeAll();
+    assert(closed.join() === 'a.db,b.db,c.db', `Should report evicted, overflowing and remaining handles, got ${closed.join()}`);
+  });
+  
+  // Summary
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
@@ -0,0 +1,193 @@
+/**
+ * Encryption at Rest Tests
+ *
+ * Run with: npm test
+ * Encrypts the unversioned fixture DB (tests/fixtures) on open, then checks
+ * search, history and sync keep working across data and master key rotation.
+ */
+
+import Database from 'better-sqlite3';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { migrate } from '../src/lib/migrations';
+import { attachEncryption, parseMasterKeys } from '../src/lib/encryption';
+import { getMemoryService } from '../src/lib/memory';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engram-encryption-'));
+process.env.MEMORY_STORAGE_PATH = tmpDir;
+
+const key1 = `k1:${crypto.randomBytes(32).toString('base64')}`;
+const key2 = `k2:${crypto.randomBytes(32).toString('base64')}`;
+process.env.MEMORY_MASTER_KEYS = key1;
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+// Create an unversioned DB from the fixture; returns its path relative to the storage root
+function createLegacyDb(name: string): string {
+  const file = path.join(tmpDir, name, 'engram.db');
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  
+  const db = new Database(file);
+  db.exec(fs.readFileSync(path.join(__dirname, 'fixtures', 'engram-unversioned.sql'), 'utf8'));
+  db.close();
+  
+  return path.join(name, 'engram.db');
+}
+
+function storedValues(file: string, sql: string): string[] {
+  const db = new Database(file, { readonly: true });
+  try {
+    return (db.prepare(sql).all() as { value: string }[]).map(row => row.value);
+  } finally {
+    db.close();
+  }
+}
+
+async function runTests() {
+  console.log('\n🧪 Running Encryption Tests\n');
+  
+  const dbPath = createLegacyDb('legacy');
+  const file = path.join(tmpDir, dbPath);
+  const memory = getMemoryService({ user_id: 'legacy', db_path: dbPath });
+  
+  await test('Encrypts an existing plaintext DB when it is opened', async () => {
+    const { encryption, total_memories } = await memory.stats();
+    assert(encryption.enabled && !!encryption.key_id, 'Should report encryption with a data key');
+    assert(total_memories === 3, `Should keep all memories, got ${total_memories}`);
+    
+    const prefix = `enc:${encryption.key_id}:`;
+    for (const sql of [
+      'SELECT content as value FROM memories',
+      'SELECT metadata as value FROM memories WHERE metadata IS NOT NULL',
+      'SELECT content as value FROM memory_revisions'
+    ]) {
+      const values = storedValues(file, sql);
+      assert(values.length > 0 && values.every(value => value.startsWith(prefix)), `Should encrypt: ${sql}`);
+    }
+    
+    const bytes = Buffer.concat([file, `${file}-wal`].filter(fs.existsSync).map(f => fs.readFileSync(f)));
+    assert(!bytes.includes('peanuts'), 'No plaintext should be left in the DB files');
+  });
+  
+  await test('Search, filters and history work on encrypted memories', async () => {
+    const { results: byWord } = await memory.recall('peanuts');
+    assert(byWord[0]?.content === 'User is allergic to peanuts', 'Keyword recall should find the memory');
+    
+    const { results: byPhrase } = await memory.recall('"allergic to peanuts"');
+    assert(byPhrase[0]?.content === 'User is allergic to peanuts', 'Phrase recall should find the memory');
+    
+    const { results: filtered } = await memory.recall('meeting', 10, undefined, { filters: { metadata: { event: 'meeting' } } });
+    assert(filtered.length === 1 && filtered[0].metadata?.event === 'meeting', 'Metadata filters should see decrypted metadata');
+    
+    const { id } = await memory.store('User drinks oolong tea', 'factual', 0.5, { source: 'chat' });
+    await memory.update(id, { content: 'User drinks jasmine tea' });
+    assert((await memory.recall('jasmine')).results.some(m => m.id === id), 'Updated content should be searchable');
+    assert(!(await memory.recall('oolong')).results.some(m => m.content.includes('oolong')), 'Old content should leave the index');
+    
+    const history = await memory.history(id);
+    assert(history?.map(r => r.content).join('|') === 'User drinks oolong tea|User drinks jasmine tea', 'History should decrypt');
+  });
+  
+  await test('Rotating the data key re-encrypts everything', async () => {
+    const before = (await memory.stats()).encryption.key_id;
+    const { cursor } = await memory.pullChanges(0, 1000);
+    
+    const rotation = await memory.rotateEncryptionKey();
+    assert(!!rotation && rotation.key_id !== before, 'Should switch to a new data key');
+    assert(rotation!.reencrypted.memories === 4, `Should re-encrypt all memories, got ${rotation!.reencrypted.memories}`);
+    
+    const prefix = `enc:${rotation!.key_id}:`;
+    const values = storedValues(file, `
+      SELECT content as value FROM memories
+      UNION ALL SELECT embedding FROM memories WHERE embedding IS NOT NULL
+      UNION ALL SELECT content FROM memory_revisions
+    `);
+    assert(values.length > 8 && values.every(value => value.startsWith(prefix)), 'Every row and embedding should be under the new key');
+    
+    assert((await memory.recall('peanuts')).results.length > 0, 'Search should work after rotation');
+    assert((await memory.pullChanges(cursor, 1000)).changes.length === 0, 'Re-encrypting should not show up as sync changes');
+  });
+  
+  await test('Master key rotation rewraps data keys on open', async () => {
+    const rotated = new Database(file);
+    attachEncryption(rotated, parseMasterKeys(`${key2},${key1}`));
+    const wrappedBy = rotated.prepare('SELECT DISTINCT master_key_id as id FROM encryption_keys').all() as { id: string }[];
+    rotated.close();
+    assert(wrappedBy.length === 1 && wrappedBy[0].id === 'k2', 'Data keys should be wrapped by the newest master key');
+    
+    const db = new Database(file);
+    attachEncryption(db, parseMasterKeys(key2));
+    const contents = (db.prepare('SELECT decrypt_text(content) as content FROM memories').all() as { content: string }[]).map(row => row.content);
+    db.close();
+    assert(contents.includes('User is allergic to peanuts'), 'The old master key should no longer be needed');
+  });
+  
+  await test('Refuses to open an encrypted DB without its master key', async () => {
+    for (const keys of [null, parseMasterKeys(key1)]) {
+      const db = new Database(file);
+      try {
+        attachEncryption(db, keys);
+        assert(false, 'Should throw');
+      } catch (error) {
+        assert(error instanceof Error && error.message !== 'Should throw', `Should refuse to open: ${error}`);
+      } finally {
+        db.close();
+      }
+    }
+  });
+  
+  await test('Leaves DBs in plaintext without master keys', async () => {
+    const plainFile = path.join(tmpDir, createLegacyDb('plain'));
+    const db = new Database(plainFile);
+    migrate(db);
+    attachEncryption(db, null);
+    
+    const stored = db.prepare('SELECT content FROM memories ORDER BY id').pluck().all();
+    const read = db.prepare('SELECT decrypt_text(content) FROM memories ORDER BY id').pluck().all();
+    db.close();
+    assert(stored[0] === 'User prefers TypeScript over JavaScript', 'Content should stay plaintext');
+    assert(JSON.stringify(read) === JSON.stringify(stored), 'decrypt_text should pass plaintext through');
+  });
+  
+  // Summary
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
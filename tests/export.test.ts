@@ -0,0 +1,97 @@
+/**
+ * Export Tests
+ *
+ * Run with: npm test
+ * Streams archives from a memory service while it keeps serving requests.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryService } from '../src/lib/memory';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engram-export-'));
+process.env.MEMORY_STORAGE_PATH = tmpDir;
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+// More than one export chunk of memories
+const MEMORY_COUNT = 1200;
+
+async function runTests() {
+  console.log('\n🧪 Running Export Tests\n');
+  
+  const memory = new MemoryService('export/engram.db', 'export', null);
+  const stored = await memory.storeBatch(Array.from({ length: MEMORY_COUNT }, (_, i) => ({
+    content: `User fact number ${i}`,
+    type: 'factual' as const
+  })));
+  await memory.update(stored[0].id, { content: 'User fact number zero' });
+  
+  await test('Exports every memory, link and revision once', async () => {
+    const records = [...memory.exportArchive('default')].map(line => JSON.parse(line));
+    const ids = records.filter(r => r.kind === 'memory').map(r => r.data.id);
+    const revisions = records.filter(r => r.kind === 'revision');
+    
+    assert(records[0].kind === 'manifest', 'Should start with the manifest');
+    assert(ids.length === MEMORY_COUNT && new Set(ids).size === MEMORY_COUNT, `Should export ${MEMORY_COUNT} memories, got ${ids.length}`);
+    assert(revisions.length === MEMORY_COUNT + 1, `Should export every revision, got ${revisions.length}`);
+  });
+  
+  await test('Serves other requests while an export is open', async () => {
+    const lines = memory.exportArchive('default');
+    lines.next();
+    lines.next();
+    
+    await memory.store('User stored this mid-export', 'factual', 0.5);
+    const { results: found } = await memory.recall('mid-export');
+    assert(found.length === 1, 'Recall should work during an export');
+    assert((await memory.stats()).total_memories === MEMORY_COUNT + 1, 'Stats should work during an export');
+    
+    let exported = 0;
+    for (const line of lines) {
+      if (JSON.parse(line).kind === 'memory') exported++;
+    }
+    assert(exported >= MEMORY_COUNT - 1, `The export should complete, got ${exported} more memories`);
+  });
+  
+  // Summary
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
@@ -0,0 +1,38 @@
+-- Per-user engram DB as created before schema versioning (user_version = 0).
+-- Mirrors the old getDb() DDL, including the FTS rows that store() used to
+-- insert by hand on top of the insert trigger.
+
+CREATE TABLE IF NOT EXISTS memories (
+  id TEXT PRIMARY KEY,
+  content TEXT NOT NULL,
+  type TEXT DEFAULT 'factual',
+  importance REAL DEFAULT 0.5,
+  activation REAL DEFAULT 1.0,
+  created_at TEXT NOT NULL,
+  last_accessed TEXT,
+  metadata TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(type);
+CREATE INDEX IF NOT EXISTS idx_memories_activation ON memories(activation DESC);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+  content,
+  content='memories',
+  content_rowid='rowid'
+);
+
+CREATE TRIGGER memories_ai AFTER INSERT ON memories BEGIN
+  INSERT INTO memories_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+
+CREATE TRIGGER memories_ad AFTER DELETE ON memories BEGIN
+  INSERT INTO memories_fts(memories_fts, rowid, content) VALUES('delete', old.rowid, old.content);
+END;
+
+INSERT INTO memories (id, content, type, importance, activation, created_at, last_accessed, metadata) VALUES
+  ('0b5c6a52-0000-4000-8000-000000000001', 'User prefers TypeScript over JavaScript', 'relational', 0.8, 1.0, '2026-01-10T09:00:00.000Z', NULL, NULL),
+  ('0b5c6a52-0000-4000-8000-000000000002', 'User is allergic to peanuts', 'factual', 0.9, 0.6, '2026-01-11T09:00:00.000Z', '2026-01-20T09:00:00.000Z', '{"source":"chat"}'),
+  ('0b5c6a52-0000-4000-8000-000000000003', 'Meeting scheduled for Friday at 3pm', 'episodic', 0.6, 0.3, '2026-01-12T09:00:00.000Z', NULL, '{"event":"meeting"}');
+
+INSERT INTO memories_fts(rowid, content) SELECT rowid, content FROM memories;
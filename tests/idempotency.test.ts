@@ -0,0 +1,167 @@
+/**
+ * Idempotent Store Tests
+ *
+ * Run with: npm test
+ * Retries stores with Idempotency-Keys and dedupes content against a memory
+ * service on a fake clock.
+ */
+
+import Database from 'better-sqlite3';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryService, IDEMPOTENCY_WINDOW_MS, DEDUPE_IMPORTANCE_BOOST } from '../src/lib/memory';
+import { resolveDbPath } from '../src/lib/storage';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engram-idempotency-'));
+process.env.MEMORY_STORAGE_PATH = tmpDir;
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+async function runTests() {
+  console.log('\n🧪 Running Idempotent Store Tests\n');
+  
+  let now = Date.parse('2026-01-01T00:00:00.000Z');
+  const memory = new MemoryService('plain/engram.db', 'plain', null, () => now);
+  
+  await test('Retries with the same key replay the first results', async () => {
+    const items = [{ content: 'User flies to Oslo on Friday', type: 'episodic' as const }];
+    const first = await memory.storeIdempotent('key-1', items);
+    const retry = await memory.storeIdempotent('key-1', items);
+    
+    assert(first?.replayed === false && retry?.replayed === true, 'Only the retry should be a replay');
+    assert(retry!.results[0].id === first!.results[0].id, 'Retry should return the same id');
+    assert((await memory.stats()).total_memories === 1, 'Retry should not store a copy');
+  });
+  
+  await test('A key reused for other items is rejected', async () => {
+    const outcome = await memory.storeIdempotent('key-1', [{ content: 'User flies to Bergen on Friday' }]);
+    
+    assert(outcome === null, 'Should refuse to replay results of a different request');
+    assert((await memory.stats()).total_memories === 1, 'Should store nothing');
+  });
+  
+  await test('Replays can be looked up without storing', async () => {
+    const replay = await memory.findIdempotentReplay('key-1', [{ content: 'User flies to Oslo on Friday', type: 'episodic' }]);
+    assert(replay?.replayed === true && replay.results.length === 1, 'Should find the first results');
+    assert(await memory.findIdempotentReplay('key-1', [{ content: 'User flies to Bergen on Friday' }]) === null, 'Should refuse other items');
+    assert(await memory.findIdempotentReplay('key-2', [{ content: 'User flies to Bergen on Friday' }]) === undefined, 'Should not know a new key');
+    assert((await memory.stats()).total_memories === 1, 'Should store nothing');
+  });
+  
+  await test('Keys expire after the idempotency window', async () => {
+    now += IDEMPOTENCY_WINDOW_MS + 1000;
+    const outcome = await memory.storeIdempotent('key-1', [{ content: 'User flies to Bergen on Friday' }]);
+    
+    assert(outcome?.replayed === false, 'An expired key should store again');
+    assert((await memory.stats()).total_memories === 2, 'Should store the new memory');
+  });
+  
+  await test('Dedupe reinforces the existing memory', async () => {
+    const [original] = await memory.storeBatch([{ content: 'User likes green tea', importance: 0.5 }]);
+    const [again] = await memory.storeBatch([{ content: '  user LIKES green tea. ', importance: 0.3, dedupe: true }]);
+    
+    assert(again.deduplicated && again.id === original.id, 'Should return the existing id');
+    const stored = await memory.get(original.id);
+    assert(Math.abs(stored!.importance - (0.5 + DEDUPE_IMPORTANCE_BOOST)) < 1e-9, `Importance should rise, got ${stored!.importance}`);
+    assert((await memory.history(original.id))!.at(-1)?.reason === 'deduplicated', 'Should record a revision');
+    
+    const [otherType] = await memory.storeBatch([{ content: 'User likes green tea', type: 'relational', dedupe: true }]);
+    assert(!otherType.deduplicated, 'A different type is a different memory');
+    
+    const [copy] = await memory.storeBatch([{ content: 'User likes green tea' }]);
+    assert(!copy.deduplicated && copy.id !== original.id, 'Without dedupe a copy is stored');
+  });
+  
+  await test('Dedupe sees edited content', async () => {
+    const [stored] = await memory.storeBatch([{ content: 'User lives in Lyon' }]);
+    await memory.update(stored.id, { content: 'User lives in Nantes' });
+    
+    const [moved] = await memory.storeBatch([{ content: 'User lives in Nantes', dedupe: true }]);
+    const [old] = await memory.storeBatch([{ content: 'User lives in Lyon', dedupe: true }]);
+    assert(moved.deduplicated && moved.id === stored.id, 'Should match the new content');
+    assert(!old.deduplicated, 'Should not match the old content');
+  });
+  
+  await test('Dedupe works on encrypted memories', async () => {
+    process.env.MEMORY_MASTER_KEYS = `k1:${crypto.randomBytes(32).toString('base64')}`;
+    const encrypted = new MemoryService('encrypted/engram.db', 'encrypted', null, () => now);
+    
+    const [original] = await encrypted.storeBatch([{ content: 'User drives a blue van' }]);
+    const [again] = await encrypted.storeBatch([{ content: 'User drives a BLUE van', dedupe: true }]);
+    await encrypted.rotateEncryptionKey();
+    const [afterRotation] = await encrypted.storeBatch([{ content: 'user drives a blue van', dedupe: true }]);
+    delete process.env.MEMORY_MASTER_KEYS;
+    
+    assert(again.id === original.id, 'Should dedupe under encryption');
+    assert(afterRotation.id === original.id, 'Should dedupe after key rotation');
+  });
+  
+  await test('Retries replay after a data key rotation', async () => {
+    process.env.MEMORY_MASTER_KEYS = `k1:${crypto.randomBytes(32).toString('base64')}`;
+    const encrypted = new MemoryService('retried/engram.db', 'retried', null, () => now);
+    const items = [{ content: 'User flies to Tromso on Monday' }];
+    
+    const first = await encrypted.storeIdempotent('key-2', items);
+    await encrypted.rotateEncryptionKey();
+    const retry = await encrypted.storeIdempotent('key-2', items);
+    const other = await encrypted.storeIdempotent('key-2', [{ content: 'User flies to Bodo on Monday' }]);
+    
+    // A key recorded while the DB was still in plaintext
+    const db = new Database(resolveDbPath('retried', 'retried/engram.db'));
+    db.prepare('INSERT INTO idempotency_keys (key, fingerprint, results, created_at) VALUES (?, ?, ?, ?)').run(
+      'key-3',
+      `sha256:${crypto.createHash('sha256').update(JSON.stringify(items)).digest('hex')}`,
+      JSON.stringify(first!.results),
+      new Date(now).toISOString()
+    );
+    db.close();
+    const fromPlaintext = await encrypted.storeIdempotent('key-3', items);
+    delete process.env.MEMORY_MASTER_KEYS;
+    
+    assert(retry?.replayed === true && retry.results[0].id === first!.results[0].id, 'Should replay a key recorded under the retired data key');
+    assert(other === null, 'Other items should still be rejected');
+    assert(fromPlaintext?.replayed === true, 'Should replay a key recorded before the DB was encrypted');
+  });
+  
+  // Summary
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
@@ -36,13 +36,15 @@ async function apiCall(
   method: string,
   path: string,
   body?: unknown,
-  expectStatus: number = 200
+  expectStatus: number = 200,
+  headers: Record<string, string> = {}
 ) {
   const response = await fetch(`${BASE_URL}${path}`, {
     method,
     headers: {
       'Authorization': `Bearer ${API_KEY}`,
       'Content-Type': 'application/json',
+      ...headers,
     },
     body: body ? JSON.stringify(body) : undefined,
   });
@@ -96,6 +98,26 @@ async function runTests() {
     assert(data.success === true, 'Should succeed');
   });
   
+  await test('Store retries with an Idempotency-Key', async () => {
+    const key = `retry-${Date.now()}`;
+    const body = { content: `Retried note ${key}`, type: 'episodic' };
+    const first = await apiCall('POST', '/api/v1/memory/store', body, 201, { 'Idempotency-Key': key });
+    const retry = await apiCall('POST', '/api/v1/memory/store', body, 201, { 'Idempotency-Key': key });
+    
+    assert(retry.id === first.id, 'Retry should replay the original id');
+    await apiCall('POST', '/api/v1/memory/store', { ...body, type: 'factual' }, 422, { 'Idempotency-Key': key });
+  });
+  
+  await test('Store with dedupe returns the existing memory', async () => {
+    const data = await apiCall('POST', '/api/v1/memory/store', {
+      content: 'user prefers TypeScript over JavaScript!',
+      type: 'relational',
+      dedupe: true,
+    }, 200);
+    
+    assert(data.deduplicated === true && data.id === storedId, 'Should return the memory stored earlier');
+  });
+  
   // Store more memories for recall tests
   await test('Store multiple memories', async () => {
     const memories = [
@@ -122,6 +144,39 @@ async function runTests() {
     assert(data.results[0].content.includes('TypeScript'), 'Should match query');
   });
   
+  await test('Recall explains its ranking', async () => {
+    const data = await apiCall('POST', '/api/v1/memory/recall', {
+      query: 'TypeScript "over JavaScript"',
+      limit: 5,
+      explain: true,
+    });
+    
+    const [top] = data.results;
+    assert(top.explanation?.matched_by.includes('keyword'), 'Should say how the result was found');
+    assert(typeof top.explanation.components.text === 'number', 'Should break down the score');
+    assert(data.explain.keyword_search === 'fts', 'Should report the search path');
+    assert(data.explain.parsed_query.terms.some((t: { phrase: boolean }) => t.phrase), 'Should report the parsed phrase');
+    
+    const plain = await apiCall('POST', '/api/v1/memory/recall', { query: 'TypeScript', limit: 5 });
+    assert(!plain.explain && !plain.results[0].explanation, 'Explanations should be opt-in');
+  });
+  
+  await test('Recall matches word variants semantically', async () => {
+    await apiCall('POST', '/api/v1/memory/store', {
+      content: 'Alice drinks espressos every morning',
+      type: 'factual',
+    }, 201);
+    
+    const data = await apiCall('POST', '/api/v1/memory/recall', {
+      query: 'espresso',
+    });
+    
+    assert(
+      data.results.some((m: { content: string }) => m.content.includes('espressos')),
+      'Should find memory via embedding similarity'
+    );
+  });
+  
   await test('Recall with type filter', async () => {
     const data = await apiCall('POST', '/api/v1/memory/recall', {
       query: 'peanuts allergic factual',
@@ -143,6 +198,137 @@ async function runTests() {
     assert(data.results.length <= 2, 'Should respect limit');
   });
   
+  await test('Recall rejects a fractional limit', async () => {
+    await apiCall('POST', '/api/v1/memory/recall', { query: 'user project meeting', limit: 2.5 }, 400);
+  });
+  
+  await test('Recall accepts FTS syntax characters in query', async () => {
+    for (const query of ["don't", 'C++', 'peanuts AND', '"unbalanced', 'NEAR(', '*']) {
+      await apiCall('POST', '/api/v1/memory/recall', { query });
+    }
+  });
+  
+  await test('Recall ranks by weights', async () => {
+    const data = await apiCall('POST', '/api/v1/memory/recall', {
+      query: 'allergic peanuts',
+      weights: { text: 1, semantic: 0, activation: 0, importance: 0, recency: 0 },
+    });
+    
+    assert(data.results[0].content.includes('peanuts'), 'Best text match should rank first');
+  });
+  
+  await test('Recall with structured filters', async () => {
+    await apiCall('POST', '/api/v1/memory/store', {
+      content: 'Discussed the launch checklist',
+      type: 'episodic',
+      importance: 0.8,
+      metadata: { channel: 'telegram' },
+    }, 201);
+    await apiCall('POST', '/api/v1/memory/store', {
+      content: 'Discussed the launch budget',
+      type: 'episodic',
+      importance: 0.4,
+      metadata: { channel: 'telegram' },
+    }, 201);
+    
+    const data = await apiCall('POST', '/api/v1/memory/recall', {
+      query: 'launch',
+      types: ['episodic'],
+      filters: {
+        created_after: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
+        min_importance: 0.7,
+        metadata: { channel: { in: ['telegram', 'slack'] } },
+      },
+    });
+    
+    assert(data.results.length === 1, 'Should only return the matching memory');
+    assert(data.results[0].content.includes('checklist'), 'Should match filters');
+  });
+  
+  await test('Recall rejects invalid metadata path', async () => {
+    await apiCall('POST', '/api/v1/memory/recall', { query: 'x', filters: { metadata: { '$.a': 1 } } }, 400);
+  });
+  
+  await test('Recall rejects negative weights', async () => {
+    await apiCall('POST', '/api/v1/memory/recall', { query: 'x', weights: { text: -1 } }, 400);
+  });
+  
+  // Listing
+  await test('List memories pages with a cursor', async () => {
+    const first = await apiCall('GET', '/api/v1/memory?limit=2&sort=created_at&order=asc');
+    
+    assert(first.memories.length === 2, 'Should return a full page');
+    assert(typeof first.next_cursor === 'string', 'Should return a cursor');
+    
+    const second = await apiCall('GET', `/api/v1/memory?limit=2&sort=created_at&order=asc&cursor=${first.next_cursor}`);
+    const firstIds = first.memories.map((m: { id: string }) => m.id);
+    assert(
+      second.memories.every((m: { id: string }) => !firstIds.includes(m.id)),
+      'Pages should not overlap'
+    );
+  });
+  
+  await test('List memories does not bump access', async () => {
+    const before = await apiCall('GET', '/api/v1/memory?limit=1&types=procedural');
+    const after = await apiCall('GET', '/api/v1/memory?limit=1&types=procedural');
+    
+    assert(before.memories[0].type === 'procedural', 'Should filter by type');
+    assert(before.memories[0].last_accessed === after.memories[0].last_accessed, 'Should not touch last_accessed');
+    assert(before.memories[0].activation === after.memories[0].activation, 'Should not touch activation');
+  });
+  
+  await test('List memories rejects a foreign cursor', async () => {
+    await apiCall('GET', '/api/v1/memory?cursor=not-a-cursor', undefined, 400);
+  });
+  
+  // Retention
+  await test('Set and clear instance retention policy', async () => {
+    const headers = { 'X-Memory-Instance': 'retention-test' };
+    await apiCall('POST', '/api/v1/memory/store', { content: 'Old chat one', type: 'episodic' }, 201, headers);
+    await apiCall('POST', '/api/v1/memory/store', { content: 'Old chat two', type: 'episodic' }, 201, headers);
+    
+    const policy = await apiCall('PUT', '/api/v1/memory/retention', { types: { episodic: { max_count: 1 } } }, 200, headers);
+    assert(policy.effective.types.episodic.max_count === 1, 'Should apply instance policy');
+    
+    const stats = await apiCall('GET', '/api/v1/memory/stats', undefined, 200, headers);
+    assert(stats.retention.pending_removal === 1, 'Stats should preview one removal');
+    
+    const consolidated = await apiCall('POST', '/api/v1/memory/consolidate', undefined, 200, headers);
+    assert(consolidated.stats.expired === 1, 'Consolidate should enforce the policy');
+    
+    const cleared = await apiCall('DELETE', '/api/v1/memory/retention', undefined, 200, headers);
+    assert(cleared.instance === null, 'Should clear instance policy');
+  });
+  
+  await test('Pinned memories survive retention', async () => {
+    const headers = { 'X-Memory-Instance': 'pinned-test' };
+    const pinned = await apiCall('POST', '/api/v1/memory/store', { content: 'Allergic to peanuts', type: 'episodic', pinned: true }, 201, headers);
+    await apiCall('POST', '/api/v1/memory/store', { content: 'Asked about the weather', type: 'episodic' }, 201, headers);
+    await apiCall('POST', '/api/v1/memory/store', { content: 'Asked about the news', type: 'episodic' }, 201, headers);
+    await apiCall('PUT', '/api/v1/memory/retention', { types: { episodic: { max_count: 1 } } }, 200, headers);
+    
+    const consolidated = await apiCall('POST', '/api/v1/memory/consolidate', undefined, 200, headers);
+    assert(consolidated.stats.expired === 1, 'Only unpinned memories should count toward retention');
+    
+    const kept = await apiCall('GET', `/api/v1/memory/${pinned.id}`, undefined, 200, headers);
+    assert(kept.pinned === true, 'Pinned memory should be kept');
+    assert(kept.activation === 1, 'Pinned memory should not decay');
+    
+    const stats = await apiCall('GET', '/api/v1/memory/stats', undefined, 200, headers);
+    assert(stats.pinned === 1, 'Stats should count pinned memories');
+    
+    const unpinned = await apiCall('PATCH', `/api/v1/memory/${pinned.id}`, { pinned: false }, 200, headers);
+    assert(unpinned.pinned === false, 'Should unpin');
+  });
+  
+  await test('Store rejects non-boolean pinned', async () => {
+    await apiCall('POST', '/api/v1/memory/store', { content: 'Pin me', pinned: 'yes' }, 400);
+  });
+  
+  await test('Retention policy rejects invalid limits', async () => {
+    await apiCall('PUT', '/api/v1/memory/retention', { max_age_days: 0 }, 400);
+  });
+  
   // Stats
   await test('Get memory stats', async () => {
     const data = await apiCall('GET', '/api/v1/memory/stats');
@@ -151,6 +337,24 @@ async function runTests() {
     assert(data.total_memories > 0, 'Should have some memories');
     assert(data.by_type, 'Should have by_type breakdown');
     assert(typeof data.avg_importance === 'number', 'Should have avg importance');
+    assert(typeof data.encryption?.enabled === 'boolean', 'Should report encryption status');
+    assert(data.storage?.bytes > 0 && data.storage.rows.memories === data.total_memories, 'Should report storage usage');
+    assert(data.storage.quota?.used_bytes >= data.storage.bytes, 'Should report the account quota');
+  });
+  
+  await test('Rotate data key when encryption is enabled', async () => {
+    const { encryption } = await apiCall('GET', '/api/v1/memory/stats');
+    
+    if (!encryption.enabled) {
+      await apiCall('POST', '/api/v1/memory/encryption:rotate', undefined, 409);
+      return;
+    }
+    
+    const data = await apiCall('POST', '/api/v1/memory/encryption:rotate');
+    assert(data.key_id !== encryption.key_id, 'Should switch to a new data key');
+    
+    const recalled = await apiCall('POST', '/api/v1/memory/recall', { query: 'TypeScript' });
+    assert(recalled.results.length > 0, 'Recall should work after rotation');
   });
   
   // Consolidate
@@ -163,6 +367,300 @@ async function runTests() {
     assert(typeof data.stats.memories_after === 'number', 'Should track after count');
   });
   
+  await test('Consolidate merges duplicate memories', async () => {
+    const ids: string[] = [];
+    for (const importance of [0.4, 0.7, 0.5]) {
+      const data = await apiCall('POST', '/api/v1/memory/store', {
+        content: 'User lives in Lisbon',
+        type: 'factual',
+        importance,
+      }, 201);
+      ids.push(data.id);
+    }
+    
+    const data = await apiCall('POST', '/api/v1/memory/consolidate');
+    assert(data.stats.merged >= 2, 'Should merge duplicates');
+    
+    const survivor = await apiCall('GET', `/api/v1/memory/${ids[2]}`);
+    assert(survivor.importance === 0.7, 'Newest survivor should take max importance');
+    assert(survivor.metadata.merged_from.includes(ids[0]), 'Should record merged ids');
+  });
+  
+  await test('Consolidate validates its options', async () => {
+    const data = await apiCall('POST', '/api/v1/memory/consolidate', { summarize: 'yes' }, 400);
+    assert(data.code === 'VALIDATION_ERROR', 'Should reject a non-boolean summarize');
+  });
+  
+  // Single-memory CRUD
+  await test('Get memory by id', async () => {
+    const data = await apiCall('GET', `/api/v1/memory/${storedId}`);
+    
+    assert(data.id === storedId, 'Should return the stored memory');
+    assert(data.content.includes('TypeScript'), 'Should include content');
+  });
+  
+  await test('Update memory', async () => {
+    const data = await apiCall('PATCH', `/api/v1/memory/${storedId}`, {
+      content: 'User prefers Rust over Go',
+      importance: 0.95,
+    });
+    
+    assert(data.content === 'User prefers Rust over Go', 'Should update content');
+    assert(data.importance === 0.95, 'Should update importance');
+    assert(data.type === 'relational', 'Should keep type');
+  });
+  
+  await test('Update validates like store', async () => {
+    for (const body of [{}, { content: '' }, { type: 'bogus' }, { metadata: ['a'] }, { importance: 2 }]) {
+      const data = await apiCall('PATCH', `/api/v1/memory/${storedId}`, body, 400);
+      assert(data.code === 'VALIDATION_ERROR', `Should reject ${JSON.stringify(body)}`);
+    }
+    await apiCall('POST', '/api/v1/memory/store', { content: 'x', metadata: ['a'] }, 400);
+  });
+  
+  await test('Memory history records changes and restores', async () => {
+    const history = await apiCall('GET', `/api/v1/memory/${storedId}/history`);
+    const revisions = history.revisions;
+    assert(revisions.length >= 2, 'Should record creation and update');
+    assert(revisions[0].reason === 'created', 'First revision should be the creation');
+    assert(revisions[revisions.length - 1].content === 'User prefers Rust over Go', 'Latest revision should match');
+    
+    const restored = await apiCall('POST', `/api/v1/memory/${storedId}/restore`, { revision: 1 });
+    assert(restored.content === revisions[0].content, 'Should restore earlier content');
+    
+    const after = await apiCall('GET', `/api/v1/memory/${storedId}/history`);
+    assert(after.revisions.length === revisions.length + 1, 'Restore should append a revision');
+    
+    await apiCall('POST', `/api/v1/memory/${storedId}/restore`, { revision: 999 }, 404);
+    await apiCall('PATCH', `/api/v1/memory/${storedId}`, { content: 'User prefers Rust over Go', reason: 'undo restore' });
+  });
+  
+  await test('Recall finds updated content', async () => {
+    const data = await apiCall('POST', '/api/v1/memory/recall', { query: 'Rust' });
+    
+    assert(data.results.some((m: { id: string }) => m.id === storedId), 'Should find updated memory');
+  });
+  
+  // Links
+  let linkedId = '';
+  let linkId = '';
+  await test('Link memories', async () => {
+    const target = await apiCall('POST', '/api/v1/memory/store', {
+      content: 'User maintains the ferrocene compiler fork',
+      type: 'relational',
+    }, 201);
+    linkedId = target.id;
+    
+    const link = await apiCall('POST', `/api/v1/memory/${storedId}/links`, {
+      target_id: linkedId,
+      relation: 'motivates',
+      weight: 0.8,
+    }, 201);
+    linkId = link.id;
+    
+    assert(link.source_id === storedId && link.target_id === linkedId, 'Should link source to target');
+    await apiCall('POST', `/api/v1/memory/${storedId}/links`, { target_id: linkedId, relation: 'motivates' }, 409);
+  });
+  
+  await test('Recall expands along links', async () => {
+    const data = await apiCall('POST', '/api/v1/memory/recall', { query: 'Rust over Go', limit: 1, expand_hops: 1 });
+    
+    assert(data.results[0].id === storedId, 'Should hit the linked memory');
+    assert(
+      data.related.some((m: { id: string; hops: number }) => m.id === linkedId && m.hops === 1),
+      'Should return the linked memory as related'
+    );
+  });
+  
+  await test('Remove link', async () => {
+    await apiCall('DELETE', `/api/v1/memory/${linkedId}/links/${linkId}`);
+    
+    const data = await apiCall('GET', `/api/v1/memory/${storedId}/links`);
+    assert(data.links.length === 0, 'Should have no links left');
+  });
+  
+  await test('Delete memory', async () => {
+    const data = await apiCall('DELETE', `/api/v1/memory/${storedId}`);
+    
+    assert(data.deleted === true, 'Should delete');
+    await apiCall('GET', `/api/v1/memory/${storedId}`, undefined, 404);
+  });
+  
+  // Export / import
+  await test('Export and re-import memories', async () => {
+    const exported = await fetch(`${BASE_URL}/api/v1/memory/export`, {
+      headers: { 'Authorization': `Bearer ${API_KEY}` },
+    });
+    assert(exported.status === 200, 'Export should return 200');
+    
+    const archive = await exported.text();
+    const manifest = JSON.parse(archive.split('\n')[0]);
+    assert(manifest.kind === 'manifest', 'First record should be the manifest');
+    assert(manifest.counts.memories > 0, 'Manifest should count memories');
+    
+    const response = await fetch(`${BASE_URL}/api/v1/memory/import?dry_run=true`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${API_KEY}`,
+        'Content-Type': 'application/x-ndjson',
+      },
+      body: archive,
+    });
+    const data = await response.json();
+    
+    assert(response.status === 200, 'Dry run should return 200');
+    assert(data.errors.length === 0, 'Own export should validate');
+    assert(data.stats.skipped === manifest.counts.memories, 'Existing ids should be skipped');
+  });
+  
+  // Snapshots
+  await test('Snapshot, restore and delete', async () => {
+    const snapshot = await apiCall('POST', '/api/v1/memory/snapshots', undefined, 201);
+    const stored = await apiCall('POST', '/api/v1/memory/store', { content: 'Stored after the snapshot' }, 201);
+    
+    const { snapshots } = await apiCall('GET', '/api/v1/memory/snapshots');
+    assert(snapshots.some((s: { id: string }) => s.id === snapshot.id), 'Should list the snapshot');
+    assert(snapshots.some((s: { reason: string }) => s.reason === 'consolidate'), 'Consolidate should have taken a snapshot');
+    
+    const restored = await apiCall('POST', `/api/v1/memory/snapshots/${snapshot.id}/restore`);
+    assert(restored.restored.id === snapshot.id && restored.backup.reason === 'restore', 'Should restore and back up');
+    await apiCall('GET', `/api/v1/memory/${stored.id}`, undefined, 404);
+    
+    await apiCall('POST', `/api/v1/memory/snapshots/${restored.backup.id}/restore`);
+    await apiCall('GET', `/api/v1/memory/${stored.id}`);
+    
+    for (const id of [snapshot.id, restored.backup.id]) {
+      await apiCall('DELETE', `/api/v1/memory/snapshots/${id}`);
+    }
+    await apiCall('POST', `/api/v1/memory/snapshots/${snapshot.id}/restore`, undefined, 404);
+  });
+  
+  // Change feed
+  await test('Event stream replays logged changes', async () => {
+    const headers = { 'X-Memory-Instance': 'events-test' };
+    const stored = await apiCall('POST', '/api/v1/memory/store', { content: 'User likes jazz' }, 201, headers);
+    
+    const controller = new AbortController();
+    const response = await fetch(`${BASE_URL}/api/v1/memory/events?last_event_id=0`, {
+      headers: { 'Authorization': `Bearer ${API_KEY}`, ...headers },
+      signal: controller.signal,
+    });
+    assert(response.status === 200, 'Stream should return 200');
+    assert(response.headers.get('Content-Type')?.startsWith('text/event-stream') === true, 'Should be an SSE stream');
+    assert(!response.headers.has('X-RateLimit-Remaining'), 'Stream should not be metered');
+    
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    while (!text.includes('event: stored')) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value);
+    }
+    controller.abort();
+    
+    assert(text.includes(stored.id), 'Should replay the stored event');
+  });
+  
+  await test('Event stream rejects invalid Last-Event-ID', async () => {
+    await apiCall('GET', '/api/v1/memory/events', undefined, 400, { 'Last-Event-ID': 'latest' });
+  });
+  
+  await test('Event streams are capped per user', async () => {
+    const controller = new AbortController();
+    const open = async () => fetch(`${BASE_URL}/api/v1/memory/events`, {
+      headers: { 'Authorization': `Bearer ${API_KEY}` },
+      signal: controller.signal,
+    });
+    
+    const statuses: number[] = [];
+    for (let i = 0; i < 6; i++) {
+      statuses.push((await open()).status);
+    }
+    controller.abort();
+    
+    assert(statuses.slice(0, 5).every(status => status === 200), `Should open 5 streams, got ${statuses}`);
+    assert(statuses[5] === 429, `Should refuse a sixth stream, got ${statuses[5]}`);
+  });
+  
+  // Sync
+  await test('Sync push and pull', async () => {
+    const headers = { 'X-Memory-Instance': 'sync-test' };
+    const memory = { content: 'User drinks oat milk', type: 'factual', importance: 0.5, pinned: false, created_at: new Date().toISOString() };
+    
+    const pushed = await apiCall('POST', '/api/v1/memory/sync:push', {
+      origin: 'bot-a',
+      changes: [{ id: 'sync-1', version: 1, updated_at: new Date().toISOString(), memory }],
+    }, 200, headers);
+    assert(pushed.applied === 1, 'Push should apply');
+    
+    const stale = await apiCall('POST', '/api/v1/memory/sync:push', {
+      origin: 'bot-b',
+      changes: [{ id: 'sync-1', version: 1, updated_at: '2020-01-01T00:00:00.000Z', memory }],
+    }, 200, headers);
+    assert(stale.results[0].status === 'stale' && stale.results[0].origin === 'bot-a', 'Older write should be stale');
+    
+    const pulled = await apiCall('GET', '/api/v1/memory/sync:pull?since=0', undefined, 200, headers);
+    assert(pulled.changes.some((c: { id: string }) => c.id === 'sync-1'), 'Pull should return the pushed memory');
+    
+    const next = await apiCall('GET', `/api/v1/memory/sync:pull?since=${pulled.cursor}`, undefined, 200, headers);
+    assert(next.changes.length === 0, 'Nothing new after the cursor');
+  });
+  
+  await test('Sync push rejects future timestamps', async () => {
+    await apiCall('POST', '/api/v1/memory/sync:push', {
+      origin: 'bot-a',
+      changes: [{ id: 'sync-2', version: 1, updated_at: '2999-01-01T00:00:00.000Z', deleted: true }],
+    }, 400);
+  });
+  
+  // Named instances
+  await test('Instances keep memories isolated', async () => {
+    const instance = { 'X-Memory-Instance': 'isolation-test' };
+    await apiCall('POST', '/api/v1/memory/store', {
+      content: 'The secret codeword is marmalade',
+    }, 201, instance);
+    
+    const inInstance = await apiCall('POST', '/api/v1/memory/recall', { query: 'marmalade' }, 200, instance);
+    assert(inInstance.results.length > 0, 'Should find memory in its instance');
+    
+    const inDefault = await apiCall('POST', '/api/v1/memory/recall', { query: 'marmalade' });
+    assert(inDefault.results.length === 0, 'Should not leak into the default instance');
+  });
+  
+  await test('Rejects invalid instance name', async () => {
+    await apiCall('GET', '/api/v1/memory/stats', undefined, 400, { 'X-Memory-Instance': '../other' });
+  });
+  
+  await test('Batch store reports per-item errors', async () => {
+    const data = await apiCall('POST', '/api/v1/memory/store:batch', {
+      items: [
+        { content: 'User drives a blue bicycle', type: 'factual' },
+        { content: '' },
+        { content: 'User plays chess on Sundays', type: 'episodic' },
+      ],
+    }, 201);
+    
+    assert(data.stored === 2 && data.failed === 1, 'Should store the two valid items');
+    assert(data.results[0].success && data.results[2].success, 'Valid items should succeed');
+    assert(data.results[1].code === 'VALIDATION_ERROR', 'Invalid item should report an error');
+  });
+  
+  await test('Batch recall returns results per query', async () => {
+    const data = await apiCall('POST', '/api/v1/memory/recall:batch', {
+      queries: [
+        { query: 'bicycle' },
+        { query: 'chess', types: ['episodic'] },
+        { query: '' },
+      ],
+    });
+    
+    assert(data.results.length === 3, 'Should return one entry per query');
+    assert(data.results[0].results[0].content.includes('bicycle'), 'First query should match');
+    assert(data.results[1].results[0].content.includes('chess'), 'Second query should match');
+    assert(data.results[2].success === false, 'Invalid query should report an error');
+  });
+  
   // Validation errors
   await test('Store rejects empty content', async () => {
     const response = await fetch(`${BASE_URL}/api/v1/memory/store`, {
@@ -0,0 +1,212 @@
+/**
+ * Engram DB Migration Tests
+ *
+ * Run with: npm test
+ * Upgrades the unversioned fixture DB (tests/fixtures) to the current schema.
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { migrate, getSchemaVersion, SCHEMA_VERSION, type Migration } from '../src/lib/migrations';
+import { getMemoryService } from '../src/lib/memory';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engram-migrations-'));
+process.env.MEMORY_STORAGE_PATH = tmpDir;
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+// Create an unversioned DB from the fixture
+function createLegacyDb(name: string): string {
+  const file = path.join(tmpDir, name, 'engram.db');
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  
+  const db = new Database(file);
+  db.exec(fs.readFileSync(path.join(__dirname, 'fixtures', 'engram-unversioned.sql'), 'utf8'));
+  db.close();
+  
+  return file;
+}
+
+function columnNames(db: Database.Database): string[] {
+  return (db.prepare('PRAGMA table_info(memories)').all() as { name: string }[]).map(c => c.name);
+}
+
+function ftsMatches(db: Database.Database, query: string): number {
+  return (db.prepare('SELECT COUNT(*) as c FROM memories_fts WHERE memories_fts MATCH ?').get(query) as { c: number }).c;
+}
+
+async function runTests() {
+  console.log('\n🧪 Running Migration Tests\n');
+  
+  await test('Upgrades unversioned DB to current schema', async () => {
+    const db = new Database(createLegacyDb('legacy'));
+    
+    assert(getSchemaVersion(db) === 0, 'Fixture should be unversioned');
+    
+    const { from, to } = migrate(db);
+    
+    assert(from === 0, `Should start at 0, got ${from}`);
+    assert(to === SCHEMA_VERSION, `Should end at ${SCHEMA_VERSION}, got ${to}`);
+    assert(columnNames(db).includes('embedding_model'), 'Should add embedding columns');
+    
+    const trigger = db.prepare("SELECT name FROM sqlite_master WHERE type = 'trigger' AND name = 'memories_au'").get();
+    assert(!!trigger, 'Should add FTS update trigger');
+    
+    const count = (db.prepare('SELECT COUNT(*) as c FROM memories').get() as { c: number }).c;
+    assert(count === 3, `Should keep all memories, got ${count}`);
+    
+    db.close();
+  });
+  
+  await test('Upgraded FTS index follows content updates', async () => {
+    const db = new Database(createLegacyDb('legacy-fts'));
+    migrate(db);
+    
+    // Throws if the index disagrees with the content table
+    db.exec(`INSERT INTO memories_fts(memories_fts, rank) VALUES('integrity-check', 1)`);
+    
+    db.prepare('UPDATE memories SET content = ? WHERE id = ?')
+      .run('User is allergic to shellfish', '0b5c6a52-0000-4000-8000-000000000002');
+    
+    assert(ftsMatches(db, 'peanuts') === 0, 'Old content should no longer match');
+    assert(ftsMatches(db, 'shellfish') === 1, 'New content should match');
+    
+    db.close();
+  });
+  
+  await test('Upgraded memories start their history at a baseline revision', async () => {
+    const db = new Database(createLegacyDb('legacy-history'));
+    migrate(db);
+    
+    const revisions = db.prepare('SELECT revision, reason FROM memory_revisions').all() as { revision: number; reason: string }[];
+    assert(revisions.length === 3, `Should add one revision per memory, got ${revisions.length}`);
+    assert(revisions.every(r => r.revision === 1 && r.reason === 'baseline'), 'Should record baseline revisions');
+    
+    let threw = false;
+    try {
+      db.prepare("UPDATE memory_revisions SET reason = 'edited'").run();
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'Revisions should be append-only');
+    
+    db.close();
+  });
+  
+  await test('Migrating twice is a no-op', async () => {
+    const db = new Database(createLegacyDb('legacy-twice'));
+    migrate(db);
+    
+    const { from, to } = migrate(db);
+    assert(from === SCHEMA_VERSION && to === SCHEMA_VERSION, 'Second run should not change version');
+    
+    db.close();
+  });
+  
+  await test('Creates current schema on a fresh DB', async () => {
+    const db = new Database(':memory:');
+    migrate(db);
+    
+    assert(getSchemaVersion(db) === SCHEMA_VERSION, 'Should be at latest version');
+    assert(columnNames(db).includes('content'), 'Should create memories table');
+    
+    db.close();
+  });
+  
+  await test('Rejects DB from a newer build', async () => {
+    const db = new Database(':memory:');
+    db.pragma(`user_version = ${SCHEMA_VERSION + 1}`);
+    
+    let threw = false;
+    try {
+      migrate(db);
+    } catch {
+      threw = true;
+    }
+    
+    assert(threw, 'Should refuse to open');
+    db.close();
+  });
+  
+  await test('Failed migration rolls back', async () => {
+    const db = new Database(':memory:');
+    const migrations: Migration[] = [
+      { version: 1, name: 'ok', up: (d) => d.exec('CREATE TABLE a (x INTEGER)') },
+      {
+        version: 2,
+        name: 'broken',
+        up: (d) => {
+          d.exec('CREATE TABLE b (x INTEGER)');
+          throw new Error('boom');
+        }
+      }
+    ];
+    
+    let threw = false;
+    try {
+      migrate(db, migrations);
+    } catch {
+      threw = true;
+    }
+    
+    assert(threw, 'Should surface the failure');
+    assert(getSchemaVersion(db) === 1, 'Should stay at last good version');
+    
+    const tableB = db.prepare("SELECT name FROM sqlite_master WHERE name = 'b'").get();
+    assert(!tableB, 'Should not leave partial changes');
+    
+    db.close();
+  });
+  
+  await test('Memory service reads an upgraded legacy DB', async () => {
+    createLegacyDb('legacy-service');
+    
+    const memory = getMemoryService({ user_id: 'legacy-service', db_path: 'legacy-service/engram.db' });
+    const data = await memory.recall('peanuts');
+    
+    assert(data.results.length === 1, 'Should recall legacy memory');
+    assert(data.results[0].metadata?.source === 'chat', 'Should keep metadata');
+  });
+  
+  // Summary
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
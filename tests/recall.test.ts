@@ -0,0 +1,93 @@
+/**
+ * Recall Tests
+ *
+ * Run with: npm test
+ * Checks that vector hits honour the recall filters as memories change.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HashEmbedder } from '../src/lib/embeddings';
+import { MemoryService } from '../src/lib/memory';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engram-recall-'));
+process.env.MEMORY_STORAGE_PATH = tmpDir;
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+async function runTests() {
+  console.log('\n🧪 Running Recall Tests\n');
+  
+  const memory = new MemoryService('recall/engram.db', 'recall', new HashEmbedder());
+  const ids = (await memory.storeBatch([
+    { content: 'User prefers green tea in the morning', type: 'factual', metadata: { source: 'chat' } },
+    { content: 'User drinks green tea every morning', type: 'factual', metadata: { source: 'chat' } }
+  ])).map(result => result.id);
+  const query = 'prefers green morning tea drinks';
+  
+  await test('Finds memories through the vector index', async () => {
+    const { results: found } = await memory.recall(query, 10, ['factual']);
+    assert(ids.every(id => found.some(m => m.id === id)), 'Should find both memories');
+  });
+  
+  await test('Type changes take effect on vector hits', async () => {
+    await memory.update(ids[0], { type: 'episodic' });
+    
+    const { results: factual } = await memory.recall(query, 10, ['factual']);
+    assert(!factual.some(m => m.id === ids[0]), 'Should not return a memory that is no longer factual');
+    
+    const { results: episodic } = await memory.recall(query, 10, ['episodic']);
+    assert(episodic.some(m => m.id === ids[0]), 'Should return it under its new type');
+  });
+  
+  await test('Metadata and importance changes take effect on vector hits', async () => {
+    await memory.update(ids[1], { metadata: { source: 'import' }, importance: 0.2 });
+    
+    const bySource = await memory.recall(query, 10, undefined, { filters: { metadata: { source: 'chat' } } });
+    assert(!bySource.results.some(m => m.id === ids[1]), 'Should not match on stale metadata');
+    
+    const byImportance = await memory.recall(query, 10, undefined, { filters: { min_importance: 0.5 } });
+    assert(!byImportance.results.some(m => m.id === ids[1]), 'Should not match on stale importance');
+  });
+  
+  // Summary
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
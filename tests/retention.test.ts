@@ -0,0 +1,130 @@
+/**
+ * Retention Policy Tests
+ *
+ * Run with: npm test
+ * Plans retention against fixed candidates and a fixed clock.
+ */
+
+import { effectivePolicy, planRetention, retentionHorizonDays, type RetentionCandidate } from '../src/lib/retention';
+import type { MemoryType } from '../src/lib/types';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const NOW = Date.parse('2026-03-01T00:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function candidate(id: string, type: MemoryType, ageDays: number): RetentionCandidate {
+  return { id, type, created_at: new Date(NOW - ageDays * DAY_MS).toISOString() };
+}
+
+function removedIds(candidates: RetentionCandidate[], policy: Parameters<typeof planRetention>[1]): string[] {
+  return planRetention(candidates, policy, NOW).remove.map(r => r.id).sort();
+}
+
+async function runTests() {
+  console.log('\n🧪 Running Retention Tests\n');
+  
+  await test('Empty policy keeps everything', async () => {
+    const plan = planRetention([candidate('a', 'factual', 400)], {}, NOW);
+    
+    assert(plan.remove.length === 0, 'Should remove nothing');
+    assert(plan.nextExpiry === null, 'Should never expire');
+  });
+  
+  await test('Max age removes old memories', async () => {
+    const removed = removedIds(
+      [candidate('old', 'factual', 8), candidate('new', 'factual', 6)],
+      { max_age_days: 7 }
+    );
+    
+    assert(removed.join() === 'old', `Should remove only "old", got ${removed.join()}`);
+  });
+  
+  await test('Max count keeps the newest memories', async () => {
+    const removed = removedIds(
+      [candidate('a', 'factual', 3), candidate('b', 'factual', 1), candidate('c', 'episodic', 2)],
+      { max_count: 2 }
+    );
+    
+    assert(removed.join() === 'a', `Should remove the oldest, got ${removed.join()}`);
+  });
+  
+  await test('Per-type rules override the base rule', async () => {
+    const removed = removedIds(
+      [
+        candidate('e1', 'episodic', 1),
+        candidate('e2', 'episodic', 2),
+        candidate('f1', 'factual', 20),
+        candidate('s1', 'semantic', 20)
+      ],
+      { max_age_days: 10, types: { episodic: { max_count: 1 }, semantic: { max_age_days: null } } }
+    );
+    
+    assert(removed.join() === 'e2,f1', `Should apply type rules, got ${removed.join()}`);
+  });
+  
+  await test('Reports the next expiry of kept memories', async () => {
+    const plan = planRetention([candidate('a', 'factual', 5), candidate('b', 'factual', 2)], { max_age_days: 7 }, NOW);
+    
+    assert(plan.nextExpiry === new Date(NOW + 2 * DAY_MS).toISOString(), `Unexpected expiry ${plan.nextExpiry}`);
+  });
+  
+  await test('Instance policy can only tighten the tier policy', async () => {
+    const policy = effectivePolicy(
+      { max_age_days: 7 },
+      { max_age_days: 30, max_count: 100, types: { episodic: { max_age_days: 1 } } }
+    );
+    
+    assert(policy.max_age_days === 7, 'Tier max age should win');
+    assert(policy.max_count === 100, 'Instance max count should apply');
+    assert(policy.types?.episodic?.max_age_days === 1, 'Stricter type rule should apply');
+    assert(policy.types?.episodic?.max_count === undefined, 'Type rule should not pin the base count');
+  });
+  
+  await test('Horizon is the longest age any memory is kept', async () => {
+    assert(retentionHorizonDays({}) === null, 'No max age has no horizon');
+    assert(retentionHorizonDays({ max_age_days: 7, types: { episodic: { max_age_days: 1 } } }) === 7, 'Shorter type ages should not lower it');
+    assert(retentionHorizonDays({ max_age_days: 7, types: { factual: { max_age_days: 30 } } }) === 30, 'Longer type ages should raise it');
+    assert(retentionHorizonDays({ max_age_days: 7, types: { semantic: { max_age_days: null } } }) === null, 'A type kept indefinitely has no horizon');
+    assert(retentionHorizonDays({ types: { episodic: { max_age_days: 1 } } }) === null, 'Types without a max age have no horizon');
+  });
+  
+  // Summary
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
@@ -0,0 +1,232 @@
+/**
+ * Snapshot Tests
+ *
+ * Run with: npm test
+ * Takes, restores and prunes snapshots of a memory service on a fake clock.
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryService } from '../src/lib/memory';
+import { planSnapshotPruning } from '../src/lib/snapshots';
+import { SNAPSHOT_POLICY } from '../src/lib/types';
+import type { Snapshot, SnapshotReason } from '../src/lib/types';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engram-snapshots-'));
+process.env.MEMORY_STORAGE_PATH = tmpDir;
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const START = Date.parse('2026-01-01T00:00:00.000Z');
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function snapshotAt(ms: number, reason: SnapshotReason): Snapshot {
+  const created = new Date(ms).toISOString();
+  return {
+    id: `${created.replace(/[-:.]/g, '')}-000000`,
+    reason,
+    created_at: created,
+    memories: 0,
+    schema_version: 1,
+    bytes: 0
+  };
+}
+
+async function runTests() {
+  console.log('\n🧪 Running Snapshot Tests\n');
+  
+  let now = START;
+  const memory = new MemoryService('snap/engram.db', 'snap', null, () => now);
+  
+  await test('Takes snapshots with the backup API', async () => {
+    await memory.store('User lives in Porto', 'factual', 0.5);
+    await memory.store('User has a dog named Miso', 'factual', 0.5);
+    
+    now += HOUR_MS;
+    const snapshot = await memory.createSnapshot();
+    assert(!!snapshot && snapshot.reason === 'manual', 'Should take a manual snapshot');
+    assert(snapshot!.memories === 2 && snapshot!.bytes > 0, `Should record the copy, got ${JSON.stringify(snapshot)}`);
+    
+    const file = path.join(tmpDir, 'snap', 'snapshots', `${snapshot!.id}.db`);
+    const copy = new Database(file, { readonly: true });
+    const count = copy.prepare('SELECT COUNT(*) FROM memories').pluck().get();
+    copy.close();
+    assert(count === 2, `The copy should hold both memories, got ${count}`);
+    
+    now += HOUR_MS;
+    const later = await memory.createSnapshot();
+    const listed = (await memory.listSnapshots()).map(s => s.id);
+    assert(JSON.stringify(listed) === JSON.stringify([later!.id, snapshot!.id]), 'Should list newest first');
+  });
+  
+  await test('Restores an earlier state and can undo the restore', async () => {
+    const [, first] = await memory.listSnapshots();
+    const { memories } = await memory.list({ limit: 10, sort: 'created_at', order: 'asc' });
+    const porto = memories.find(m => m.content.includes('Porto'))!;
+    const miso = memories.find(m => m.content.includes('Miso'))!;
+    
+    now += HOUR_MS;
+    await memory.update(porto.id, { content: 'User lives in Lisbon' });
+    await memory.delete(miso.id);
+    const added = await memory.store('User started learning Go', 'factual', 0.5);
+    
+    now += HOUR_MS;
+    const result = await memory.restoreSnapshot(first.id);
+    assert(result?.restored.id === first.id, 'Should restore the snapshot');
+    assert(result!.backup.reason === 'restore' && result!.backup.memories === 2, 'Should snapshot the replaced state first');
+    
+    const restored = (await memory.list({ limit: 10, sort: 'created_at', order: 'asc' })).memories.map(m => m.content).sort();
+    assert(JSON.stringify(restored) === JSON.stringify(['User has a dog named Miso', 'User lives in Porto']), `Unexpected memories: ${restored}`);
+    assert((await memory.recall('Porto')).results.length === 1, 'Search should see the restored content');
+    
+    now += HOUR_MS;
+    await memory.restoreSnapshot(result!.backup.id);
+    const undone = (await memory.list({ limit: 10, sort: 'created_at', order: 'asc' })).memories.map(m => m.id).sort();
+    assert(JSON.stringify(undone) === JSON.stringify([added.id, porto.id].sort()), 'Restoring the backup should undo the restore');
+  });
+  
+  await test('Replicas and event streams see a restore as new changes', async () => {
+    const { cursor } = await memory.pullChanges(0, 1000);
+    const lastEvent = await memory.lastEventId();
+    const before = new Map((await memory.pullChanges(0, 1000)).changes.map(c => [c.id, c.version]));
+    const [snapshot] = (await memory.listSnapshots()).filter(s => s.reason === 'manual');
+    
+    now += HOUR_MS;
+    await memory.restoreSnapshot(snapshot.id);
+    const { changes } = await memory.pullChanges(cursor, 1000);
+    
+    const live = changes.filter(c => !c.deleted);
+    const dropped = changes.filter(c => c.deleted);
+    assert(live.length === 2 && dropped.length === 1, `Should pull 2 restored memories and 1 tombstone, got ${live.length}/${dropped.length}`);
+    assert(changes.every(c => c.version > (before.get(c.id) ?? 0)), 'Versions should beat what replicas hold');
+    
+    const events = await memory.listEvents(lastEvent);
+    assert(events.some(e => e.type === 'updated' && e.data?.reason === 'snapshot_restored'), 'Should emit an event past the old cursor');
+  });
+  
+  await test('Consolidate and import snapshot first', async () => {
+    const count = (reason: SnapshotReason) => memory.listSnapshots().then(list => list.filter(s => s.reason === reason).length);
+    
+    now += HOUR_MS;
+    await memory.consolidate();
+    assert(await count('consolidate') === 1, 'Consolidate should take a snapshot');
+    
+    const imported = (await memory.list({ limit: 1, sort: 'created_at', order: 'asc' })).memories[0];
+    const options = { mode: 'merge' as const, onConflict: 'new_id' as const, dryRun: true };
+    await memory.importArchive([imported], [], [], options);
+    assert(await count('import') === 0, 'Dry runs should not take a snapshot');
+    
+    now += HOUR_MS;
+    await memory.importArchive([imported], [], [], { ...options, dryRun: false });
+    assert(await count('import') === 1, 'Imports should take a snapshot');
+  });
+  
+  await test('Keeps daily snapshots for a week and bounds automatic ones', async () => {
+    const end = START + 30 * DAY_MS;
+    const scheduled = Array.from({ length: 20 }, (_, day) => [
+      snapshotAt(START + (10 + day) * DAY_MS, 'scheduled'),
+      snapshotAt(START + (10 + day) * DAY_MS + HOUR_MS, 'scheduled')
+    ]).flat();
+    const automatic = Array.from({ length: 15 }, (_, i) => snapshotAt(end - (i + 1) * HOUR_MS, 'consolidate'));
+    const manual = [snapshotAt(START, 'manual')];
+    
+    const pruned = new Set(planSnapshotPruning([...scheduled, ...automatic, ...manual], end).map(s => s.id));
+    const kept = [...scheduled, ...automatic, ...manual].filter(s => !pruned.has(s.id));
+    
+    const keptDays = kept.filter(s => s.reason === 'scheduled').map(s => s.created_at);
+    assert(keptDays.length === SNAPSHOT_POLICY.daily_days, `Should keep ${SNAPSHOT_POLICY.daily_days} daily snapshots, got ${keptDays.length}`);
+    assert(keptDays.every(at => at.endsWith('T01:00:00.000Z')), 'Should keep the newest of each day');
+    
+    const keptAutomatic = kept.filter(s => s.reason === 'consolidate');
+    assert(keptAutomatic.length === SNAPSHOT_POLICY.max_automatic, `Should cap automatic snapshots, got ${keptAutomatic.length}`);
+    assert(keptAutomatic.every(s => automatic.indexOf(s) < SNAPSHOT_POLICY.max_automatic), 'Should keep the newest automatic snapshots');
+    assert(!pruned.has(manual[0].id), 'Manual snapshots are never pruned');
+    
+    now += (SNAPSHOT_POLICY.automatic_days + 1) * DAY_MS;
+    const removed = await memory.pruneSnapshots();
+    const left = (await memory.listSnapshots()).map(s => s.reason);
+    assert(removed > 0 && left.every(reason => reason === 'manual'), `Only manual snapshots should be left, got ${left}`);
+  });
+  
+  await test('Limits manual snapshots', async () => {
+    const manual = (await memory.listSnapshots()).filter(s => s.reason === 'manual').length;
+    for (let i = manual; i < SNAPSHOT_POLICY.max_manual; i++) {
+      now += 1;
+      assert(!!(await memory.createSnapshot()), 'Should take snapshots up to the limit');
+    }
+    assert(await memory.createSnapshot() === null, 'Should refuse a snapshot over the limit');
+    assert(!!(await memory.createSnapshot('scheduled')), 'Automatic snapshots are not limited');
+  });
+  
+  await test('Ignores unknown and malformed snapshot ids', async () => {
+    for (const id of ['20260101T000000000Z-ffffff', '../engram', '../../snap/engram.db', '']) {
+      assert(await memory.restoreSnapshot(id) === null, `Should not restore ${JSON.stringify(id)}`);
+      assert(!(await memory.deleteSnapshot(id)), `Should not delete ${JSON.stringify(id)}`);
+    }
+    assert(fs.existsSync(path.join(tmpDir, 'snap', 'engram.db')), 'The DB should be untouched');
+    
+    const [snapshot] = await memory.listSnapshots();
+    assert(await memory.deleteSnapshot(snapshot.id), 'Should delete a snapshot');
+    assert(!(await memory.listSnapshots()).some(s => s.id === snapshot.id), 'Should no longer list it');
+  });
+  
+  await test('Counts manual snapshots as storage and removes them past the retention horizon', async () => {
+    const snapshots = await memory.listSnapshots();
+    const bytes = snapshots.filter(s => s.reason === 'manual').reduce((sum, s) => sum + s.bytes, 0);
+    const { storage } = await memory.stats();
+    assert(snapshots.some(s => s.reason !== 'manual'), 'Should hold automatic snapshots too');
+    assert(bytes > 0 && storage.snapshot_bytes === bytes, `Stats should report manual snapshot bytes, got ${storage.snapshot_bytes}`);
+    assert(await memory.storageBytes() === storage.bytes + bytes, 'Only manual snapshots should count toward the quota');
+    
+    now += 8 * DAY_MS;
+    await memory.pruneSnapshots();
+    assert((await memory.listSnapshots()).some(s => s.reason === 'manual'), 'Manual snapshots stay without a horizon');
+    
+    await memory.pruneSnapshots({ max_age_days: 7 });
+    assert((await memory.listSnapshots()).length === 0, 'Snapshots past the horizon should be removed');
+    assert(await memory.storageBytes() === storage.bytes, 'Removed snapshots should free quota');
+  });
+  
+  // Summary
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
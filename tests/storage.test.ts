@@ -0,0 +1,109 @@
+/**
+ * Storage Quota Tests
+ *
+ * Run with: npm test
+ * Measures an instance of the test user, whose instances need no Supabase.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkStorageQuota, getStorageQuota } from '../src/lib/instance';
+import { getMemoryService } from '../src/lib/memory';
+import { getMemoryInstance } from '../src/lib/supabase';
+import type { AuthContext } from '../src/lib/auth';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engram-storage-'));
+process.env.MEMORY_STORAGE_PATH = tmpDir;
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const free: AuthContext = { userId: 'test-user', tier: 'free', keyId: 'test-key' };
+
+async function runTests() {
+  console.log('\n🧪 Running Storage Tests\n');
+  
+  const memory = getMemoryService((await getMemoryInstance('test-user'))!);
+  const items = Array.from({ length: 50 }, (_, i) => ({ content: `Note ${i}: ${'lorem ipsum '.repeat(400)}` }));
+  let emptyBytes = 0;
+  let storedIds: string[] = [];
+  
+  await test('Stats report bytes and row counts', async () => {
+    emptyBytes = (await memory.stats()).storage.bytes;
+    storedIds = (await memory.storeBatch(items)).map(result => result.id);
+    
+    const { storage } = await memory.stats();
+    assert(storage.bytes > emptyBytes + 50 * 4800, `Should count the stored content, got ${storage.bytes} bytes`);
+    assert(storage.file_bytes >= storage.bytes, 'Files on disk should hold at least the bytes in use');
+    assert(storage.rows.memories === 50 && storage.rows.revisions === 50, 'Should count memories and revisions');
+    assert(storage.quota === null, 'Quota should only be reported when passed in');
+  });
+  
+  await test('Deleting memories frees quota before the file shrinks', async () => {
+    for (const id of storedIds) {
+      await memory.delete(id);
+    }
+    
+    const { storage } = await memory.stats();
+    assert(storage.bytes < emptyBytes + 50 * 4800, `Bytes in use should drop, got ${storage.bytes}`);
+    assert(storage.rows.tombstones === 50, 'Deletes should leave tombstones');
+  });
+  
+  await test('Quota sums the account\'s instances', async () => {
+    const quota = await getStorageQuota(free);
+    
+    assert(quota.limit_bytes === 100 * 1024 * 1024, 'Free tier should have 100 MB');
+    assert(quota.used_bytes === await memory.storageBytes(), 'Should count the default instance');
+  });
+  
+  await test('Writes over the quota are rejected', async () => {
+    assert(await checkStorageQuota(free, items) === null, 'A small write should pass');
+    
+    const rejected = await checkStorageQuota(free, 'x'.repeat(100 * 1024 * 1024));
+    const body = await rejected?.json();
+    assert(rejected?.status === 403 && body.code === 'QUOTA_EXCEEDED', 'Should return QUOTA_EXCEEDED');
+    assert(body.details.tier === 'free' && body.details.limit_bytes === 100 * 1024 * 1024, 'Should report tier and limit');
+    
+    assert(await checkStorageQuota({ ...free, tier: 'enterprise' }, 'x'.repeat(1024 * 1024)) === null, 'Enterprise is unlimited');
+  });
+  
+  // Summary
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
@@ -0,0 +1,208 @@
+/**
+ * Episodic Summarization Tests
+ *
+ * Run with: npm test
+ * Consolidates episodic memories with the deterministic stub summarizer
+ * (and a few scripted ones) against a memory service.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HashEmbedder } from '../src/lib/embeddings';
+import { MemoryService, SUMMARIZED_IMPORTANCE_FACTOR, SUMMARY_RELATION } from '../src/lib/memory';
+import { StubSummarizer, type Episode, type Summarizer } from '../src/lib/summarizer';
+import { MAX_CONTENT_LENGTH, validateConsolidateRequest } from '../src/lib/validation';
+import type { ConsolidateRequest, Memory } from '../src/lib/types';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engram-summarization-'));
+process.env.MEMORY_STORAGE_PATH = tmpDir;
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const RUST_EPISODES = [
+  'User asked about Rust lifetimes on Tuesday',
+  'User asked about Rust borrow checker on Wednesday',
+  'User asked about Rust async traits on Friday'
+];
+const GARDEN_EPISODES = [
+  'User talked about watering tomato plants in the garden',
+  'User talked about pruning tomato plants in the garden',
+  'User talked about tomato plants blight in the garden'
+];
+
+async function allMemories(memory: MemoryService): Promise<Memory[]> {
+  return (await memory.list({ limit: 100, sort: 'created_at', order: 'asc' })).memories;
+}
+
+async function runTests() {
+  console.log('\n🧪 Running Episodic Summarization Tests\n');
+  
+  const memory = new MemoryService('summaries/engram.db', 'summaries', new HashEmbedder());
+  const summarizer = new StubSummarizer();
+  
+  for (const content of [...RUST_EPISODES, ...GARDEN_EPISODES]) {
+    await memory.store(content, 'episodic', 0.6);
+  }
+  await memory.store('Booked a flight to Oslo for March', 'episodic', 0.6);
+  await memory.store('Compared hotels near Oslo central station', 'episodic', 0.6);
+  await memory.store('User asked about Rust lifetimes and borrow checker', 'factual', 0.6);
+  
+  await test('Summarizes groups of related episodes into linked semantic memories', async () => {
+    const { stats } = await memory.consolidate({}, { summarizer });
+    assert(stats.summaries === 2 && stats.summarized === 6, `Should summarize two groups of three, got ${stats.summaries}/${stats.summarized}`);
+    
+    const summaries = (await allMemories(memory)).filter(m => m.type === 'semantic');
+    assert(summaries.length === 2, `Should store two semantic memories, got ${summaries.length}`);
+    
+    const rust = summaries.find(m => m.content.includes('Rust'))!;
+    assert(rust.content === `Across 3 episodes: ${RUST_EPISODES.join('; ')}`, `Unexpected summary: ${rust.content}`);
+    assert(rust.importance === 0.6, `Should be as important as its sources, got ${rust.importance}`);
+    assert(rust.metadata?.summarizer === 'stub', 'Should record the summarizer');
+    
+    const links = (await memory.listLinks(rust.id)).filter(link => link.source_id === rust.id);
+    const sources = (rust.metadata?.summarized_from as string[]).sort();
+    assert(links.length === 3 && links.every(link => link.relation === SUMMARY_RELATION), 'Should link the summary to each episode');
+    assert(JSON.stringify(links.map(link => link.target_id).sort()) === JSON.stringify(sources), 'Links should match summarized_from');
+  });
+  
+  await test('Lowers the importance of summarized episodes only', async () => {
+    const all = await allMemories(memory);
+    const summarized = all.filter(m => [...RUST_EPISODES, ...GARDEN_EPISODES].includes(m.content));
+    const untouched = all.filter(m => m.content.includes('Oslo') || m.type === 'factual');
+    
+    const expected = 0.6 * SUMMARIZED_IMPORTANCE_FACTOR;
+    assert(summarized.every(m => Math.abs(m.importance - expected) < 1e-9), `Summarized episodes should drop to ${expected}`);
+    assert(untouched.every(m => m.importance === 0.6), 'Other memories should keep their importance');
+    
+    const history = await memory.history(summarized[0].id);
+    assert(history?.[history.length - 1].reason === 'summarized', 'Should record a revision');
+  });
+  
+  await test('Does not summarize episodes twice', async () => {
+    await memory.store('User asked about Rust macros on Monday', 'episodic', 0.6);
+    const { stats } = await memory.consolidate({}, { summarizer });
+    assert(stats.summaries === 0 && stats.summarized === 0, `Should find nothing new to summarize, got ${stats.summaries}`);
+    assert(stats.merged === 0, 'Summaries should not be merged away');
+  });
+  
+  await test('Skips groups the summarizer declines and runs only when asked', async () => {
+    const declining: Summarizer = { model: 'declining', summarize: async () => null };
+    const fresh = new MemoryService('declined/engram.db', 'declined', new HashEmbedder());
+    for (const content of GARDEN_EPISODES) {
+      await fresh.store(content, 'episodic', 0.6);
+    }
+    
+    const declined = await fresh.consolidate({}, { summarizer: declining });
+    assert(declined.stats.summaries === 0 && declined.stats.summarized === 0, 'Declined groups should not be summarized');
+    
+    const off = await fresh.consolidate();
+    assert(off.stats.summaries === 0, 'Should not summarize without a summarizer');
+    assert((await allMemories(fresh)).every(m => m.importance === 0.6), 'Importance should be unchanged');
+  });
+  
+  await test('Leaves groups whose episodes changed while summarizing', async () => {
+    const racy = new MemoryService('racy/engram.db', 'racy', new HashEmbedder());
+    const ids: string[] = [];
+    for (const content of RUST_EPISODES) {
+      ids.push((await racy.store(content, 'episodic', 0.6)).id);
+    }
+    
+    const editing: Summarizer = {
+      model: 'editing',
+      summarize: async (episodes: Episode[]) => {
+        await racy.update(ids[0], { importance: 0.9 });
+        return `Summary of ${episodes.length} episodes`;
+      }
+    };
+    const { stats } = await racy.consolidate({}, { summarizer: editing });
+    assert(stats.summaries === 0, 'Should not summarize a group that changed');
+    const edited = await racy.get(ids[0]);
+    assert(edited?.importance === 0.9, `The concurrent edit should stand, got ${edited?.importance}`);
+    
+    const retried = await racy.consolidate({}, { summarizer });
+    assert(retried.stats.summaries === 1, 'The next run should summarize the group');
+  });
+  
+  await test('Reports groups the summarizer fails on and bounds summary length', async () => {
+    const faulty = new MemoryService('faulty/engram.db', 'faulty', new HashEmbedder());
+    for (const content of [...RUST_EPISODES, ...GARDEN_EPISODES]) {
+      await faulty.store(content, 'episodic', 0.6);
+    }
+    
+    const flaky: Summarizer = {
+      model: 'flaky',
+      summarize: async (episodes: Episode[]) => {
+        if (episodes[0].content.includes('Rust')) throw new Error('Summarizer unavailable');
+        return 'Tomatoes. '.repeat(2000);
+      }
+    };
+    const { stats } = await faulty.consolidate({}, { summarizer: flaky });
+    assert(stats.summaries === 1 && stats.summaries_failed === 1, `Should write one summary and report one failure, got ${stats.summaries}/${stats.summaries_failed}`);
+    
+    const summary = (await allMemories(faulty)).find(m => m.type === 'semantic')!;
+    assert(summary.content.length <= MAX_CONTENT_LENGTH, `Should fit the content limit, got ${summary.content.length}`);
+    
+    const retried = await faulty.consolidate({}, { summarizer });
+    assert(retried.stats.summaries === 1 && retried.stats.summaries_failed === 0, 'The failed group should be summarized on the next run');
+  });
+  
+  await test('Counts only summaries that were stored', async () => {
+    const repeating = new MemoryService('repeating/engram.db', 'repeating', new HashEmbedder());
+    for (const content of [...RUST_EPISODES, ...GARDEN_EPISODES]) {
+      await repeating.store(content, 'episodic', 0.6);
+    }
+    
+    const constant: Summarizer = { model: 'constant', summarize: async () => 'User keeps asking about things' };
+    const { stats } = await repeating.consolidate({}, { summarizer: constant });
+    assert(stats.summaries === 1 && stats.summarized === 6, `Should store one summary for both groups, got ${stats.summaries}/${stats.summarized}`);
+    assert((await allMemories(repeating)).filter(m => m.type === 'semantic').length === 1, 'Should hold one semantic memory');
+  });
+  
+  await test('Validates the consolidate request', async () => {
+    assert(validateConsolidateRequest({}) === null, 'An empty body is valid');
+    assert(validateConsolidateRequest({ summarize: true }) === null, 'summarize: true is valid');
+    assert(validateConsolidateRequest({ summarize: 'yes' } as unknown as ConsolidateRequest) !== null, 'Should reject non-boolean summarize');
+    assert(validateConsolidateRequest([] as unknown as ConsolidateRequest) !== null, 'Should reject non-objects');
+  });
+  
+  // Summary
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
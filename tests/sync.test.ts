@@ -0,0 +1,263 @@
+/**
+ * Memory Sync Tests
+ *
+ * Run with: npm test
+ * Two simulated bots keep local replicas of one memory instance and sync
+ * them through the Memory API's pull/push operations.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getMemoryService, type MemoryService } from '../src/lib/memory';
+import { compareSyncVersions } from '../src/lib/sync';
+import type { SyncMemoryData, SyncPushChange, SyncVersion } from '../src/lib/types';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engram-sync-'));
+process.env.MEMORY_STORAGE_PATH = tmpDir;
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+interface LocalRecord extends SyncVersion {
+  deleted: boolean;
+  memory?: SyncMemoryData;
+  // Written locally and not yet accepted by the server
+  dirty: boolean;
+}
+
+// A bot's local replica, following the protocol described in sync.ts
+class SyncClient {
+  records = new Map<string, LocalRecord>();
+  cursor = 0;
+  
+  constructor(readonly origin: string) {}
+  
+  create(id: string, content: string, at: string): void {
+    this.write(id, 1, at, {
+      memory: { content, type: 'factual', importance: 0.5, pinned: false, created_at: at }
+    });
+  }
+  
+  edit(id: string, changes: Partial<SyncMemoryData>, at: string): void {
+    const record = this.records.get(id)!;
+    this.write(id, record.version + 1, at, { memory: { ...record.memory!, ...changes } });
+  }
+  
+  remove(id: string, at: string): void {
+    this.write(id, this.records.get(id)!.version + 1, at, { deleted: true });
+  }
+  
+  async pull(server: MemoryService): Promise<void> {
+    let page;
+    do {
+      page = await server.pullChanges(this.cursor, 2);
+      for (const change of page.changes) {
+        const local = this.records.get(change.id);
+        // Keep an unpushed local write only if it wins
+        if (local?.dirty && compareSyncVersions(local, change) > 0) continue;
+        this.records.set(change.id, { ...change, dirty: false });
+      }
+      this.cursor = page.cursor;
+    } while (page.has_more);
+  }
+  
+  async push(server: MemoryService): Promise<{ applied: number; stale: number }> {
+    const changes: SyncPushChange[] = [...this.records.entries()]
+      .filter(([, record]) => record.dirty)
+      .map(([id, record]) => ({
+        id,
+        version: record.version,
+        updated_at: record.updated_at,
+        deleted: record.deleted,
+        memory: record.memory
+      }));
+    if (changes.length === 0) return { applied: 0, stale: 0 };
+    
+    const response = await server.pushChanges(this.origin, changes);
+    for (const result of response.results) {
+      // Stale writes stay dirty; the next pull replaces them with the winner
+      if (result.status === 'applied') this.records.get(result.id)!.dirty = false;
+    }
+    return response;
+  }
+  
+  async sync(server: MemoryService): Promise<void> {
+    await this.pull(server);
+    await this.push(server);
+    await this.pull(server);
+  }
+  
+  // Live memories as id -> content, for comparing replicas
+  state(): Record<string, string> {
+    const state: Record<string, string> = {};
+    for (const [id, record] of [...this.records.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      if (!record.deleted) state[id] = record.memory!.content;
+    }
+    return state;
+  }
+  
+  private write(id: string, version: number, at: string, data: { deleted?: boolean; memory?: SyncMemoryData }): void {
+    this.records.set(id, {
+      version,
+      updated_at: at,
+      origin: this.origin,
+      deleted: !!data.deleted,
+      memory: data.memory,
+      dirty: true
+    });
+  }
+}
+
+async function serverState(server: MemoryService): Promise<Record<string, string>> {
+  const reader = new SyncClient('reader');
+  await reader.pull(server);
+  return reader.state();
+}
+
+async function assertConverged(server: MemoryService, clients: SyncClient[]): Promise<Record<string, string>> {
+  const expected = JSON.stringify(await serverState(server));
+  for (const client of clients) {
+    const actual = JSON.stringify(client.state());
+    assert(actual === expected, `${client.origin} diverged: ${actual} vs server ${expected}`);
+  }
+  return JSON.parse(expected);
+}
+
+const T = (minute: number) => new Date(Date.UTC(2026, 0, 1, 12, minute)).toISOString();
+
+async function runTests() {
+  console.log('\n🧪 Running Sync Tests\n');
+  
+  await test('Orders writes by version, then time, then origin', async () => {
+    const base = { version: 2, updated_at: T(0), origin: 'bot-a' };
+    assert(compareSyncVersions({ ...base, version: 3, updated_at: T(-5) }, base) > 0, 'Higher version should win');
+    assert(compareSyncVersions({ ...base, updated_at: T(1) }, base) > 0, 'Later write should win a version tie');
+    assert(compareSyncVersions({ ...base, origin: 'bot-b' }, base) > 0, 'Origin should break a full tie');
+    assert(compareSyncVersions(base, { ...base }) === 0, 'Same write should compare equal');
+  });
+  
+  const server = getMemoryService({ user_id: 'shared', db_path: 'shared/engram.db' });
+  const alice = new SyncClient('bot-a');
+  const bob = new SyncClient('bot-b');
+  
+  await test('New memories reach every client', async () => {
+    alice.create('m1', 'User lives in Paris', T(0));
+    bob.create('m2', 'User has a cat', T(1));
+    
+    await alice.sync(server);
+    await bob.sync(server);
+    await alice.sync(server);
+    
+    const state = await assertConverged(server, [alice, bob]);
+    assert(Object.keys(state).length === 2, 'Should share both memories');
+  });
+  
+  await test('Concurrent edits resolve to the last writer', async () => {
+    alice.edit('m1', { content: 'User lives in Lisbon' }, T(2));
+    bob.edit('m1', { content: 'User lives in Berlin' }, T(3));
+    
+    // Alice pushes first, but Bob's edit is later and wins
+    await alice.sync(server);
+    const pushed = await bob.push(server);
+    assert(pushed.applied === 1, 'Later concurrent edit should apply');
+    await bob.pull(server);
+    await alice.sync(server);
+    
+    const state = await assertConverged(server, [alice, bob]);
+    assert(state.m1 === 'User lives in Berlin', `Last writer should win, got "${state.m1}"`);
+  });
+  
+  await test('Stale writes are rejected and replaced on pull', async () => {
+    alice.edit('m2', { content: 'User has two cats' }, T(5));
+    bob.edit('m2', { content: 'User has a dog' }, T(4));
+    
+    await alice.sync(server);
+    const pushed = await bob.push(server);
+    assert(pushed.stale === 1, 'Earlier concurrent edit should be stale');
+    await bob.pull(server);
+    
+    const state = await assertConverged(server, [alice, bob]);
+    assert(state.m2 === 'User has two cats', 'Winner should replace the stale write');
+  });
+  
+  await test('Deletes propagate as tombstones and beat older edits', async () => {
+    alice.remove('m2', T(7));
+    bob.edit('m2', { content: 'User has three cats' }, T(6));
+    
+    await bob.sync(server);
+    await alice.sync(server);
+    await bob.sync(server);
+    
+    const state = await assertConverged(server, [alice, bob]);
+    assert(!('m2' in state), 'Later delete should win over an earlier edit');
+  });
+  
+  await test('Server-side changes sync to clients', async () => {
+    const stored = await server.store('User prefers tea', 'factual', 0.5, undefined, false, 'dashboard');
+    await server.update('m1', { importance: 0.9 }, 'dashboard');
+    await server.delete(stored.id, 'dashboard');
+    
+    await alice.sync(server);
+    await bob.sync(server);
+    
+    await assertConverged(server, [alice, bob]);
+    const m1 = alice.records.get('m1')!;
+    assert(m1.memory!.importance === 0.9 && m1.origin === 'dashboard', 'Server edit should arrive with its origin');
+    assert(alice.records.get(stored.id)?.deleted === true, 'Server delete should arrive as a tombstone');
+  });
+  
+  await test('Clients converge whatever order they sync in', async () => {
+    alice.create('m3', 'User speaks Portuguese', T(10));
+    bob.create('m3', 'User speaks Spanish', T(10));
+    alice.edit('m1', { content: 'User lives in Porto' }, T(11));
+    bob.remove('m1', T(12));
+    
+    await bob.sync(server);
+    await alice.sync(server);
+    await bob.sync(server);
+    
+    const state = await assertConverged(server, [alice, bob]);
+    assert(state.m3 === 'User speaks Spanish', 'Full tie should be broken by origin');
+    assert(!('m1' in state), 'Latest write (a delete) should win');
+  });
+  
+  // Summary
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
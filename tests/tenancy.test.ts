@@ -0,0 +1,208 @@
+/**
+ * Tenant Isolation Tests
+ *
+ * Run with: npm test
+ * Tries traversal ids, foreign db_paths and DB files owned by another tenant
+ * against the storage layer and the memory service.
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { migrate } from '../src/lib/migrations';
+import { getMemoryService, hasMemoryStorage } from '../src/lib/memory';
+import { resolveDbPath, tenantDirId, TENANT_SETTING } from '../src/lib/storage';
+import { instanceDbPath, validateApiKey } from '../src/lib/supabase';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engram-tenancy-'));
+const storageRoot = path.join(tmpDir, 'storage');
+process.env.MEMORY_STORAGE_PATH = storageRoot;
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    results.push({ name, passed: false, error: message });
+    console.log(`❌ ${name}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+async function assertRejects(fn: () => unknown, pattern: RegExp, message: string) {
+  try {
+    await fn();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    assert(pattern.test(reason), `${message}: unexpected error "${reason}"`);
+    return;
+  }
+  throw new Error(`${message}: did not throw`);
+}
+
+function isInside(root: string, file: string): boolean {
+  const relative = path.relative(root, file);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+async function runTests() {
+  console.log('\n🧪 Running Tenant Isolation Tests\n');
+  
+  await test('Tenant directories are opaque ids', async () => {
+    const dir = tenantDirId('alice');
+    assert(/^[0-9a-f]{32}$/.test(dir), `Should be 32 hex characters, got ${dir}`);
+    assert(tenantDirId('alice') === dir, 'Should be stable');
+    assert(tenantDirId('bob') !== dir, 'Should differ per tenant');
+    
+    const dbPath = instanceDbPath('alice', 'notes');
+    assert(dbPath === `${dir}/instances/notes/engram.db`, `Unexpected path ${dbPath}`);
+    assert(!dbPath.includes('alice'), 'Should not contain the user id');
+  });
+  
+  await test('Traversal user ids stay inside the storage root', async () => {
+    for (const userId of ['../../etc', '..', '/etc/passwd', 'a/../../b', 'C:\\Windows', '\0']) {
+      const file = resolveDbPath(userId, instanceDbPath(userId, 'default'));
+      assert(isInside(storageRoot, file), `${JSON.stringify(userId)} resolved to ${file}`);
+    }
+    
+    const memory = getMemoryService({ user_id: '../../escape', db_path: instanceDbPath('../../escape', 'default') });
+    await memory.store('Stored by a tenant with a hostile id', 'factual');
+    assert(!fs.existsSync(path.join(tmpDir, 'escape')), 'Nothing should be written outside the root');
+  });
+  
+  await test('Rejects db_paths that escape the storage root', async () => {
+    const own = tenantDirId('alice');
+    for (const dbPath of [
+      '../engram.db',
+      `${own}/../../engram.db`,
+      `${own}/../../../tmp/engram.db`,
+      path.join(tmpDir, own, 'engram.db'),
+      '/etc/passwd',
+      `${own}/engram.db\0.txt`,
+      'engram.db',
+      ''
+    ]) {
+      await assertRejects(
+        () => getMemoryService({ user_id: 'alice', db_path: dbPath }),
+        /Invalid memory DB path|outside the storage root/,
+        `Should reject ${JSON.stringify(dbPath)}`
+      );
+    }
+  });
+  
+  await test('Refuses db_paths in another tenant\'s directory', async () => {
+    const alice = getMemoryService({ user_id: 'alice', db_path: instanceDbPath('alice', 'default') });
+    await alice.store('Alice keeps her diary here', 'factual');
+    
+    for (const dbPath of [
+      instanceDbPath('alice', 'default'),
+      `${tenantDirId('bob')}/../${tenantDirId('alice')}/engram.db`,
+      'alice/engram.db'
+    ]) {
+      await assertRejects(
+        () => getMemoryService({ user_id: 'bob', db_path: dbPath }),
+        /does not belong to this tenant/,
+        `Bob should not reach ${dbPath}`
+      );
+      await assertRejects(
+        () => hasMemoryStorage({ user_id: 'bob', db_path: dbPath }),
+        /does not belong to this tenant/,
+        `Bob should not probe ${dbPath}`
+      );
+    }
+    
+    assert((await alice.recall('diary')).results.length === 1, 'Alice should still see her memory');
+  });
+  
+  await test('Refuses to open a DB file owned by another tenant', async () => {
+    // A DB of Alice's that ended up in Bob's directory
+    const dbPath = instanceDbPath('bob', 'misplaced');
+    const file = path.join(storageRoot, dbPath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const db = new Database(file);
+    migrate(db);
+    db.prepare('INSERT INTO settings (key, value) VALUES (?, ?)').run(TENANT_SETTING, tenantDirId('alice'));
+    db.close();
+    
+    const bob = getMemoryService({ user_id: 'bob', db_path: dbPath });
+    await assertRejects(() => bob.stats(), /belongs to another tenant/, 'Stats should be refused');
+    await assertRejects(() => bob.store('Bob writes into it', 'factual'), /belongs to another tenant/, 'Stores should be refused');
+    await assertRejects(() => bob.recall('anything'), /belongs to another tenant/, 'Recall should be refused');
+  });
+  
+  await test('DBs without an owner are claimed by the first tenant to open them', async () => {
+    // Created before tenants were recorded, under the raw user id
+    const carol = getMemoryService({ user_id: 'carol', db_path: 'carol/engram.db' });
+    await carol.store('Carol has used the API since the beginning', 'factual');
+    
+    const db = new Database(path.join(storageRoot, 'carol/engram.db'), { readonly: true });
+    const owner = db.prepare('SELECT value FROM settings WHERE key = ?').pluck().get(TENANT_SETTING);
+    db.close();
+    assert(owner === tenantDirId('carol'), `Should record Carol as the owner, got ${owner}`);
+    assert((await carol.stats()).total_memories === 1, 'Carol should keep using her DB');
+  });
+  
+  await test('New default instances keep a DB written before instances were recorded', async () => {
+    // Baseline layout: <storage>/<user id>/engram.db, with no instance row
+    const file = path.join(storageRoot, 'dave', 'engram.db');
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const db = new Database(file);
+    db.exec(fs.readFileSync(path.join(__dirname, 'fixtures', 'engram-unversioned.sql'), 'utf8'));
+    db.close();
+    
+    const dbPath = instanceDbPath('dave', 'default');
+    assert(dbPath === 'dave/engram.db', `Should use the existing DB, got ${dbPath}`);
+    const dave = getMemoryService({ user_id: 'dave', db_path: dbPath });
+    assert((await dave.stats()).total_memories === 3, 'Dave should keep his memories');
+    
+    assert(instanceDbPath('erin', 'default') === `${tenantDirId('erin')}/engram.db`, 'Users without one get an opaque path');
+    assert(instanceDbPath('dave', 'notes') === `${tenantDirId('dave')}/instances/notes/engram.db`, 'Named instances are always opaque');
+  });
+  
+  await test('TEST_API_KEY is ignored in production', async () => {
+    const env = process.env as Record<string, string | undefined>;
+    env.TEST_API_KEY = 'test-key-for-tenancy';
+    assert((await validateApiKey('test-key-for-tenancy')).valid, 'Should be accepted outside production');
+    
+    env.NODE_ENV = 'production';
+    try {
+      // Falls through to Supabase, which is not configured here
+      const result = await validateApiKey('test-key-for-tenancy').catch(() => ({ valid: false }));
+      assert(!result.valid, 'Should not be accepted in production');
+    } finally {
+      env.NODE_ENV = 'test';
+    }
+  });
+  
+  // Summary
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  
+  console.log('\n📊 Test Summary\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`Passed: ${passed}/${results.length}`);
+  console.log(`Failed: ${failed}/${results.length}`);
+  
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    for (const r of results.filter(r => !r.passed)) {
+      console.log(`  - ${r.name}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);